@@ -13,13 +13,13 @@ import {
 
 // Example 1: Type-safe configuration
 const testnetConfig: NetworkConfig = {
-  isTestnet: true,
+  networkId: 'testnet',
   networkUrl: 'https://horizon-testnet.stellar.org',
   networkPassphrase: 'Test SDF Network ; September 2015'
 };
 
 const mainnetConfig: NetworkConfig = {
-  isTestnet: false,
+  networkId: 'mainnet',
   networkUrl: 'https://horizon.stellar.org',
   networkPassphrase: 'Public Global Stellar Network ; September 2015'
 };
@@ -1,8 +1,10 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Activity, ExternalLink } from 'lucide-react';
 import * as Tabs from '@radix-ui/react-tabs';
 import { TransactionSearch } from './components/TransactionSearch';
 import { TransactionFlow } from './components/TransactionFlow';
+import { ContractFlameGraph } from './components/ContractFlameGraph';
+import { FeeBreakdown } from './components/FeeBreakdown';
 import { NetworkSelector } from './components/NetworkSelector';
 import { SimulationPanel } from './components/SimulationPanel';
 import { TransactionDetailsPanel } from './components/TransactionDetails';
@@ -10,62 +12,239 @@ import { ContractSimulator } from './components/ContractSimulator';
 import { TransactionEffects } from './components/TransactionEffects';
 import { ContractEventsFlow } from './components/ContractEventsFlow';
 import { UserOperationFlow } from './components/UserOperationFlow';
+import { AccountHistory } from './components/AccountHistory';
+import { ContractActivity } from './components/ContractActivity';
+import { LedgerBrowser } from './components/LedgerBrowser';
+import { LiveFeed } from './components/LiveFeed';
+import { TransactionDiff } from './components/TransactionDiff';
+import { AuthorizationTree } from './components/AuthorizationTree';
 import {
   fetchTransaction,
   createOperationNodes,
   createOperationEdges,
   setNetwork
 } from './services/stellar';
-import type { TransactionDetails, NetworkConfig } from './types/stellar';
+import { loadSelectedNetworkId, resolveNetworkConfig } from './services/networks';
+import { isAccountAddress } from './services/history';
+import { isContractAddress } from './services/contractActivity';
+import { parseRoute, buildRoutePath } from './services/routing';
+import type { TransactionDetails, NetworkConfig, TransactionStreamTarget, AppRoute, SimulationFork } from './types/stellar';
 
 function App() {
   const [isLoading, setIsLoading] = useState(false);
   const [transactions, setTransactions] = useState<TransactionDetails[]>([]);
   const [selectedTransaction, setSelectedTransaction] = useState<TransactionDetails | null>(null);
+  // Account, contract or ledger whose transaction list is shown above the transaction views
+  const [explorerTarget, setExplorerTarget] = useState<
+    { type: 'account' | 'contract'; address: string } | { type: 'ledger'; ledger: number | 'latest' } | null
+  >(null);
+  const [liveTarget, setLiveTarget] = useState<TransactionStreamTarget | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [networkConfig, setNetworkConfig] = useState<NetworkConfig>({
-    isTestnet: false,
-    networkUrl: 'https://horizon.stellar.org',
-    networkPassphrase: 'Public Global Stellar Network ; September 2015',
+  const [activeView, setActiveView] = useState<AppRoute['view']>('search');
+  const [transactionTab, setTransactionTab] = useState('details');
+  const [simulatorFork, setSimulatorFork] = useState<SimulationFork | null>(null);
+  const [networkConfig, setNetworkConfig] = useState<NetworkConfig>(() => {
+    // A network in the URL wins over the last selected one; fall back to the default if
+    // neither is registered
+    const routeNetwork = parseRoute(window.location.pathname, '', window.location.search).network;
+    let config: NetworkConfig;
+    try {
+      config = resolveNetworkConfig({ networkId: routeNetwork || loadSelectedNetworkId() });
+    } catch {
+      try {
+        config = resolveNetworkConfig({ networkId: loadSelectedNetworkId() });
+      } catch {
+        config = resolveNetworkConfig();
+      }
+    }
+    setNetwork(config);
+    return config;
   });
+  const networkLabel = networkConfig.label || networkConfig.networkId;
 
   const handleNetworkChange = (config: NetworkConfig) => {
     setNetworkConfig(config);
     setNetwork(config);
     setTransactions([]);
     setSelectedTransaction(null);
+    setSimulatorFork(null);
     setError(null);
   };
 
-  const handleSearch = async (value: string) => {
+  // Transactions opened during this session are kept, so moving around an account's history
+  // does not refetch ones that were already analyzed
+  const cacheTransaction = (txData: TransactionDetails) => {
+    setTransactions(prev => [...prev.filter(tx => tx.hash !== txData.hash), txData]);
+  };
+
+  // Used where a transaction is needed without selecting it, e.g. the comparison view
+  const getTransactionDetails = async (hash: string) => {
+    const cached = transactions.find(tx => tx.hash === hash);
+    if (cached) return cached;
+    const txData = await fetchTransaction(hash);
+    cacheTransaction(txData);
+    return txData;
+  };
+
+  const loadTransaction = async (hash: string) => {
+    const cached = transactions.find(tx => tx.hash === hash);
+    if (cached) {
+      setSelectedTransaction(cached);
+      setError(null);
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
     try {
-      const txData = await fetchTransaction(value);
+      const txData = await fetchTransaction(hash);
 
-      setTransactions([txData]);
+      cacheTransaction(txData);
       setSelectedTransaction(txData);
     } catch (err: any) {
 
       let errorMessage = 'Failed to fetch transaction data.';
 
       if (err.message?.includes('404') || err.response?.status === 404) {
-        errorMessage = `Transaction not found on ${networkConfig.isTestnet ? 'Testnet' : 'Mainnet'}. Please verify the hash and network selection.`;
+        errorMessage = `Transaction not found on ${networkLabel}. Please verify the hash and network selection.`;
       } else if (err.message?.includes('Network') || err.message?.includes('Failed to fetch')) {
-        errorMessage = `Network error: Unable to connect to Stellar ${networkConfig.isTestnet ? 'Testnet' : 'Mainnet'} Horizon server. Please check your internet connection.`;
+        errorMessage = `Network error: Unable to connect to Stellar ${networkLabel} Horizon server. Please check your internet connection.`;
       } else {
         errorMessage = err.message || 'An unexpected error occurred. Please try again.';
       }
 
       setError(errorMessage);
-      setTransactions([]);
       setSelectedTransaction(null);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Brings the app to the state a URL describes. Transaction routes leave the account, contract
+  // or ledger list in place so going back and forth through its transactions keeps it open
+  const applyRoute = async (route: AppRoute) => {
+    const networkChanged = !!route.network && route.network !== networkConfig.networkId;
+    if (networkChanged) {
+      try {
+        handleNetworkChange(resolveNetworkConfig({ networkId: route.network }));
+      } catch (err: any) {
+        setError(err.message);
+        return;
+      }
+    }
+
+    setActiveView(route.view);
+    setTransactionTab(route.tab || 'details');
+    if (route.view !== 'search') return;
+
+    const target = route.target;
+    if (!target) {
+      setExplorerTarget(null);
+      setSelectedTransaction(null);
+      setError(null);
+      return;
+    }
+
+    if (target.type === 'tx') {
+      if (networkChanged || selectedTransaction?.hash !== target.id) {
+        await loadTransaction(target.id);
+      }
+      return;
+    }
+
+    setExplorerTarget(target.type === 'ledger'
+      ? { type: 'ledger', ledger: target.id === 'latest' ? 'latest' : parseInt(target.id, 10) }
+      : { type: target.type, address: target.id });
+    setSelectedTransaction(null);
+    setError(null);
+  };
+
+  const navigate = (route: AppRoute) => {
+    const path = buildRoutePath(route);
+    if (path !== window.location.pathname + window.location.search + window.location.hash) {
+      window.history.pushState(null, '', path);
+    }
+    return applyRoute(route);
+  };
+
+  // Read through a ref so the popstate listener always sees the current state
+  const applyRouteRef = useRef(applyRoute);
+  applyRouteRef.current = applyRoute;
+
+  useEffect(() => {
+    const restore = () => applyRouteRef.current(parseRoute(window.location.pathname, window.location.hash, window.location.search));
+    restore();
+    window.addEventListener('popstate', restore);
+    return () => window.removeEventListener('popstate', restore);
+  }, []);
+
+  // Route describing what the search view currently shows, used when returning to it
+  const searchRoute = (tab = transactionTab): AppRoute => ({
+    view: 'search',
+    network: networkConfig.networkId,
+    target: selectedTransaction
+      ? { type: 'tx', id: selectedTransaction.hash }
+      : explorerTarget?.type === 'ledger'
+        ? { type: 'ledger', id: String(explorerTarget.ledger) }
+        : explorerTarget ? { type: explorerTarget.type, id: explorerTarget.address } : undefined,
+    tab
+  });
+
+  const selectTransaction = (hash: string) => {
+    navigate({ view: 'search', network: networkConfig.networkId, target: { type: 'tx', id: hash } });
+  };
+
+  const openFork = (fork: SimulationFork) => {
+    setSimulatorFork(fork);
+    navigate({ view: 'simulator', network: networkConfig.networkId });
+  };
+
+  const handleViewChange = (view: string) => {
+    navigate(view === 'search' ? searchRoute() : { view: view as AppRoute['view'], network: networkConfig.networkId });
+  };
+
+  // Tab switches replace the current history entry so Back leaves the transaction instead of
+  // stepping through its tabs
+  const handleTransactionTabChange = (tab: string) => {
+    setTransactionTab(tab);
+    window.history.replaceState(null, '', buildRoutePath(searchRoute(tab)));
+  };
+
+  const handleNetworkSelect = (config: NetworkConfig) => {
+    handleNetworkChange(config);
+    window.history.replaceState(null, '', buildRoutePath({ view: activeView, network: activeView === 'search' ? undefined : config.networkId }));
+  };
+
+  const handleSearch = async (value: string) => {
+    const network = networkConfig.networkId;
+
+    if (/^\d+$/.test(value) || value.toLowerCase() === 'latest') {
+      await navigate({ view: 'search', network, target: { type: 'ledger', id: value.toLowerCase() } });
+      return;
+    }
+
+    if (isAccountAddress(value) || isContractAddress(value)) {
+      await navigate({ view: 'search', network, target: { type: isContractAddress(value) ? 'contract' : 'account', id: value } });
+      return;
+    }
+
+    setExplorerTarget(null);
+    await navigate({ view: 'search', network, target: { type: 'tx', id: value } });
+  };
+
+  // A shared link may name a tab this transaction does not have (e.g. no Soroban debug info)
+  const hasSorobanOperations = !!selectedTransaction?.sorobanOperations?.length;
+  const authEntryCount = selectedTransaction?.sorobanOperations?.reduce((count, op) => count + (op.auth?.length || 0), 0) || 0;
+  const transactionTabs = [
+    'details',
+    'flow',
+    'effects',
+    ...(hasSorobanOperations ? ['user-flow'] : []),
+    ...(authEntryCount > 0 ? ['auth'] : []),
+    ...(hasSorobanOperations && selectedTransaction?.simulationResult ? ['simulation'] : [])
+  ];
+
   // Memoize nodes and edges to prevent re-creation on every render
   const flowNodes = useMemo(() => {
     return selectedTransaction ? createOperationNodes(selectedTransaction) : [];
@@ -87,10 +266,10 @@ function App() {
               Stellar Transaction Visualizer
             </h1>
           </div>
-          <NetworkSelector config={networkConfig} onConfigChange={handleNetworkChange} />
+          <NetworkSelector config={networkConfig} onConfigChange={handleNetworkSelect} />
         </div>
 
-        <Tabs.Root defaultValue="search" className="space-y-6">
+        <Tabs.Root value={activeView} onValueChange={handleViewChange} className="space-y-6">
           <Tabs.List className="flex space-x-2 border-b border-gray-200 bg-white rounded-t-xl px-4">
             <Tabs.Trigger
               value="search"
@@ -104,11 +283,17 @@ function App() {
             >
               Contract Simulator
             </Tabs.Trigger>
+            <Tabs.Trigger
+              value="compare"
+              className="px-4 py-3 text-gray-600 hover:text-gray-900 border-b-2 border-transparent data-[state=active]:border-blue-600 data-[state=active]:text-blue-600 font-medium"
+            >
+              Compare
+            </Tabs.Trigger>
           </Tabs.List>
 
           <Tabs.Content value="search">
             <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
-              <h2 className="text-xl font-semibold mb-4">Search Transaction</h2>
+              <h2 className="text-xl font-semibold mb-4">Search Transaction, Account, Contract or Ledger</h2>
               <TransactionSearch onSearch={handleSearch} isLoading={isLoading} />
               {error && (
                 <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -117,6 +302,46 @@ function App() {
               )}
             </div>
 
+            {liveTarget && (
+              <LiveFeed
+                key={`${networkConfig.networkId}:${networkConfig.networkUrl}:${liveTarget.address}`}
+                target={liveTarget}
+                onSelectTransaction={selectTransaction}
+                onTransaction={cacheTransaction}
+                onClose={() => setLiveTarget(null)}
+              />
+            )}
+
+            {explorerTarget?.type === 'account' && (
+              <AccountHistory
+                key={`${networkConfig.networkId}:${networkConfig.networkUrl}:${explorerTarget.address}`}
+                address={explorerTarget.address}
+                selectedHash={selectedTransaction?.hash}
+                onSelectTransaction={selectTransaction}
+                onWatch={() => setLiveTarget({ type: 'account', address: explorerTarget.address })}
+              />
+            )}
+
+            {explorerTarget?.type === 'ledger' && (
+              <LedgerBrowser
+                key={`${networkConfig.networkId}:${networkConfig.networkUrl}:${explorerTarget.ledger}`}
+                ledger={explorerTarget.ledger}
+                selectedHash={selectedTransaction?.hash}
+                onSelectTransaction={selectTransaction}
+                onTransactionLoaded={cacheTransaction}
+              />
+            )}
+
+            {explorerTarget?.type === 'contract' && (
+              <ContractActivity
+                key={`${networkConfig.networkId}:${networkConfig.rpcUrl}:${explorerTarget.address}`}
+                contractId={explorerTarget.address}
+                selectedHash={selectedTransaction?.hash}
+                onSelectTransaction={selectTransaction}
+                onWatch={() => setLiveTarget({ type: 'contract', address: explorerTarget.address })}
+              />
+            )}
+
             {isLoading && (
               <div className="flex items-center justify-center h-[400px] bg-white rounded-xl shadow-lg border border-gray-100 mt-6">
                 <div className="flex flex-col items-center gap-4">
@@ -128,7 +353,7 @@ function App() {
 
             {!isLoading && selectedTransaction && (
               <div className="mt-6">
-                <Tabs.Root defaultValue="details" className="space-y-4">
+                <Tabs.Root value={transactionTabs.includes(transactionTab) ? transactionTab : 'details'} onValueChange={handleTransactionTabChange} className="space-y-4">
                   <Tabs.List className="flex space-x-2 border-b border-gray-200 bg-gray-50 rounded-t-lg px-4">
                     <Tabs.Trigger
                       value="details"
@@ -156,6 +381,14 @@ function App() {
                         Operation Flow for Users
                       </Tabs.Trigger>
                     )}
+                    {authEntryCount > 0 && (
+                      <Tabs.Trigger
+                        value="auth"
+                        className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900 border-b-2 border-transparent data-[state=active]:border-blue-600 data-[state=active]:text-blue-600"
+                      >
+                        Authorization ({authEntryCount})
+                      </Tabs.Trigger>
+                    )}
                     {selectedTransaction.sorobanOperations && selectedTransaction.sorobanOperations.length > 0 && selectedTransaction.simulationResult && (
                       <Tabs.Trigger
                         value="simulation"
@@ -170,7 +403,13 @@ function App() {
                     <TransactionDetailsPanel
                       transaction={selectedTransaction}
                       networkConfig={networkConfig}
+                      onFork={openFork}
                     />
+                    {selectedTransaction.sorobanOperations && selectedTransaction.sorobanOperations.length > 0 && (
+                      <div className="mt-6">
+                        <FeeBreakdown key={selectedTransaction.hash} transaction={selectedTransaction} />
+                      </div>
+                    )}
                   </Tabs.Content>
 
                   <Tabs.Content value="flow">
@@ -183,9 +422,14 @@ function App() {
                         edges={flowEdges}
                         effects={selectedTransaction.effects || []}
                         sorobanOperations={selectedTransaction.sorobanOperations || []}
-                        simulationResult={selectedTransaction.simulationResult}
+                        callTree={selectedTransaction.callTree}
                       />
                     </div>
+                    {selectedTransaction.callTree && selectedTransaction.callTree.length > 0 && (
+                      <div className="mt-6">
+                        <ContractFlameGraph key={selectedTransaction.hash} callTree={selectedTransaction.callTree} />
+                      </div>
+                    )}
                   </Tabs.Content>
 
                   <Tabs.Content value="effects">
@@ -208,6 +452,18 @@ function App() {
                     </Tabs.Content>
                   )}
 
+                  {authEntryCount > 0 && (
+                    <Tabs.Content value="auth">
+                      <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+                        <h2 className="text-xl font-semibold mb-4">Authorization</h2>
+                        <AuthorizationTree
+                          sorobanOperations={selectedTransaction.sorobanOperations || []}
+                          networkPassphrase={networkConfig.networkPassphrase}
+                        />
+                      </div>
+                    </Tabs.Content>
+                  )}
+
                   {selectedTransaction.sorobanOperations && selectedTransaction.sorobanOperations.length > 0 && selectedTransaction.simulationResult && (
                     <Tabs.Content value="simulation">
                       <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
@@ -222,9 +478,17 @@ function App() {
 
           <Tabs.Content value="simulator">
             <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
-              <ContractSimulator networkConfig={networkConfig} />
+              <ContractSimulator networkConfig={networkConfig} onTransactionSubmitted={selectTransaction} fork={simulatorFork} />
             </div>
           </Tabs.Content>
+
+          <Tabs.Content value="compare">
+            <TransactionDiff
+              key={networkConfig.networkId}
+              initialLeftHash={selectedTransaction?.hash}
+              loadTransaction={getTransactionDetails}
+            />
+          </Tabs.Content>
         </Tabs.Root>
 
       </div>
@@ -0,0 +1,235 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CheckCircle, XCircle, Code, Filter, ChevronDown, Radio } from 'lucide-react';
+import { fetchAccountTransactions } from '../services/stellar';
+import type { AccountTransactionFilters, AccountTransactionSummary } from '../types/stellar';
+
+interface AccountHistoryProps {
+  address: string;
+  selectedHash?: string;
+  onSelectTransaction: (hash: string) => void;
+  onWatch?: () => void;
+}
+
+const OPERATION_TYPES = [
+  'invoke_host_function',
+  'extend_footprint_ttl',
+  'restore_footprint',
+  'payment',
+  'path_payment_strict_send',
+  'path_payment_strict_receive',
+  'create_account',
+  'change_trust',
+  'manage_sell_offer',
+  'manage_buy_offer',
+  'set_options',
+  'account_merge',
+  'manage_data',
+  'claim_claimable_balance',
+  'create_claimable_balance',
+  'liquidity_pool_deposit',
+  'liquidity_pool_withdraw'
+];
+
+const formatOperationType = (type: string) => type.replace(/_/g, ' ');
+
+// Date inputs yield yyyy-mm-dd; the end date is inclusive, so it runs to the end of that day
+const toTimestamp = (date: string, endOfDay: boolean): number | undefined => {
+  if (!date) return undefined;
+  return new Date(`${date}T${endOfDay ? '23:59:59.999' : '00:00:00'}Z`).getTime();
+};
+
+export function AccountHistory({ address, selectedHash, onSelectTransaction, onWatch }: AccountHistoryProps) {
+  const [records, setRecords] = useState<AccountTransactionSummary[]>([]);
+  const [accountId, setAccountId] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sorobanOnly, setSorobanOnly] = useState(false);
+  const [failedOnly, setFailedOnly] = useState(false);
+  const [operationType, setOperationType] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  // Filters can change while a page is loading; only the latest request may update the list
+  const requestIdRef = useRef(0);
+
+  const buildFilters = useCallback((): AccountTransactionFilters => ({
+    sorobanOnly,
+    failedOnly,
+    operationType: operationType || undefined,
+    dateFrom: toTimestamp(dateFrom, false),
+    dateTo: toTimestamp(dateTo, true)
+  }), [sorobanOnly, failedOnly, operationType, dateFrom, dateTo]);
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const page = await fetchAccountTransactions(address, { cursor, filters: buildFilters() });
+      if (requestId !== requestIdRef.current) return;
+      setAccountId(page.accountId);
+      setRecords(prev => (cursor ? [...prev, ...page.records] : page.records));
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      if (requestId !== requestIdRef.current) return;
+      if (err.message?.includes('404')) {
+        setError('Account not found on this network.');
+      } else {
+        setError(err.message || 'Failed to load account transactions.');
+      }
+      if (!cursor) {
+        setRecords([]);
+        setNextCursor(null);
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [address, buildFilters]);
+
+  // Any change of account or filter restarts the list from the newest transaction
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 mt-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="min-w-0">
+          <h2 className="text-xl font-semibold">Account Transactions</h2>
+          <p className="text-sm text-gray-500 font-mono break-all">{address}</p>
+          {accountId && accountId !== address && (
+            <p className="text-xs text-gray-500 mt-1">
+              Muxed address: showing the history of base account <span className="font-mono">{accountId}</span>
+            </p>
+          )}
+        </div>
+        {onWatch && (
+          <button
+            type="button"
+            onClick={onWatch}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 flex-shrink-0"
+          >
+            <Radio className="w-4 h-4" />
+            Watch live
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 p-4 mb-4 bg-gray-50 border border-gray-200 rounded-lg">
+        <Filter className="w-4 h-4 text-gray-500 mb-2" />
+        <label className="flex items-center gap-2 text-sm text-gray-700 mb-1.5">
+          <input type="checkbox" checked={sorobanOnly} onChange={(e) => setSorobanOnly(e.target.checked)} />
+          Soroban only
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 mb-1.5">
+          <input type="checkbox" checked={failedOnly} onChange={(e) => setFailedOnly(e.target.checked)} />
+          Failed only
+        </label>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Operation type</label>
+          <select
+            value={operationType}
+            onChange={(e) => setOperationType(e.target.value)}
+            className="px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All</option>
+            {OPERATION_TYPES.map(type => (
+              <option key={type} value={type}>{formatOperationType(type)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">From (UTC)</label>
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">To (UTC)</label>
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {records.length === 0 && !isLoading && !error && (
+        <p className="text-sm text-gray-500 py-6 text-center">No transactions match the current filters.</p>
+      )}
+
+      {records.length > 0 && (
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {records.map(record => (
+            <button
+              key={record.hash}
+              type="button"
+              onClick={() => onSelectTransaction(record.hash)}
+              className={`w-full text-left px-4 py-3 hover:bg-blue-50 transition-colors ${record.hash === selectedHash ? 'bg-blue-50' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2 min-w-0">
+                  {record.successful ? (
+                    <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                  )}
+                  <span className="font-mono text-sm text-gray-900 truncate">{record.hash}</span>
+                  {record.isSoroban && (
+                    <span className="flex items-center gap-1 px-2 py-0.5 text-xs text-purple-700 bg-purple-100 rounded-full flex-shrink-0">
+                      <Code className="w-3 h-3" />
+                      Soroban
+                    </span>
+                  )}
+                </div>
+                <span className="text-xs text-gray-500 flex-shrink-0">
+                  {new Date(record.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 pl-6 text-xs text-gray-600">
+                <span>Ledger {record.ledger}</span>
+                <span>
+                  {record.operationCount} op{record.operationCount === 1 ? '' : 's'}
+                  {record.operationTypes.length > 0 && `: ${Array.from(new Set(record.operationTypes)).map(formatOperationType).join(', ')}`}
+                </span>
+                <span>Fee {(parseInt(record.feeCharged, 10) / 10000000).toFixed(7)} XLM</span>
+                {record.memo && <span className="truncate max-w-xs">Memo: {record.memo}</span>}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center gap-3 py-6">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+          <p className="text-sm text-gray-600">Loading transactions...</p>
+        </div>
+      )}
+
+      {!isLoading && nextCursor && (
+        <button
+          type="button"
+          onClick={() => loadPage(nextCursor)}
+          className="w-full mt-4 flex items-center justify-center gap-2 px-3 py-2 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50"
+        >
+          <ChevronDown className="w-4 h-4" />
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
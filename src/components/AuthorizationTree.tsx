@@ -0,0 +1,172 @@
+import { useMemo } from 'react';
+import { KeyRound, ShieldCheck, ShieldAlert, PenLine, Box } from 'lucide-react';
+import { decodeAuthorizationEntries } from '../services/auth';
+import { formatTypedScVal } from '../services/typedArgs';
+import type { AuthorizedInvocation, DecodedAuthorization, SorobanOperation } from '../types/stellar';
+
+interface AuthorizationTreeProps {
+  sorobanOperations: SorobanOperation[];
+  // Needed to work out the address of contracts deployed by createContract invocations
+  networkPassphrase?: string;
+}
+
+const formatAddress = (address: string) =>
+  address.length > 16 ? `${address.substring(0, 8)}...${address.substring(address.length - 8)}` : address;
+
+function InvocationNode({ invocation, depth }: { invocation: AuthorizedInvocation; depth: number }) {
+  return (
+    <div className={depth > 0 ? 'pl-4 border-l-2 border-indigo-100 ml-2' : ''}>
+      <div className="py-2">
+        {invocation.type === 'contractFn' ? (
+          <p className="text-sm font-mono">
+            <span className="text-gray-500" title={invocation.contractId}>{formatAddress(invocation.contractId || '')}</span>
+            <span className="text-gray-400">.</span>
+            <span className="font-semibold text-indigo-700">{invocation.functionName}</span>
+          </p>
+        ) : (
+          <p className="text-sm flex items-center gap-1">
+            <Box className="w-4 h-4 text-amber-600" />
+            <span className="font-semibold text-amber-700">Create contract</span>
+            {invocation.contractId && (
+              <span className="font-mono text-gray-500" title={invocation.contractId}>{formatAddress(invocation.contractId)}</span>
+            )}
+          </p>
+        )}
+
+        {invocation.type === 'createContract' && (
+          <div className="mt-1 text-xs text-gray-600 space-y-0.5">
+            <p>
+              Executable:{' '}
+              <span className="font-mono">
+                {invocation.executable === 'stellar_asset' ? 'Stellar Asset Contract' : `WASM ${formatAddress(invocation.executable || '')}`}
+              </span>
+            </p>
+            {invocation.deployer && (
+              <p>Deployer: <span className="font-mono" title={invocation.deployer}>{formatAddress(invocation.deployer)}</span></p>
+            )}
+            {invocation.salt && (
+              <p>Salt: <span className="font-mono">{formatAddress(invocation.salt)}</span></p>
+            )}
+          </div>
+        )}
+
+        {invocation.args.length > 0 && (
+          <ol className="mt-1 space-y-0.5">
+            {invocation.args.map((arg, index) => (
+              <li key={index} className="text-xs font-mono text-gray-700 break-all">
+                <span className="text-gray-400 mr-2">{index}</span>
+                {formatTypedScVal(arg, 120)}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {invocation.subInvocations.map((sub, index) => (
+        <InvocationNode key={index} invocation={sub} depth={depth + 1} />
+      ))}
+    </div>
+  );
+}
+
+export function AuthorizationCard({ entry, index }: { entry: DecodedAuthorization; index: number }) {
+  const isAddress = entry.credentialType === 'address';
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <div className="flex items-start justify-between gap-4 px-4 py-3 bg-gray-50 border-b border-gray-200">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <KeyRound className="w-4 h-4 text-indigo-600" />
+            <span className="text-sm font-semibold text-gray-900">Entry {index + 1}</span>
+            <span className={`text-xs px-2 py-0.5 rounded font-medium ${isAddress ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-200 text-gray-700'}`}>
+              {isAddress ? 'Address credentials' : 'Source account'}
+            </span>
+          </div>
+          <p className="text-xs text-gray-600 mt-1">
+            {isAddress ? (
+              <>Signer <span className="font-mono break-all">{entry.signer}</span></>
+            ) : (
+              'Authorized by the transaction source account signature'
+            )}
+          </p>
+        </div>
+        {isAddress && (
+          entry.signed ? (
+            <span className="flex items-center gap-1 text-xs text-green-700 flex-shrink-0">
+              <ShieldCheck className="w-4 h-4" />
+              Signed
+            </span>
+          ) : (
+            <span className="flex items-center gap-1 text-xs text-amber-700 flex-shrink-0">
+              <ShieldAlert className="w-4 h-4" />
+              Not signed
+            </span>
+          )
+        )}
+      </div>
+
+      {isAddress && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 px-4 py-3 border-b border-gray-100 text-xs">
+          <div>
+            <p className="text-gray-500">Nonce</p>
+            <p className="font-mono text-gray-800 break-all">{entry.nonce}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Signature expires at ledger</p>
+            <p className="font-mono text-gray-800">{entry.signatureExpirationLedger?.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Signed by</p>
+            {entry.signaturePublicKeys ? (
+              entry.signaturePublicKeys.map(key => (
+                <p key={key} className="font-mono text-gray-800" title={key}>{formatAddress(key)}</p>
+              ))
+            ) : (
+              <p className="font-mono text-gray-800 break-all">
+                {entry.signed ? formatTypedScVal(entry.signature, 80) : '-'}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="px-4 py-2">
+        <p className="text-xs font-medium text-gray-500 uppercase tracking-wide flex items-center gap-1 pt-1">
+          <PenLine className="w-3 h-3" />
+          Authorized invocations
+        </p>
+        <InvocationNode invocation={entry.rootInvocation} depth={0} />
+      </div>
+    </div>
+  );
+}
+
+export function AuthorizationTree({ sorobanOperations, networkPassphrase }: AuthorizationTreeProps) {
+  const operations = useMemo(
+    () => sorobanOperations.map(op => ({ op, entries: decodeAuthorizationEntries(op.auth, networkPassphrase) })),
+    [sorobanOperations, networkPassphrase]
+  );
+
+  if (operations.every(({ entries }) => entries.length === 0)) {
+    return <p className="text-sm text-gray-500">This transaction carries no Soroban authorization entries.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {operations.map(({ op, entries }, opIndex) => entries.length > 0 && (
+        <div key={opIndex}>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">
+            Operation {opIndex + 1}: <span className="font-mono">{op.functionName}</span>
+            <span className="font-normal text-gray-500"> - {entries.length} {entries.length === 1 ? 'entry' : 'entries'}</span>
+          </h3>
+          <div className="space-y-3">
+            {entries.map((entry, index) => (
+              <AuthorizationCard key={index} entry={entry} index={index} />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CheckCircle, XCircle, ChevronDown, BarChart3, Radio } from 'lucide-react';
+import { fetchContractActivity } from '../services/stellar';
+import { summarizeContractActivity } from '../services/contractActivity';
+import type { ContractInvocationSummary } from '../types/stellar';
+
+interface ContractActivityProps {
+  contractId: string;
+  selectedHash?: string;
+  onSelectTransaction: (hash: string) => void;
+  onWatch?: () => void;
+}
+
+const formatXlm = (stroops: string) => (Number(stroops) / 10000000).toFixed(7);
+
+const formatAddress = (address: string) =>
+  address.length > 16 ? `${address.substring(0, 8)}...${address.substring(address.length - 8)}` : address;
+
+export function ContractActivity({ contractId, selectedHash, onSelectTransaction, onWatch }: ContractActivityProps) {
+  const [invocations, setInvocations] = useState<ContractInvocationSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [scannedRange, setScannedRange] = useState<{ from: number; to: number } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const page = await fetchContractActivity(contractId, { cursor });
+      if (requestId !== requestIdRef.current) return;
+      setInvocations(prev => (cursor ? [...prev, ...page.invocations] : page.invocations));
+      setNextCursor(page.nextCursor);
+      setScannedRange(prev => ({ from: page.scannedFromLedger, to: cursor && prev ? prev.to : page.scannedToLedger }));
+    } catch (err: any) {
+      if (requestId !== requestIdRef.current) return;
+      setError(err.message || 'Failed to load contract activity.');
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [contractId]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  const functionStats = useMemo(() => summarizeContractActivity(invocations), [invocations]);
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 mt-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="min-w-0">
+          <h2 className="text-xl font-semibold">Contract Activity</h2>
+          <p className="text-sm text-gray-500 font-mono break-all">{contractId}</p>
+          {scannedRange && (
+            <p className="text-xs text-gray-500 mt-1">
+              Scanned ledgers {scannedRange.from.toLocaleString()} - {scannedRange.to.toLocaleString()}
+            </p>
+          )}
+        </div>
+        {onWatch && (
+          <button
+            type="button"
+            onClick={onWatch}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 flex-shrink-0"
+          >
+            <Radio className="w-4 h-4" />
+            Watch live
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {functionStats.length > 0 && (
+        <div className="mb-6">
+          <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-2">
+            <BarChart3 className="w-4 h-4" />
+            Functions
+          </h3>
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-xs text-gray-600 uppercase">
+                <tr>
+                  <th className="px-4 py-2 text-left">Function</th>
+                  <th className="px-4 py-2 text-right">Calls</th>
+                  <th className="px-4 py-2 text-right">Failures</th>
+                  <th className="px-4 py-2 text-left">Failure rate</th>
+                  <th className="px-4 py-2 text-right">Fees (XLM)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {functionStats.map(stat => (
+                  <tr key={stat.functionName}>
+                    <td className="px-4 py-2 font-mono text-gray-900">{stat.functionName}</td>
+                    <td className="px-4 py-2 text-right">{stat.calls}</td>
+                    <td className="px-4 py-2 text-right">{stat.failures}</td>
+                    <td className="px-4 py-2">
+                      <div className="flex items-center gap-2">
+                        <div className="w-24 h-2 bg-gray-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-red-500" style={{ width: `${stat.failureRate * 100}%` }} />
+                        </div>
+                        <span className="text-xs text-gray-600">{(stat.failureRate * 100).toFixed(1)}%</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-right font-mono">{formatXlm(stat.totalFeeCharged)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {invocations.length === 0 && !isLoading && !error && (
+        <p className="text-sm text-gray-500 py-6 text-center">No invocations found in the scanned ledgers.</p>
+      )}
+
+      {invocations.length > 0 && (
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {invocations.map(invocation => (
+            <button
+              key={`${invocation.hash}-${invocation.operationIndex}-${invocation.functionName}-${invocation.caller}`}
+              type="button"
+              onClick={() => onSelectTransaction(invocation.hash)}
+              className={`w-full text-left px-4 py-3 hover:bg-blue-50 transition-colors ${invocation.hash === selectedHash ? 'bg-blue-50' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2 min-w-0">
+                  {invocation.successful ? (
+                    <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                  )}
+                  <span className="font-mono text-sm font-medium text-gray-900">{invocation.functionName}</span>
+                  {!invocation.direct && (
+                    <span className="px-2 py-0.5 text-xs text-gray-600 bg-gray-100 rounded-full flex-shrink-0">nested</span>
+                  )}
+                  <span className="font-mono text-xs text-gray-500 truncate">{invocation.hash}</span>
+                </div>
+                <span className="text-xs text-gray-500 flex-shrink-0">
+                  {new Date(invocation.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 pl-6 text-xs text-gray-600">
+                <span>Ledger {invocation.ledger}</span>
+                <span>Caller <span className="font-mono">{formatAddress(invocation.caller)}</span></span>
+                <span>Fee {formatXlm(invocation.feeCharged)} XLM</span>
+                {invocation.error && <span className="text-red-600 font-mono">{invocation.error}</span>}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center gap-3 py-6">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+          <p className="text-sm text-gray-600">Scanning ledgers...</p>
+        </div>
+      )}
+
+      {!isLoading && nextCursor && (
+        <button
+          type="button"
+          onClick={() => loadPage(nextCursor)}
+          className="w-full mt-4 flex items-center justify-center gap-2 px-3 py-2 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50"
+        >
+          <ChevronDown className="w-4 h-4" />
+          Scan older ledgers
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Flame, ZoomOut } from 'lucide-react';
+import { formatTypedScVal } from '../services/typedArgs';
+import type { ContractInvocation } from '../types/stellar';
+
+interface ContractFlameGraphProps {
+  callTree: ContractInvocation[];
+}
+
+interface FlameBar {
+  call: ContractInvocation;
+  depth: number;
+  // Fractions of the chart width
+  start: number;
+  width: number;
+}
+
+const ROW_HEIGHT = 28;
+
+const COLORS = ['bg-orange-400', 'bg-amber-400', 'bg-yellow-400', 'bg-lime-400', 'bg-teal-400', 'bg-sky-400', 'bg-violet-400', 'bg-pink-400'];
+
+// Same contract, same color, so repeated calls into a dependency stand out
+const colorFor = (contractId: string) => {
+  let hash = 0;
+  for (const char of contractId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return COLORS[Math.abs(hash) % COLORS.length];
+};
+
+const formatAddress = (address: string) =>
+  address.length > 16 ? `${address.substring(0, 6)}...${address.substring(address.length - 6)}` : address;
+
+const countCalls = (call: ContractInvocation): number =>
+  1 + call.children.reduce((sum, child) => sum + countCalls(child), 0);
+
+// Each call is as wide as the calls it made, itself included, and its children are laid out left
+// to right inside it. Diagnostic events carry no per-call CPU figures to size the bars by instead
+const layoutBars = (calls: ContractInvocation[]): FlameBar[] => {
+  const bars: FlameBar[] = [];
+  const place = (siblings: ContractInvocation[], depth: number, start: number, width: number, total: number) => {
+    let offset = start;
+    siblings.forEach(call => {
+      const callWidth = total > 0 ? (countCalls(call) / total) * width : 0;
+      bars.push({ call, depth, start: offset, width: callWidth });
+      place(call.children, depth + 1, offset, callWidth, countCalls(call));
+      offset += callWidth;
+    });
+  };
+  place(calls, 0, 0, 1, calls.reduce((sum, call) => sum + countCalls(call), 0));
+  return bars;
+};
+
+export function ContractFlameGraph({ callTree }: ContractFlameGraphProps) {
+  const [focus, setFocus] = useState<ContractInvocation | null>(null);
+  const [hovered, setHovered] = useState<ContractInvocation | null>(null);
+
+  // A zoomed or hovered call belongs to the previous transaction once the tree changes
+  useEffect(() => {
+    setFocus(null);
+    setHovered(null);
+  }, [callTree]);
+
+  const roots = useMemo(() => (focus ? [focus] : callTree), [focus, callTree]);
+  const bars = useMemo(() => layoutBars(roots), [roots]);
+
+  if (callTree.length === 0) {
+    return null;
+  }
+
+  const maxDepth = Math.max(...bars.map(bar => bar.depth));
+  const rootDepth = focus ? focus.depth : 0;
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Flame className="w-5 h-5 text-orange-500" />
+          Contract Execution
+        </h2>
+        {focus && (
+          <button
+            type="button"
+            onClick={() => setFocus(null)}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <ZoomOut className="w-4 h-4" />
+            Show all calls
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Bars are sized by number of calls, including nested calls. Click a bar to zoom into it.
+      </p>
+
+      <div className="relative w-full" style={{ height: (maxDepth - rootDepth + 1) * ROW_HEIGHT }}>
+        {bars.map(bar => (
+          <button
+            key={bar.call.id}
+            type="button"
+            onClick={() => setFocus(bar.call === focus ? null : bar.call)}
+            onMouseEnter={() => setHovered(bar.call)}
+            onMouseLeave={() => setHovered(null)}
+            className={`absolute px-1 text-left text-xs font-mono truncate border border-white rounded-sm ${
+              bar.call.success ? colorFor(bar.call.contractId) : 'bg-red-400'
+            } ${hovered === bar.call ? 'brightness-110 ring-2 ring-gray-700 z-10' : 'hover:brightness-110'}`}
+            style={{
+              left: `${bar.start * 100}%`,
+              width: `${bar.width * 100}%`,
+              top: (bar.depth - rootDepth) * ROW_HEIGHT,
+              height: ROW_HEIGHT - 2,
+            }}
+            title={`${bar.call.contractId} ${bar.call.functionName}`}
+          >
+            {bar.call.functionName}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-4 min-h-[6rem] bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs">
+        {hovered ? (
+          <div className="space-y-1">
+            <p className="font-mono">
+              <span className="text-gray-500" title={hovered.contractId}>{formatAddress(hovered.contractId)}</span>
+              <span className="text-gray-400">.</span>
+              <span className="font-semibold text-gray-900">{hovered.functionName}</span>
+              {!hovered.success && <span className="ml-2 font-sans text-red-600">did not return</span>}
+            </p>
+            <p className="text-gray-600">
+              Called by <span className="font-mono" title={hovered.caller}>{formatAddress(hovered.caller)}</span>
+              {hovered.children.length > 0 && ` · ${hovered.children.length} nested call${hovered.children.length === 1 ? '' : 's'}`}
+            </p>
+            {hovered.args.length > 0 && (
+              <ol className="space-y-0.5">
+                {hovered.args.map((arg, index) => (
+                  <li key={index} className="font-mono text-gray-700 break-all">
+                    <span className="text-gray-400 mr-2">{index}</span>
+                    {formatTypedScVal(arg, 120)}
+                  </li>
+                ))}
+              </ol>
+            )}
+            {hovered.result && (
+              <p className="font-mono text-green-700 break-all">→ {formatTypedScVal(hovered.result, 120)}</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-gray-400">Hover over a call to see its arguments and return value</p>
+        )}
+      </div>
+    </div>
+  );
+}
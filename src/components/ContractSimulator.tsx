@@ -1,7 +1,22 @@
-import React, { useState, useRef } from 'react';
-import { Play, AlertCircle, CheckCircle, Loader, Code, Cpu, Database } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Play, AlertCircle, CheckCircle, Loader, Code, Cpu, Database, KeyRound, AlertTriangle, Send, FileDown, GitFork, X } from 'lucide-react';
 import * as StellarSdk from '@stellar/stellar-sdk';
-import type { NetworkConfig } from '../types/stellar';
+import type { AuthRequirementReport, ContractErrorInfo, ContractSpec, ForkComparison, NetworkConfig, SimulationFork, SorobanResourceAmounts, SpecFormValue, TransactionSigner } from '../types/stellar';
+import { resolveTransport } from '../services/transport';
+import { StellarService } from '../services/stellar';
+import { buildSpecArguments, defaultSpecValue } from '../services/specArgs';
+import { isTypedScVal, typedScValToScVal } from '../services/typedArgs';
+import { findContractErrorsInEvents, findContractErrorsInText, formatContractError, resolveContractErrors } from '../services/contractErrors';
+import { summarizeAuthRequirements } from '../services/auth';
+import { snapshotSimulation } from '../services/fork';
+import { diffInvocationSnapshots } from '../services/diff';
+import { measureSimulatedResources } from '../services/networkSettings';
+import { SpecArgumentForm } from './SpecArgumentForm';
+import { AuthorizationCard } from './AuthorizationTree';
+import { SubmitSimulatedTransaction } from './SubmitSimulatedTransaction';
+import { ExportSimulatedTransaction } from './ExportSimulatedTransaction';
+import { InvocationDiff } from './TransactionDiff';
+import { ResourceHeadroom } from './ResourceHeadroom';
 
 // Helper function to serialize objects with BigInt values
 function stringifyWithBigInt(obj: any, space?: number): string {
@@ -13,6 +28,11 @@ function stringifyWithBigInt(obj: any, space?: number): string {
 
 interface ContractSimulatorProps {
   networkConfig: NetworkConfig;
+  // Wallet signer offered for submitting simulated calls, next to entering a secret key
+  signer?: TransactionSigner;
+  onTransactionSubmitted?: (hash: string) => void;
+  // Ledger transaction call to pre-fill; results are then compared with the original
+  fork?: SimulationFork | null;
 }
 
 interface SimulationResult {
@@ -36,21 +56,81 @@ interface SimulationResult {
     topics: any[];
     data: any;
   }>;
+  contractErrors?: ContractErrorInfo[];
+  auth?: AuthRequirementReport;
+  forkComparison?: ForkComparison;
+  // Checked against the network's per-transaction limits
+  limitedResources?: SorobanResourceAmounts;
 }
 
-export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
+export function ContractSimulator({ networkConfig, signer, onTransactionSubmitted, fork }: ContractSimulatorProps) {
   const [contractId, setContractId] = useState('');
   const [functionName, setFunctionName] = useState('');
   const [args, setArgs] = useState('[]');
   const [sourceAccount, setSourceAccount] = useState('');
   const [isSimulating, setIsSimulating] = useState(false);
   const [result, setResult] = useState<SimulationResult | null>(null);
+  const [spec, setSpec] = useState<ContractSpec | null>(null);
+  const [specValues, setSpecValues] = useState<Record<string, SpecFormValue>>({});
+  const [useRawArgs, setUseRawArgs] = useState(false);
+  // The transaction and simulation behind a successful result, kept for submission
+  const [simulated, setSimulated] = useState<{
+    transaction: StellarSdk.Transaction;
+    simulation: StellarSdk.rpc.Api.SimulateTransactionSuccessResponse;
+  } | null>(null);
+  const [activeFork, setActiveFork] = useState<SimulationFork | null>(null);
+  const service = useMemo(() => new StellarService(networkConfig), [networkConfig]);
   const functionNameRef = useRef('');
+  const networkLabel = networkConfig.label || networkConfig.networkId;
+  const specFunction = spec?.functions.find(fn => fn.name === functionName);
+  const useSpecForm = !!specFunction && !useRawArgs;
+
+  // Load the contract's interface so arguments can be entered through a typed form. Contracts
+  // without a readable spec (e.g. Stellar Asset Contracts) keep the JSON arguments field
+  useEffect(() => {
+    setSpec(null);
+    const id = contractId.trim();
+    if (!StellarSdk.StrKey.isValidContract(id)) return;
+
+    let cancelled = false;
+    service.fetchContractSpec(id)
+      .then(loaded => {
+        if (!cancelled) setSpec(loaded);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [contractId, service]);
+
+  // Arguments of a forked call keep their exact ScVal types in the typed JSON syntax, so they
+  // are edited as raw arguments rather than through the spec form
+  useEffect(() => {
+    setActiveFork(fork ?? null);
+    if (!fork) return;
+    setContractId(fork.contractId);
+    setFunctionName(fork.functionName);
+    setArgs(JSON.stringify(fork.args, null, 2));
+    setSourceAccount(fork.sourceAccount);
+    setUseRawArgs(true);
+    setResult(null);
+    setSimulated(null);
+  }, [fork]);
+
+  useEffect(() => {
+    if (!spec || !specFunction) {
+      setSpecValues({});
+      return;
+    }
+    setSpecValues(Object.fromEntries(specFunction.inputs.map(input => [input.name, defaultSpecValue(spec, input.typeDef)])));
+  }, [spec, specFunction]);
 
   const handleSimulate = async () => {
     functionNameRef.current = functionName;
     setIsSimulating(true);
     setResult(null);
+    setSimulated(null);
+    const comparedFork = activeFork;
 
     try {
       // Validate inputs
@@ -58,48 +138,53 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
         throw new Error('Please fill in all required fields');
       }
 
+      // Arguments from the spec form are converted with their declared types up front, so a
+      // bad field is reported before any network call
+      const specArgs = useSpecForm && spec ? buildSpecArguments(spec, functionName, specValues) : null;
+
       // Parse arguments
-      let parsedArgs: any[];
-      try {
-        parsedArgs = JSON.parse(args);
-        if (!Array.isArray(parsedArgs)) {
-          throw new Error('Arguments must be a JSON array');
+      let parsedArgs: any[] = [];
+      if (!specArgs) {
+        try {
+          parsedArgs = JSON.parse(args);
+          if (!Array.isArray(parsedArgs)) {
+            throw new Error('Arguments must be a JSON array');
+          }
+        } catch (e) {
+          throw new Error('Invalid JSON format for arguments');
         }
-      } catch (e) {
-        throw new Error('Invalid JSON format for arguments');
       }
 
-      // Build the contract invocation
-      // Using public RPC endpoints with CORS support
-      const rpcUrl = networkConfig.isTestnet
-        ? 'https://soroban-testnet.stellar.org'
-        : 'https://mainnet.sorobanrpc.com';
-
-      const rpcServer = new StellarSdk.rpc.Server(rpcUrl, { allowHttp: false });
+      // Build the contract invocation through the network's configured transport
+      const transport = resolveTransport(networkConfig);
 
       // Load source account from Horizon (more reliable than Soroban RPC for all accounts)
-      const horizonUrl = networkConfig.networkUrl;
-      const horizonServer = new StellarSdk.Horizon.Server(horizonUrl, { allowHttp: false });
-
       let account;
       try {
-        account = await horizonServer.loadAccount(sourceAccount);
+        const accountRecord = await transport.horizon(`/accounts/${sourceAccount}`);
+        account = new StellarSdk.Account(accountRecord.account_id, accountRecord.sequence);
       } catch (accountError: any) {
-        if (accountError.response?.status === 404) {
+        if (accountError.message?.includes('404')) {
           throw new Error(
             `Account not found: ${sourceAccount}\n\n` +
-            `This account doesn't exist on ${networkConfig.isTestnet ? 'Testnet' : 'Mainnet'}.\n\n` +
+            `This account doesn't exist on ${networkLabel}.\n\n` +
             `To use the simulator, you need a valid account address. You can:\n` +
             `1. Use an existing funded account address\n` +
-            `2. Create a new account on ${networkConfig.isTestnet ? 'Testnet' : 'Mainnet'}\n` +
+            `2. Create a new account on ${networkLabel}` +
+            (networkConfig.friendbotUrl ? ` (fund it via ${networkConfig.friendbotUrl}?addr=${sourceAccount})\n` : `\n`) +
             `3. Switch networks using the network selector above`
           );
         }
         throw new Error(`Failed to load account: ${accountError.message || 'Unknown error'}`);
       }
 
-      // Convert arguments to ScVals with intelligent type detection
-      const scArgs = parsedArgs.map((arg, index) => {
+      // Convert JSON arguments to ScVals with intelligent type detection
+      const scArgs = specArgs ?? parsedArgs.map((arg, index) => {
+        // Arguments with an explicit type, e.g. {"type":"i128","value":"-5"}, are encoded as stated
+        if (isTypedScVal(arg)) {
+          return typedScValToScVal(arg, `Argument ${index + 1}`);
+        }
+
         try {
           if (typeof arg === 'string') {
             // Check if it's a Stellar address (account or contract)
@@ -189,10 +274,12 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
       // Simulate transaction to get auth and resource requirements
       let simulation;
       try {
-        simulation = await rpcServer.simulateTransaction(transaction);
+        const rawSimulation = await transport.rpc('simulateTransaction', { transaction: transaction.toXDR() });
+        simulation = StellarSdk.rpc.parseRawSimulation(rawSimulation);
       } catch (rpcError: any) {
         if (rpcError.message?.includes('ERR_NAME_NOT_RESOLVED') ||
             rpcError.message?.includes('Network') ||
+            rpcError.message?.includes('timed out') ||
             rpcError.name === 'TypeError') {
           throw new Error(
             'Network error: Unable to connect to Soroban RPC server.\n\n' +
@@ -522,7 +609,14 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
             resourceFee: simulation.minResourceFee || '0',
           },
           events,
+          auth: summarizeAuthRequirements(simulation.result?.auth, {
+            sourceAccount,
+            networkPassphrase: networkConfig.networkPassphrase
+          }),
+          forkComparison: comparedFork ? diffInvocationSnapshots(comparedFork.original, snapshotSimulation(simulation)) : undefined,
+          limitedResources: measureSimulatedResources(transaction, simulation),
         });
+        setSimulated({ transaction, simulation });
       } else {
         // Handle simulation error
         const error = simulation.error || 'Simulation failed';
@@ -544,6 +638,14 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
           }
         }) || [];
 
+        // Name Error(Contract, #n) codes from the raising contract's spec. Older RPCs only put
+        // the code in the error text, which is then attributed to the simulated contract
+        const raisedErrors = findContractErrorsInEvents(simulation.events || []);
+        const contractErrors = await resolveContractErrors(
+          raisedErrors.length > 0 ? raisedErrors : findContractErrorsInText(String(error), contractId.trim()),
+          id => (id === contractId.trim() && spec ? Promise.resolve(spec) : service.fetchContractSpec(id))
+        );
+
         // Check for common error patterns and provide helpful messages
         let errorMessage = typeof error === 'string' ? error : stringifyWithBigInt(error, 2);
         const hasNonExistentFunction = events.some((e: any) =>
@@ -581,6 +683,14 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
             `• Check that arguments are in the correct order\n` +
             `• Arguments must be a JSON array: ["arg1", 123, true]\n\n` +
             `Example: If function expects (address, amount), pass ["GXXX...", "1000000"]`;
+        } else if (contractErrors.length > 0) {
+          const functionName = functionNameRef.current;
+          const [first] = contractErrors;
+          errorMessage = `Function '${functionName}' returned a contract error: ${formatContractError(first)}\n\n` +
+            (first.doc ? `${first.doc}\n\n` : '') +
+            (first.name
+              ? `The contract rejected the call on purpose. Check the arguments and the state it depends on.`
+              : `The contract spec does not name this code. Look it up in the contract's error enum.`);
         } else if (hasUnreachableCode || (hasWasmVmError && hasInvalidAction)) {
           const functionName = functionNameRef.current;
           errorMessage = `Contract execution failed: function '${functionName}' panicked.\n\n` +
@@ -599,6 +709,8 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
           success: false,
           error: errorMessage,
           events,
+          contractErrors,
+          forkComparison: comparedFork ? diffInvocationSnapshots(comparedFork.original, snapshotSimulation(simulation)) : undefined,
         });
       }
     } catch (error: any) {
@@ -623,7 +735,7 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
               This helps estimate costs and test contract behavior without spending XLM.
             </p>
             <p className="text-xs text-blue-600 font-medium">
-              Currently on: {networkConfig.isTestnet ? 'Testnet' : 'Mainnet'}
+              Currently on: {networkLabel}
             </p>
           </div>
         </div>
@@ -634,12 +746,39 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
         <ul className="text-xs text-gray-600 space-y-1">
           <li>• Use any valid funded account address for the Source Account field</li>
           <li>• The account won't be charged - simulation is free</li>
-          <li>• Arguments must be provided as a JSON array: ["arg1", 123, true]</li>
-          <li>• For large numbers (token amounts), use strings: ["GXXX...", "10000000000000"]</li>
+          <li>• Once the contract ID is entered, its functions and typed argument fields are loaded from the contract spec</li>
+          <li>• Without a spec, arguments must be provided as a JSON array: ["arg1", 123, true]</li>
+          <li>• For large numbers (token amounts) in JSON, use strings: ["GXXX...", "10000000000000"]</li>
+          <li>• To set a type explicitly, write the argument as {"{"}"type": "i128", "value": "-5"{"}"} (also bytes, bytesN, symbol, vec, map, struct, ...)</li>
           <li>• Switch networks using the selector at the top if your contract is on a different network</li>
+          <li>• After a successful simulation you can sign and submit the call for real, e.g. against a local Standalone (Quickstart) network</li>
         </ul>
       </div>
 
+      {activeFork && (
+        <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 flex items-start justify-between gap-3">
+          <div className="flex items-start gap-3 min-w-0">
+            <GitFork className="w-5 h-5 text-indigo-600 mt-0.5 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-indigo-900">
+                Forked from transaction <span className="font-mono break-all">{activeFork.transactionHash}</span>
+              </p>
+              <p className="text-xs text-indigo-700 mt-1">
+                Edit the arguments and simulate against current ledger state. Result, contract events and resources are compared with the original.
+              </p>
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => setActiveFork(null)}
+            className="text-indigo-500 hover:text-indigo-800 flex-shrink-0"
+            title="Stop comparing with the original transaction"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -658,13 +797,31 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
           <label className="block text-sm font-medium text-gray-700 mb-2">
             Function Name <span className="text-red-500">*</span>
           </label>
-          <input
-            type="text"
-            value={functionName}
-            onChange={(e) => setFunctionName(e.target.value)}
-            placeholder="transfer"
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
-          />
+          {spec ? (
+            <select
+              value={functionName}
+              onChange={(e) => setFunctionName(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+            >
+              <option value="">Select a function</option>
+              {spec.functions.map(fn => (
+                <option key={fn.name} value={fn.name}>
+                  {fn.name}({fn.inputs.map(input => input.name).join(', ')})
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="text"
+              value={functionName}
+              onChange={(e) => setFunctionName(e.target.value)}
+              placeholder="transfer"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+            />
+          )}
+          {specFunction?.doc && (
+            <p className="text-xs text-gray-500 mt-1">{specFunction.doc}</p>
+          )}
         </div>
 
         <div>
@@ -684,19 +841,45 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
         </div>
 
         <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Arguments (JSON Array)
-          </label>
-          <textarea
-            value={args}
-            onChange={(e) => setArgs(e.target.value)}
-            placeholder='["GXXX...", "10000000000"]'
-            rows={4}
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
-          />
-          <p className="text-xs text-gray-500 mt-1">
-            Provide arguments as a JSON array. Use strings for addresses and large numbers (e.g., token amounts).
-          </p>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">
+              {useSpecForm ? 'Arguments' : 'Arguments (JSON Array)'}
+            </label>
+            {specFunction && (
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={useRawArgs}
+                  onChange={(e) => setUseRawArgs(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Raw JSON
+              </label>
+            )}
+          </div>
+          {useSpecForm && spec && specFunction ? (
+            <SpecArgumentForm
+              spec={spec}
+              fn={specFunction}
+              values={specValues}
+              onChange={setSpecValues}
+              knownAddresses={[sourceAccount, contractId]}
+            />
+          ) : (
+            <>
+              <textarea
+                value={args}
+                onChange={(e) => setArgs(e.target.value)}
+                placeholder='["GXXX...", "10000000000"]'
+                rows={4}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Provide arguments as a JSON array. Use strings for addresses and large numbers (e.g., token amounts),
+                or typed values such as {"{"}"type": "u64", "value": "100"{"}"}.
+              </p>
+            </>
+          )}
         </div>
       </div>
 
@@ -756,6 +939,76 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
                 </pre>
               </div>
 
+              {result.auth && (
+                <div>
+                  <h4 className="font-medium text-gray-700 mb-2 flex items-center gap-2">
+                    <KeyRound className="w-4 h-4" />
+                    Required Authorizations
+                  </h4>
+                  {result.auth.signers.length === 0 ? (
+                    <p className="text-sm text-gray-500">No authorization is required beyond the transaction signature.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      <div className="bg-white border border-gray-200 rounded divide-y divide-gray-100">
+                        {result.auth.signers.map(requirement => (
+                          <div key={`${requirement.credentialType}:${requirement.signer}`} className="p-3 flex items-start justify-between gap-4">
+                            <div className="min-w-0">
+                              <p className="font-mono text-sm text-gray-900 break-all">{requirement.signer}</p>
+                              <p className="text-xs text-gray-500 mt-1">
+                                {requirement.credentialType === 'sourceAccount'
+                                  ? 'Covered by the transaction signature'
+                                  : `Signs ${requirement.entries.length} ${requirement.entries.length === 1 ? 'entry' : 'entries'}`}
+                                {' for '}
+                                <span className="font-mono">
+                                  {requirement.entries.map(entry => entry.rootInvocation.functionName || 'createContract').join(', ')}
+                                </span>
+                              </p>
+                              {requirement.nonces.length > 0 && (
+                                <p className="text-xs text-gray-500 font-mono mt-1 break-all">
+                                  Nonce{requirement.nonces.length === 1 ? '' : 's'}: {requirement.nonces.join(', ')}
+                                </p>
+                              )}
+                            </div>
+                            <span className={`text-xs px-2 py-1 rounded font-medium flex-shrink-0 ${
+                              requirement.credentialType === 'sourceAccount'
+                                ? 'bg-gray-100 text-gray-700'
+                                : requirement.isContract ? 'bg-purple-100 text-purple-700' : 'bg-indigo-100 text-indigo-700'
+                            }`}>
+                              {requirement.credentialType === 'sourceAccount' ? 'Source account' : requirement.isContract ? 'Contract account' : 'Must sign'}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+
+                      {result.auth.warnings.length > 0 && (
+                        <div className="bg-yellow-50 border border-yellow-200 rounded p-3 space-y-2">
+                          {result.auth.warnings.map((warning, idx) => (
+                            <p key={idx} className="text-xs text-yellow-800 flex items-start gap-2">
+                              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                              <span>
+                                {warning.signer && <span className="font-mono">{warning.signer.substring(0, 8)}...: </span>}
+                                {warning.message}
+                              </span>
+                            </p>
+                          ))}
+                        </div>
+                      )}
+
+                      <details>
+                        <summary className="text-sm text-blue-600 cursor-pointer hover:text-blue-800">
+                          Show recorded authorization entries ({result.auth.entries.length})
+                        </summary>
+                        <div className="space-y-3 mt-3">
+                          {result.auth.entries.map((entry, idx) => (
+                            <AuthorizationCard key={idx} entry={entry} index={idx} />
+                          ))}
+                        </div>
+                      </details>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {result.resourceUsage && (
                 <div>
                   <h4 className="font-medium text-gray-700 mb-2 flex items-center gap-2">
@@ -800,6 +1053,11 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
                       </p>
                     </div>
                   </div>
+                  {result.limitedResources && (
+                    <div className="mt-3">
+                      <ResourceHeadroom usage={result.limitedResources} service={service} />
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -848,6 +1106,36 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
                   </div>
                 </div>
               )}
+
+              {simulated && (
+                <div>
+                  <h4 className="font-medium text-gray-700 mb-2 flex items-center gap-2">
+                    <Send className="w-4 h-4" />
+                    Submit Transaction
+                  </h4>
+                  <SubmitSimulatedTransaction
+                    service={service}
+                    transaction={simulated.transaction}
+                    simulation={simulated.simulation}
+                    signer={signer}
+                    onSubmitted={onTransactionSubmitted}
+                  />
+                </div>
+              )}
+
+              {simulated && (
+                <div>
+                  <h4 className="font-medium text-gray-700 mb-2 flex items-center gap-2">
+                    <FileDown className="w-4 h-4" />
+                    Export Unsigned Transaction
+                  </h4>
+                  <ExportSimulatedTransaction
+                    service={service}
+                    transaction={simulated.transaction}
+                    simulation={simulated.simulation}
+                  />
+                </div>
+              )}
             </div>
           ) : (
             <div>
@@ -855,6 +1143,41 @@ export function ContractSimulator({ networkConfig }: ContractSimulatorProps) {
               <pre className="bg-white border border-red-200 rounded p-3 text-sm text-red-700 overflow-x-auto whitespace-pre-wrap">
                 {result.error}
               </pre>
+              {result.contractErrors && result.contractErrors.length > 0 && (
+                <div className="mt-3">
+                  <h4 className="font-medium text-red-900 mb-2">Contract Errors</h4>
+                  <div className="space-y-2">
+                    {result.contractErrors.map((contractError, idx) => (
+                      <div key={idx} className="bg-white border border-red-200 rounded p-3">
+                        <p className="text-sm">
+                          <span className="font-mono font-semibold text-red-800">
+                            {contractError.name
+                              ? `${contractError.enumName ? `${contractError.enumName}::` : ''}${contractError.name}`
+                              : 'Unnamed error'}
+                          </span>
+                          <span className="font-mono text-xs text-red-500 ml-2">Error(Contract, #{contractError.code})</span>
+                        </p>
+                        {contractError.doc && <p className="text-xs text-gray-600 mt-1">{contractError.doc}</p>}
+                        {contractError.contractId && (
+                          <p className="text-xs text-gray-400 font-mono mt-1 break-all">{contractError.contractId}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {result.forkComparison && (
+            <div className="mt-4">
+              <h4 className="font-medium text-gray-700 mb-2 flex items-center gap-2">
+                <GitFork className="w-4 h-4" />
+                Compared with Original Transaction
+              </h4>
+              <div className="bg-white border border-gray-200 rounded p-4">
+                <InvocationDiff comparison={result.forkComparison} />
+              </div>
             </div>
           )}
         </div>
@@ -4,6 +4,8 @@ import type { NodeProps } from 'reactflow';
 import * as StellarSdk from '@stellar/stellar-sdk';
 import { Handle, Position } from 'reactflow';
 import { decodeScVal } from '../services/stellar';
+import { formatTypedScVal } from '../services/typedArgs';
+import type { TypedScVal } from '../types/stellar';
 
 interface EventNodeData {
   event: any;
@@ -23,6 +25,7 @@ interface EventNodeData {
       rentFee?: number;
     };
     result?: any;
+    typedResult?: TypedScVal | null;
   };
 }
 
@@ -145,22 +148,14 @@ export function EventNode({ data }: NodeProps<EventNodeData>) {
     }
   };
 
-  const getTypeString = (val: any): string => {
-    if (val === null || val === undefined) return 'null';
-    if (typeof val === 'bigint') return 'i128';
-    if (typeof val === 'number') return 'u32';
-    if (typeof val === 'string') {
-      if (val.startsWith('G') || val.startsWith('C')) return 'Address';
-      return 'String';
-    }
-    if (Array.isArray(val)) return 'Vec';
-    if (typeof val === 'object') return 'Map';
-    return 'unknown';
-  };
-
   // Parse event topics and data
   const topics = Array.isArray(event.topics) ? event.topics : [];
   const eventData = Array.isArray(event.data) ? event.data : (event.data ? [event.data] : []);
+  // Typed counterparts, when the event was decoded from XDR (events built from Horizon effects have none)
+  const typedTopics: Array<TypedScVal | null | undefined> = event.typedTopics || [];
+  const typedData: Array<TypedScVal | null | undefined> = event.typedData?.type === 'vec' && Array.isArray(event.data)
+    ? event.typedData.value
+    : [event.typedData];
 
   // Decode all topics and data
   let decodedTopics: any[] = [];
@@ -259,13 +254,17 @@ export function EventNode({ data }: NodeProps<EventNodeData>) {
     return String(val);
   };
 
+  // Prefers the typed value, which knows the real ScVal type, over guessing from the decoded one
+  const formatDecoded = (val: any, typed: TypedScVal | null | undefined, maxLength: number): string =>
+    typed ? formatTypedScVal(typed, maxLength) : formatValueWithType(val, maxLength);
+
   // Helper to remove "sym" suffix from strings
   const cleanSymSuffix = (str: string): string => str.replace(/"sym$/g, '"');
 
   // Build the developer-friendly JSON structure
   const buildJsonStructure = () => {
-    const fnCallTopics = decodedTopics.map(t => cleanSymSuffix(formatValueWithType(t, 80)));
-    const fnCallData = decodedData.map(d => cleanSymSuffix(formatValueWithType(d, 80)));
+    const fnCallTopics = decodedTopics.map((t, i) => cleanSymSuffix(formatDecoded(t, typedTopics[i], 80)));
+    const fnCallData = decodedData.map((d, i) => cleanSymSuffix(formatDecoded(d, typedData[i], 80)));
 
     return {
       fn_call: {
@@ -273,7 +272,7 @@ export function EventNode({ data }: NodeProps<EventNodeData>) {
         data: fnCallData
       },
       fn_return: operationData?.result ? {
-        data: [cleanSymSuffix(formatValueWithType(operationData.result, 80))]
+        data: [cleanSymSuffix(formatDecoded(operationData.result, operationData.typedResult, 80))]
       } : undefined
     };
   };
@@ -394,7 +393,7 @@ export function EventNode({ data }: NodeProps<EventNodeData>) {
                       {hasData && (
                         <div className="ml-0.5">
                           <div className="text-emerald-200 font-mono text-[10px] bg-black/30 p-1.5 rounded border border-emerald-500/20 leading-relaxed break-all">
-                            = {formatValueWithType(dataToShow, 100)}
+                            = {formatDecoded(dataToShow, change.after !== undefined ? change.typedAfter : change.typedValue, 100)}
                           </div>
                         </div>
                       )}
@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { FileDown, Loader, Copy, Check } from 'lucide-react';
+import * as StellarSdk from '@stellar/stellar-sdk';
+import type { StellarService } from '../services/stellar';
+import type { ExportTransactionOptions, TransactionMemoType, UnsignedTransactionExport } from '../types/stellar';
+
+interface ExportSimulatedTransactionProps {
+  service: StellarService;
+  transaction: StellarSdk.Transaction;
+  simulation: StellarSdk.rpc.Api.SimulateTransactionSuccessResponse;
+}
+
+type ExpiryMode = 'timeout' | 'bounds';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+// datetime-local values are in the browser's time zone; the envelope needs unix seconds
+const toUnixSeconds = (value: string) => (value ? Math.floor(new Date(value).getTime() / 1000) : 0);
+
+const formatTimeBound = (seconds: string) =>
+  seconds === '0' ? 'none' : new Date(Number(seconds) * 1000).toLocaleString();
+
+export function ExportSimulatedTransaction({ service, transaction, simulation }: ExportSimulatedTransactionProps) {
+  const [fee, setFee] = useState(transaction.fee);
+  const [expiryMode, setExpiryMode] = useState<ExpiryMode>('timeout');
+  // Hardware wallets and multisig rounds take longer than the 30 seconds used for simulation
+  const [timeoutSeconds, setTimeoutSeconds] = useState('3600');
+  const [validFrom, setValidFrom] = useState('');
+  const [validUntil, setValidUntil] = useState('');
+  const [memoType, setMemoType] = useState<TransactionMemoType | 'none'>('none');
+  const [memoValue, setMemoValue] = useState('');
+  const [message, setMessage] = useState('');
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exported, setExported] = useState<UnsignedTransactionExport | null>(null);
+  const [copied, setCopied] = useState<'xdr' | 'uri' | null>(null);
+
+  const handleExport = async () => {
+    setIsBuilding(true);
+    setError(null);
+    setExported(null);
+
+    try {
+      const options: ExportTransactionOptions = { fee, message: message.trim() || undefined };
+      if (expiryMode === 'timeout') {
+        const seconds = Number(timeoutSeconds || 0);
+        if (!Number.isInteger(seconds)) {
+          throw new Error('The timeout must be a whole number of seconds');
+        }
+        options.timeoutSeconds = seconds;
+      } else {
+        options.timeBounds = { minTime: toUnixSeconds(validFrom), maxTime: toUnixSeconds(validUntil) };
+      }
+      if (memoType !== 'none') {
+        options.memo = { type: memoType, value: memoValue };
+      }
+
+      setExported(await service.exportSimulatedTransaction(transaction, simulation, options));
+    } catch (err: any) {
+      setError(err.message || 'Failed to build the transaction');
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const copy = async (text: string, which: 'xdr' | 'uri') => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(which);
+      setTimeout(() => setCopied(null), 2000);
+    } catch {
+      setError('Copying to the clipboard is not allowed here; select the text instead');
+    }
+  };
+
+  const download = (xdr: string, hash: string) => {
+    const url = URL.createObjectURL(new Blob([xdr], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `transaction-${hash.substring(0, 8)}.xdr`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded p-4 space-y-3">
+      <p className="text-xs text-gray-600">
+        Builds the unsigned envelope with the simulated footprint, resources and fee, for signing with a hardware wallet,
+        multisig tooling or any SEP-7 wallet. Authorization from addresses other than the source must be signed into it first.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Inclusion fee (stroops)</label>
+          <input type="text" value={fee} onChange={(e) => setFee(e.target.value)} className={`${inputClassName} font-mono`} />
+          <p className="text-xs text-gray-500 mt-1">
+            Resource fee of {Number(simulation.minResourceFee).toLocaleString()} stroops is added on top
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Memo</label>
+          <div className="flex gap-2">
+            <select
+              value={memoType}
+              onChange={(e) => setMemoType(e.target.value as TransactionMemoType | 'none')}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="none">None</option>
+              <option value="text">Text</option>
+              <option value="id">ID</option>
+              <option value="hash">Hash</option>
+              <option value="return">Return</option>
+            </select>
+            {memoType !== 'none' && (
+              <input
+                type="text"
+                value={memoValue}
+                onChange={(e) => setMemoValue(e.target.value)}
+                placeholder={memoType === 'text' ? 'Up to 28 bytes' : memoType === 'id' ? 'Unsigned 64-bit integer' : '32 bytes as hex'}
+                className={`${inputClassName} font-mono`}
+              />
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Validity</label>
+          <div className="flex gap-4 text-sm mb-2">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={expiryMode === 'timeout'} onChange={() => setExpiryMode('timeout')} />
+              Timeout
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={expiryMode === 'bounds'} onChange={() => setExpiryMode('bounds')} />
+              Time bounds
+            </label>
+          </div>
+          {expiryMode === 'timeout' ? (
+            <>
+              <input type="number" min="0" value={timeoutSeconds} onChange={(e) => setTimeoutSeconds(e.target.value)} className={inputClassName} />
+              <p className="text-xs text-gray-500 mt-1">Seconds from when it is built; 0 never expires</p>
+            </>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <input type="datetime-local" value={validFrom} onChange={(e) => setValidFrom(e.target.value)} title="Valid from (optional)" className={inputClassName} />
+              <input type="datetime-local" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} title="Valid until (optional)" className={inputClassName} />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Message for the signer (SEP-7, optional)</label>
+          <input type="text" value={message} onChange={(e) => setMessage(e.target.value)} maxLength={300} className={inputClassName} />
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleExport}
+        disabled={isBuilding}
+        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-sm"
+      >
+        {isBuilding ? <Loader className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+        Build Unsigned Transaction
+      </button>
+
+      {error && (
+        <pre className="bg-red-50 border border-red-200 rounded p-3 text-sm text-red-700 whitespace-pre-wrap">{error}</pre>
+      )}
+
+      {exported && (
+        <div className="space-y-3 pt-1">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+            <div>
+              <p className="text-gray-500">Total fee</p>
+              <p className="font-mono text-gray-800">
+                {Number(exported.fee).toLocaleString()} stroops
+                <span className="text-gray-500"> ({Number(exported.inclusionFee).toLocaleString()} + {Number(exported.resourceFee).toLocaleString()} resources)</span>
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">Valid</p>
+              <p className="text-gray-800">
+                {exported.timeBounds
+                  ? `${formatTimeBound(exported.timeBounds.minTime)} to ${formatTimeBound(exported.timeBounds.maxTime)}`
+                  : 'No time bounds'}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">Hash</p>
+              <p className="font-mono text-gray-800 break-all">{exported.hash}</p>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <p className="text-xs font-medium text-gray-700">Unsigned envelope XDR</p>
+              <div className="flex gap-3 text-xs">
+                <button type="button" onClick={() => copy(exported.xdr, 'xdr')} className="flex items-center gap-1 text-blue-600 hover:text-blue-800">
+                  {copied === 'xdr' ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                  Copy
+                </button>
+                <button type="button" onClick={() => download(exported.xdr, exported.hash)} className="flex items-center gap-1 text-blue-600 hover:text-blue-800">
+                  <FileDown className="w-3 h-3" />
+                  Download
+                </button>
+              </div>
+            </div>
+            <textarea readOnly value={exported.xdr} rows={4} className="w-full px-3 py-2 border border-gray-200 rounded bg-gray-50 font-mono text-xs" />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <p className="text-xs font-medium text-gray-700">SEP-7 URI</p>
+              <button type="button" onClick={() => copy(exported.sep7Uri, 'uri')} className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800">
+                {copied === 'uri' ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                Copy
+              </button>
+            </div>
+            <textarea readOnly value={exported.sep7Uri} rows={3} className="w-full px-3 py-2 border border-gray-200 rounded bg-gray-50 font-mono text-xs" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import { Receipt, Loader } from 'lucide-react';
+import { fetchSorobanSettings } from '../services/stellar';
+import { reconcileTransactionFee } from '../services/feeModel';
+import type { SorobanFeeComponent, SorobanFeeConfig, SorobanNetworkSettings, TransactionDetails } from '../types/stellar';
+
+interface FeeBreakdownProps {
+  transaction: TransactionDetails;
+  // Fee settings to price with, e.g. a saved snapshot; otherwise the network's current ones are read
+  config?: SorobanFeeConfig;
+}
+
+const COMPONENT_LABELS: Record<SorobanFeeComponent['component'], string> = {
+  instructions: 'CPU instructions',
+  diskReadEntries: 'Entries read from disk',
+  writeEntries: 'Entries written',
+  diskReadBytes: 'Bytes read from disk',
+  writeBytes: 'Bytes written',
+  historical: 'History archive',
+  bandwidth: 'Transaction size',
+  events: 'Events and return value',
+  rent: 'Rent'
+};
+
+const formatStroops = (stroops: number) => `${stroops.toLocaleString()} stroops`;
+
+export function FeeBreakdown({ transaction, config }: FeeBreakdownProps) {
+  const [settings, setSettings] = useState<SorobanNetworkSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (config) return;
+    let cancelled = false;
+    fetchSorobanSettings()
+      .then(loaded => { if (!cancelled) setSettings(loaded); })
+      .catch((err: any) => { if (!cancelled) setError(err.message || 'Failed to read the network fee settings'); });
+    return () => { cancelled = true; };
+  }, [config]);
+
+  const feeConfig = config || settings;
+  let reconciliation = null;
+  let modelError: string | null = null;
+  if (feeConfig) {
+    try {
+      reconciliation = reconcileTransactionFee(transaction, feeConfig);
+    } catch (err: any) {
+      modelError = err.message;
+    }
+  }
+
+  if (feeConfig && !reconciliation && !modelError) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+      <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+        <Receipt className="w-5 h-5 text-green-600" />
+        Fee Breakdown
+      </h2>
+      <p className="text-xs text-gray-500 mb-4">
+        {config
+          ? 'Priced with the supplied fee settings.'
+          : settings
+            ? `Priced with the network's fee settings as of ledger ${settings.latestLedger.toLocaleString()}; older transactions may have paid other rates.`
+            : 'Reading the network fee settings...'}
+      </p>
+
+      {!feeConfig && !error && <Loader className="w-5 h-5 animate-spin text-gray-400" />}
+      {(error || modelError) && <p className="text-sm text-red-600">{error || modelError}</p>}
+
+      {reconciliation && (
+        <div className="space-y-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 border-b border-gray-200">
+                <th className="text-left font-medium py-1">Component</th>
+                <th className="text-left font-medium py-1">Calculation</th>
+                <th className="text-right font-medium py-1">Fee</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reconciliation.breakdown.components.map(component => (
+                <tr key={component.component} className="border-b border-gray-100">
+                  <td className="py-1 text-gray-700">
+                    {COMPONENT_LABELS[component.component]}
+                    {component.refundable && <span className="ml-2 text-xs text-blue-600">refundable</span>}
+                  </td>
+                  <td className="py-1 text-xs font-mono text-gray-500">{component.calculation}</td>
+                  <td className="py-1 text-right font-mono">{component.fee.toLocaleString()}</td>
+                </tr>
+              ))}
+              <tr className="font-medium">
+                <td className="py-1" colSpan={2}>Resource fee</td>
+                <td className="py-1 text-right font-mono">{reconciliation.breakdown.resourceFee.toLocaleString()}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-xs">
+            <div>
+              <p className="text-gray-500">Max fee</p>
+              <p className="font-mono">{formatStroops(reconciliation.maxFee)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Declared resource fee</p>
+              <p className="font-mono">{formatStroops(reconciliation.declaredResourceFee)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Inclusion bid</p>
+              <p className="font-mono">{formatStroops(reconciliation.inclusionFeeBid)}</p>
+            </div>
+            {reconciliation.feeCharged !== undefined && (
+              <div>
+                <p className="text-gray-500">Fee charged</p>
+                <p className="font-mono text-green-700">{formatStroops(reconciliation.feeCharged)}</p>
+              </div>
+            )}
+            {reconciliation.inclusionFeeCharged !== undefined && (
+              <div>
+                <p className="text-gray-500">Inclusion fee charged</p>
+                <p className="font-mono">{formatStroops(reconciliation.inclusionFeeCharged)}</p>
+              </div>
+            )}
+            <div>
+              <p className="text-gray-500">Resource fee refunded</p>
+              <p className="font-mono">{formatStroops(reconciliation.resourceFeeRefund)}</p>
+            </div>
+          </div>
+
+          <ul className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm text-gray-700 space-y-1 list-disc list-inside">
+            {reconciliation.explanations.map((explanation, index) => (
+              <li key={index}>{explanation}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { CheckCircle, XCircle, Code, ChevronLeft, ChevronRight, Cpu, HardDrive, Coins } from 'lucide-react';
+import { fetchLedger, fetchLedgerSorobanUsage } from '../services/stellar';
+import { sumLedgerResources } from '../services/ledger';
+import type { LedgerSnapshot, LedgerSorobanUsage, TransactionDetails } from '../types/stellar';
+
+interface LedgerBrowserProps {
+  ledger: number | 'latest';
+  selectedHash?: string;
+  onSelectTransaction: (hash: string) => void;
+  onTransactionLoaded?: (transaction: TransactionDetails) => void;
+}
+
+const formatXlm = (stroops: string) => (Number(stroops) / 10000000).toFixed(7);
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+export function LedgerBrowser({ ledger, selectedHash, onSelectTransaction, onTransactionLoaded }: LedgerBrowserProps) {
+  const [requested, setRequested] = useState<number | 'latest'>(ledger);
+  const [snapshot, setSnapshot] = useState<LedgerSnapshot | null>(null);
+  const [usageByHash, setUsageByHash] = useState<Record<string, LedgerSorobanUsage | null>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Read through a ref so a new callback identity does not reload the ledger
+  const onTransactionLoadedRef = useRef(onTransactionLoaded);
+  onTransactionLoadedRef.current = onTransactionLoaded;
+
+  useEffect(() => {
+    // Each ledger gets its own controller so navigating away stops the pending analyses
+    const controller = new AbortController();
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      setSnapshot(null);
+      setUsageByHash({});
+
+      try {
+        const result = await fetchLedger(requested);
+        if (controller.signal.aborted) return;
+        setSnapshot(result);
+        setIsLoading(false);
+
+        await fetchLedgerSorobanUsage(result.transactions, {
+          signal: controller.signal,
+          onResult: (usage, details, hash) => {
+            setUsageByHash(prev => ({ ...prev, [hash]: usage }));
+            if (details) {
+              onTransactionLoadedRef.current?.(details);
+            }
+          }
+        });
+      } catch (err: any) {
+        if (controller.signal.aborted) return;
+        setError(err.message?.includes('404')
+          ? `Ledger ${requested} not found on this network.`
+          : err.message || 'Failed to load ledger.');
+        setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [requested]);
+
+  const sorobanCount = snapshot ? snapshot.transactions.filter(tx => tx.isSoroban).length : 0;
+  const analyzedCount = Object.keys(usageByHash).length;
+  const totals = useMemo(
+    () => sumLedgerResources(Object.values(usageByHash).filter((usage): usage is LedgerSorobanUsage => usage !== null)),
+    [usageByHash]
+  );
+  const capacity = snapshot && snapshot.maxTxSetSize > 0 ? snapshot.txSetOperationCount / snapshot.maxTxSetSize : 0;
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">
+            Ledger {snapshot ? snapshot.sequence.toLocaleString() : requested === 'latest' ? '(latest)' : requested.toLocaleString()}
+          </h2>
+          {snapshot && (
+            <p className="text-sm text-gray-500">
+              Closed {new Date(snapshot.closedAt).toLocaleString()} · Protocol {snapshot.protocolVersion}
+            </p>
+          )}
+        </div>
+        {snapshot && (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => setRequested(snapshot.sequence - 1)}
+              className="p-2 text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50"
+              title="Previous ledger"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setRequested(snapshot.sequence + 1)}
+              className="p-2 text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50"
+              title="Next ledger"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center gap-3 py-6">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+          <p className="text-sm text-gray-600">Loading ledger...</p>
+        </div>
+      )}
+
+      {snapshot && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+              <p className="text-xs text-gray-500">Transactions</p>
+              <p className="text-lg font-semibold text-gray-900">
+                {snapshot.transactions.length}
+                <span className="ml-2 text-xs font-normal text-red-600">{snapshot.failedTransactionCount} failed</span>
+              </p>
+            </div>
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+              <p className="text-xs text-gray-500">Base fee</p>
+              <p className="text-lg font-semibold text-gray-900">{snapshot.baseFee} stroops</p>
+            </div>
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg col-span-2">
+              <p className="text-xs text-gray-500">
+                Tx set capacity: {snapshot.txSetOperationCount} / {snapshot.maxTxSetSize} operations
+              </p>
+              <div className="mt-2 h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${capacity >= 1 ? 'bg-red-500' : capacity >= 0.8 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                  style={{ width: `${Math.min(capacity, 1) * 100}%` }}
+                />
+              </div>
+            </div>
+          </div>
+
+          {sorobanCount > 0 && (
+            <div className="p-4 mb-4 bg-purple-50 border border-purple-200 rounded-lg">
+              <p className="text-sm font-semibold text-purple-900 mb-2">
+                Soroban usage ({totals.transactions} of {sorobanCount} transactions
+                {analyzedCount < sorobanCount ? `; ${analyzedCount} analyzed so far...` : ''})
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-purple-900">
+                <div className="flex items-center gap-2">
+                  <Cpu className="w-4 h-4" />
+                  {totals.cpuInstructions.toLocaleString()} CPU instructions
+                </div>
+                <div className="flex items-center gap-2">
+                  <HardDrive className="w-4 h-4" />
+                  {formatBytes(totals.memoryBytes)} memory
+                </div>
+                <div className="flex items-center gap-2">
+                  <Coins className="w-4 h-4" />
+                  {formatXlm(totals.feeCharged)} XLM fees
+                </div>
+              </div>
+            </div>
+          )}
+
+          {snapshot.transactions.length === 0 ? (
+            <p className="text-sm text-gray-500 py-6 text-center">This ledger contains no transactions.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              {snapshot.transactions.map(tx => {
+                const usage = usageByHash[tx.hash];
+                return (
+                  <button
+                    key={tx.hash}
+                    type="button"
+                    onClick={() => onSelectTransaction(tx.hash)}
+                    className={`w-full text-left px-4 py-3 transition-colors ${tx.isSoroban ? 'bg-purple-50/50 hover:bg-purple-100' : 'hover:bg-blue-50'} ${tx.hash === selectedHash ? 'ring-2 ring-inset ring-blue-400' : ''}`}
+                  >
+                    <div className="flex items-center gap-2 min-w-0">
+                      {tx.successful ? (
+                        <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+                      ) : (
+                        <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                      )}
+                      <span className="font-mono text-sm text-gray-900 truncate">{tx.hash}</span>
+                      {tx.isSoroban && (
+                        <span className="flex items-center gap-1 px-2 py-0.5 text-xs text-purple-700 bg-purple-100 rounded-full flex-shrink-0">
+                          <Code className="w-3 h-3" />
+                          Soroban
+                        </span>
+                      )}
+                      {tx.feeBump && (
+                        <span className="px-2 py-0.5 text-xs text-orange-700 bg-orange-100 rounded-full flex-shrink-0">fee bump</span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 pl-6 text-xs text-gray-600">
+                      <span>{tx.operationCount} op{tx.operationCount === 1 ? '' : 's'}</span>
+                      <span>Fee {formatXlm(tx.feeCharged)} / max {formatXlm(tx.maxFee)} XLM</span>
+                      {usage && (
+                        <>
+                          <span>CPU {usage.cpuInstructions.toLocaleString()}</span>
+                          <span>Mem {formatBytes(usage.memoryBytes)}</span>
+                          {!usage.isActual && <span className="text-gray-400">(estimated)</span>}
+                        </>
+                      )}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Radio, Pause, Play, X, CheckCircle, XCircle } from 'lucide-react';
+import { TransactionFlow } from './TransactionFlow';
+import { watchTransactions, createOperationNodes, createOperationEdges } from '../services/stellar';
+import type { TransactionDetails, TransactionStream, TransactionStreamTarget } from '../types/stellar';
+
+interface LiveFeedProps {
+  target: TransactionStreamTarget;
+  onSelectTransaction: (hash: string) => void;
+  onTransaction?: (transaction: TransactionDetails) => void;
+  onClose: () => void;
+}
+
+// Older entries are dropped so a long-running watch does not grow without bound
+const MAX_FEED_LENGTH = 50;
+
+export function LiveFeed({ target, onSelectTransaction, onTransaction, onClose }: LiveFeedProps) {
+  const [feed, setFeed] = useState<TransactionDetails[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const onTransactionRef = useRef(onTransaction);
+  onTransactionRef.current = onTransaction;
+  const streamRef = useRef<TransactionStream | null>(null);
+
+  useEffect(() => {
+    const stream = watchTransactions(target, {
+      onTransaction: (transaction) => {
+        setLastError(null);
+        setFeed(prev => [transaction, ...prev.filter(tx => tx.hash !== transaction.hash)].slice(0, MAX_FEED_LENGTH));
+        onTransactionRef.current?.(transaction);
+      },
+      onError: (error) => setLastError(error.message)
+    });
+    streamRef.current = stream;
+    setIsPaused(false);
+    return () => stream.stop();
+  }, [target]);
+
+  // Pausing keeps the stream's position, so resuming reports what landed while paused
+  useEffect(() => {
+    if (isPaused) {
+      streamRef.current?.pause();
+    } else {
+      streamRef.current?.resume();
+    }
+  }, [isPaused]);
+
+  const newest = feed[0];
+  const flowNodes = useMemo(() => (newest ? createOperationNodes(newest) : []), [newest]);
+  const flowEdges = useMemo(() => (newest ? createOperationEdges(newest) : []), [newest]);
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="min-w-0">
+          <h2 className="flex items-center gap-2 text-xl font-semibold">
+            <Radio className={`w-5 h-5 ${isPaused ? 'text-gray-400' : 'text-red-500 animate-pulse'}`} />
+            Live {target.type === 'contract' ? 'Contract' : 'Account'} Feed
+          </h2>
+          <p className="text-sm text-gray-500 font-mono truncate">{target.address}</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => setIsPaused(!isPaused)}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50"
+          >
+            {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+            {isPaused ? 'Resume' : 'Pause'}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-500 border border-gray-200 rounded-lg hover:bg-gray-50"
+            title="Stop watching"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {lastError && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="text-sm text-yellow-800">Still watching; the last poll failed: {lastError}</p>
+        </div>
+      )}
+
+      {feed.length === 0 ? (
+        <p className="text-sm text-gray-500 py-6 text-center">
+          {isPaused ? 'Paused.' : 'Waiting for new transactions...'}
+        </p>
+      ) : (
+        <>
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 max-h-64 overflow-y-auto mb-4">
+            {feed.map((tx, index) => (
+              <button
+                key={tx.hash}
+                type="button"
+                onClick={() => onSelectTransaction(tx.hash)}
+                className={`w-full text-left px-4 py-2 hover:bg-blue-50 transition-colors ${index === 0 ? 'bg-green-50' : ''}`}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  {tx.status === 'success' ? (
+                    <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />
+                  )}
+                  <span className="font-mono text-sm text-gray-900 truncate">{tx.hash}</span>
+                  {tx.sorobanOperations && tx.sorobanOperations.length > 0 && (
+                    <span className="font-mono text-xs text-purple-700 flex-shrink-0">
+                      {tx.sorobanOperations.map(op => op.functionName).join(', ')}
+                    </span>
+                  )}
+                  <span className="ml-auto text-xs text-gray-500 flex-shrink-0">
+                    {new Date(tx.ledgerTimestamp).toLocaleTimeString()}
+                  </span>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Newest transaction</h3>
+          <TransactionFlow
+            key={newest.hash}
+            nodes={flowNodes}
+            edges={flowEdges}
+            effects={newest.effects || []}
+            sorobanOperations={newest.sorobanOperations || []}
+            callTree={newest.callTree}
+          />
+        </>
+      )}
+    </div>
+  );
+}
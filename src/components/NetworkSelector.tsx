@@ -1,38 +1,218 @@
-import React from 'react';
-import * as Switch from '@radix-ui/react-switch';
-import { NetworkConfig } from '../types/stellar';
+import React, { useState } from 'react';
+import { Settings, Plus, Trash2, X, Save } from 'lucide-react';
+import { NetworkConfig, NetworkDefinition } from '../types/stellar';
+import {
+  loadNetworks,
+  saveNetworks,
+  saveSelectedNetworkId,
+  toNetworkConfig
+} from '../services/networks';
 
 interface NetworkSelectorProps {
   config: NetworkConfig;
   onConfigChange: (config: NetworkConfig) => void;
 }
 
+const EMPTY_NETWORK: NetworkDefinition = {
+  id: '',
+  label: '',
+  horizonUrl: '',
+  rpcUrl: '',
+  networkPassphrase: '',
+  friendbotUrl: ''
+};
+
+const NETWORK_FIELDS: Array<{ key: keyof NetworkDefinition; label: string; placeholder: string; required?: boolean }> = [
+  { key: 'id', label: 'ID', placeholder: 'my-network', required: true },
+  { key: 'label', label: 'Label', placeholder: 'My Network', required: true },
+  { key: 'horizonUrl', label: 'Horizon URL', placeholder: 'http://localhost:8000', required: true },
+  { key: 'rpcUrl', label: 'RPC URL', placeholder: 'http://localhost:8000/rpc', required: true },
+  { key: 'networkPassphrase', label: 'Passphrase', placeholder: 'Standalone Network ; February 2017', required: true },
+  { key: 'friendbotUrl', label: 'Friendbot URL', placeholder: 'http://localhost:8000/friendbot' }
+];
+
 export function NetworkSelector({ config, onConfigChange }: NetworkSelectorProps) {
-  const handleNetworkChange = (checked: boolean) => {
-    onConfigChange({
-      isTestnet: checked,
-      networkUrl: checked 
-        ? 'https://horizon-testnet.stellar.org'
-        : 'https://horizon.stellar.org',
-      networkPassphrase: checked 
-        ? 'Test SDF Network ; September 2015'
-        : 'Public Global Stellar Network ; September 2015',
-    });
+  const [networks, setNetworks] = useState<NetworkDefinition[]>(() => loadNetworks());
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [draft, setDraft] = useState<NetworkDefinition | null>(null);
+  const [isNewDraft, setIsNewDraft] = useState(false);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const selectNetwork = (network: NetworkDefinition) => {
+    saveSelectedNetworkId(network.id);
+    onConfigChange(toNetworkConfig(network));
+  };
+
+  const handleNetworkChange = (networkId: string) => {
+    const network = networks.find(n => n.id === networkId);
+    if (network) {
+      selectNetwork(network);
+    }
+  };
+
+  const persist = (updated: NetworkDefinition[]) => {
+    saveNetworks(updated);
+    setNetworks(loadNetworks());
+  };
+
+  const startEdit = (network: NetworkDefinition | null) => {
+    setDraft(network ? { ...network } : { ...EMPTY_NETWORK });
+    setIsNewDraft(!network);
+    setDraftError(null);
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+
+    const missing = NETWORK_FIELDS.find(field => field.required && !String(draft[field.key] || '').trim());
+    if (missing) {
+      setDraftError(`${missing.label} is required`);
+      return;
+    }
+    if (isNewDraft && networks.some(n => n.id === draft.id.trim())) {
+      setDraftError(`A network with ID "${draft.id.trim()}" already exists`);
+      return;
+    }
+
+    const saved: NetworkDefinition = {
+      ...draft,
+      id: draft.id.trim(),
+      horizonUrl: draft.horizonUrl.trim().replace(/\/+$/, ''),
+      rpcUrl: draft.rpcUrl.trim(),
+      friendbotUrl: draft.friendbotUrl?.trim() || undefined
+    };
+    const updated = isNewDraft
+      ? [...networks, saved]
+      : networks.map(n => (n.id === saved.id ? saved : n));
+
+    persist(updated);
+    setDraft(null);
+
+    // Re-apply the active network so edits take effect immediately
+    if (saved.id === config.networkId) {
+      selectNetwork(saved);
+    }
+  };
+
+  const handleDelete = (network: NetworkDefinition) => {
+    persist(networks.filter(n => n.id !== network.id));
+    if (network.id === config.networkId) {
+      selectNetwork(networks[0]);
+    }
   };
 
   return (
-    <div className="flex items-center gap-4">
-      <label className="text-sm text-gray-600" htmlFor="network-switch">
-        Use Testnet
+    <div className="relative flex items-center gap-2">
+      <label className="text-sm text-gray-600" htmlFor="network-select">
+        Network
       </label>
-      <Switch.Root
-        id="network-switch"
-        checked={config.isTestnet}
-        onCheckedChange={handleNetworkChange}
-        className="w-11 h-6 bg-gray-200 rounded-full relative data-[state=checked]:bg-blue-600 outline-none cursor-pointer"
+      <select
+        id="network-select"
+        value={config.networkId}
+        onChange={(e) => handleNetworkChange(e.target.value)}
+        className="px-3 py-2 text-sm bg-white border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        {networks.map(network => (
+          <option key={network.id} value={network.id}>
+            {network.label}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => setIsEditorOpen(!isEditorOpen)}
+        className="p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
+        title="Manage networks"
       >
-        <Switch.Thumb className="block w-5 h-5 bg-white rounded-full shadow-lg transition-transform duration-100 translate-x-0.5 will-change-transform data-[state=checked]:translate-x-[22px]" />
-      </Switch.Root>
+        <Settings className="w-4 h-4" />
+      </button>
+
+      {isEditorOpen && (
+        <div className="absolute right-0 top-12 z-50 w-[28rem] bg-white border border-gray-200 rounded-xl shadow-xl p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-gray-900">Networks</h3>
+            <button
+              type="button"
+              onClick={() => { setIsEditorOpen(false); setDraft(null); }}
+              className="p-1 text-gray-400 hover:text-gray-700 rounded"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {!draft ? (
+            <>
+              <ul className="space-y-2 mb-3 max-h-72 overflow-y-auto">
+                {networks.map(network => (
+                  <li
+                    key={network.id}
+                    className={`flex items-center justify-between p-2 border rounded-lg ${network.id === config.networkId ? 'border-blue-300 bg-blue-50' : 'border-gray-200'}`}
+                  >
+                    <button type="button" onClick={() => startEdit(network)} className="text-left flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{network.label}</p>
+                      <p className="text-xs text-gray-500 font-mono truncate">{network.horizonUrl}</p>
+                    </button>
+                    {!network.builtIn && (
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(network)}
+                        className="p-1 text-gray-400 hover:text-red-600 rounded"
+                        title="Remove network"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <button
+                type="button"
+                onClick={() => startEdit(null)}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50"
+              >
+                <Plus className="w-4 h-4" />
+                Add network
+              </button>
+            </>
+          ) : (
+            <div className="space-y-2">
+              {NETWORK_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">
+                    {field.label} {field.required && <span className="text-red-500">*</span>}
+                  </label>
+                  <input
+                    type="text"
+                    value={String(draft[field.key] ?? '')}
+                    onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                    placeholder={field.placeholder}
+                    disabled={field.key === 'id' && !isNewDraft}
+                    className="w-full px-3 py-1.5 text-sm font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
+                  />
+                </div>
+              ))}
+              {draftError && <p className="text-xs text-red-600">{draftError}</p>}
+              <div className="flex gap-2 pt-1">
+                <button
+                  type="button"
+                  onClick={handleSaveDraft}
+                  className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700"
+                >
+                  <Save className="w-4 h-4" />
+                  Save
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className="px-3 py-2 text-sm text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
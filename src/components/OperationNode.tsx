@@ -1,8 +1,12 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Handle, Position } from 'reactflow';
 import { CircleDollarSign, ArrowRightCircle, AlertCircle, Code, Cpu, Zap, UserPlus, Settings, TrendingUp, Shield, Key, Users, ArrowLeftRight, Target, Repeat, ShoppingCart, ArrowRight, Sprout, Wheat } from 'lucide-react';
 import * as Tooltip from '@radix-ui/react-tooltip';
 import * as StellarSdk from '@stellar/stellar-sdk';
+import { fetchContractSpec, fetchContractSpecByHash } from '../services/stellar';
+import { labelArguments } from '../services/contractSpec';
+import { formatTypedScVal } from '../services/typedArgs';
+import type { ContractSpec, TypedScVal } from '../types/stellar';
 
 // Helper function to safely stringify values that might contain BigInt
 const safeStringify = (value: any, space?: number): string => {
@@ -182,6 +186,10 @@ const formatValueWithType = (val: any, maxLength: number = 60): string => {
   return String(val);
 };
 
+// Prefers the typed value, which knows the real ScVal type, over guessing from the decoded one
+const formatDecoded = (val: any, typed: TypedScVal | null | undefined, maxLength: number = 60): string =>
+  typed ? formatTypedScVal(typed, maxLength) : formatValueWithType(val, maxLength);
+
 // Format a single value in human-readable way
 // Helper to clean up HostFunctionType display
 const cleanHostFunctionType = (type: string): string => {
@@ -634,10 +642,14 @@ interface OperationNodeProps {
     signer?: any;
     error?: string;
     contractId?: string;
+    // WASM the contract ran with in this transaction, if the meta or footprint recorded it
+    wasmHash?: string;
     functionName?: string;
     args?: any[];
+    typedArgs?: Array<TypedScVal | null>;
     auth?: any[];
     result?: any;
+    typedResult?: TypedScVal | null;
     events?: any[];
     hostFunctionType?: string;
     footprint?: any;
@@ -692,6 +704,22 @@ export function OperationNodeComponent({ data }: OperationNodeProps) {
   const [showDevEvents, setShowDevEvents] = useState(false);
   const [showMetrics, setShowMetrics] = useState(false);
   const [showLedgerEffects, setShowLedgerEffects] = useState(false);
+  const [contractSpec, setContractSpec] = useState<ContractSpec | null>(null);
+
+  // Parameter names come from the contract's on-chain spec; without one the args stay unlabeled.
+  // The WASM recorded for this call wins, since the contract may have been upgraded since
+  const specContractId = (data.type === 'invoke_host_function' || data.type === 'invokeHostFunction') && data.contractId?.startsWith('C')
+    ? data.contractId
+    : null;
+  const specWasmHash = specContractId ? data.wasmHash : undefined;
+  useEffect(() => {
+    if (!specContractId) return;
+    let cancelled = false;
+    (specWasmHash ? fetchContractSpecByHash(specWasmHash) : fetchContractSpec(specContractId))
+      .then(spec => { if (!cancelled) setContractSpec(spec); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [specContractId, specWasmHash]);
 
   const getIcon = () => {
     // Check for specific contract functions
@@ -797,11 +825,11 @@ export function OperationNodeComponent({ data }: OperationNodeProps) {
 
         // For the args display, skip the first 2 args if they are contract address and function name
         const allArgs = data.args || [];
-        const args = (functionName !== 'InvokeContract' && allArgs.length > 2 &&
+        const skipsHeader = functionName !== 'InvokeContract' && allArgs.length > 2 &&
                      allArgs[0]?.startsWith && (allArgs[0].startsWith('C') || allArgs[0].startsWith('G')) &&
-                     typeof allArgs[1] === 'string')
-                    ? allArgs.slice(2)  // Skip contract and function name
-                    : allArgs;
+                     typeof allArgs[1] === 'string';
+        const args = skipsHeader ? allArgs.slice(2) : allArgs;  // Skip contract and function name
+        const typedArgs = (data.typedArgs || []).slice(skipsHeader ? 2 : 0);
 
         return (
           <div className="space-y-4">
@@ -862,9 +890,11 @@ export function OperationNodeComponent({ data }: OperationNodeProps) {
                         <div className="ml-3 space-y-0.5">
                           {args.map((arg: any, idx: number) => {
                             const cleanSymSuffix = (str: string): string => str.replace(/"sym$/g, '"');
-                            const formattedArg = cleanSymSuffix(formatValueWithType(arg, 80));
+                            const formattedArg = cleanSymSuffix(formatDecoded(arg, typedArgs[idx], 80));
+                            const parameter = contractSpec ? labelArguments(contractSpec, func, args)[idx] : null;
                             return (
-                              <div key={idx} className="text-yellow-300">
+                              <div key={idx} className="text-yellow-300" title={parameter?.type}>
+                                {parameter && <span className="text-sky-300">{parameter.name}: </span>}
                                 "{formattedArg}"{idx < args.length - 1 ? ',' : ''}
                               </div>
                             );
@@ -889,7 +919,7 @@ export function OperationNodeComponent({ data }: OperationNodeProps) {
                           <div className="text-green-300">
                             "{(() => {
                               const cleanSymSuffix = (str: string): string => str.replace(/"sym$/g, '"');
-                              return cleanSymSuffix(formatValueWithType(data.result || data.returnValue, 80));
+                              return cleanSymSuffix(formatDecoded(data.result || data.returnValue, data.result ? data.typedResult : undefined, 80));
                             })()}"
                           </div>
                         </div>
@@ -1048,8 +1078,9 @@ export function OperationNodeComponent({ data }: OperationNodeProps) {
                                 const cleanSymSuffix = (str: string): string => str.replace(/"sym$/g, '"');
 
                                 // Build JSON structure
-                                const fnCallTopics = [functionName, cleanSymSuffix(formatValueWithType(callerAddress, 80))];
-                                const fnCallData = args.map(a => cleanSymSuffix(formatValueWithType(a, 80)));
+                                const typedCallData = callEvent.typedData?.type === 'vec' ? callEvent.typedData.value : [];
+                                const fnCallTopics = [functionName, cleanSymSuffix(formatDecoded(callerAddress, typedCallData[0], 80))];
+                                const fnCallData = args.map((a: any, i: number) => cleanSymSuffix(formatDecoded(a, typedCallData[i + 1], 80)));
 
                                 return (
                                   <div key={idx} className="bg-gradient-to-br from-slate-900 to-slate-800 rounded-lg shadow-lg border-2 border-cyan-500/30 p-3">
@@ -1104,7 +1135,7 @@ export function OperationNodeComponent({ data }: OperationNodeProps) {
                                               <div className="text-pink-400">"data"<span className="text-slate-400">: [</span></div>
                                               <div className="ml-3">
                                                 <div className="text-green-300">
-                                                  "{cleanSymSuffix(formatValueWithType(returnValue, 80))}"
+                                                  "{cleanSymSuffix(formatDecoded(returnValue, returnEvent?.typedData, 80))}"
                                                 </div>
                                               </div>
                                               <div className="text-slate-400">]</div>
@@ -1220,7 +1251,7 @@ export function OperationNodeComponent({ data }: OperationNodeProps) {
                             {hasData && (
                               <div className="ml-0.5">
                                 <div className="text-green-700 font-mono text-[11px] bg-white/60 p-2 rounded border border-green-200 leading-relaxed">
-                                  = {formatValueWithType(dataToShow, 80)}
+                                  = {formatDecoded(dataToShow, effect.typedAfter ?? effect.typedValue, 80)}
                                 </div>
                               </div>
                             )}
@@ -1256,7 +1287,7 @@ export function OperationNodeComponent({ data }: OperationNodeProps) {
                             {hasData && (
                               <div className="ml-0.5">
                                 <div className="text-green-700 font-mono text-[11px] bg-white/60 p-2 rounded border border-green-200 leading-relaxed">
-                                  = {formatValueWithType(dataToShow, 80)}
+                                  = {formatDecoded(dataToShow, change.typedAfter ?? change.typedValue, 80)}
                                 </div>
                               </div>
                             )}
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { Gauge, Loader, RefreshCw, SlidersHorizontal, AlertTriangle } from 'lucide-react';
+import { fetchSorobanSettings } from '../services/stellar';
+import type { StellarService } from '../services/stellar';
+import { analyzeResourceHeadroom, loadHeadroomThresholds, saveHeadroomThresholds } from '../services/networkSettings';
+import type { HeadroomThresholds, ResourceHeadroom as Headroom, SorobanNetworkSettings, SorobanResourceAmounts, SorobanTransactionLimits } from '../types/stellar';
+
+interface ResourceHeadroomProps {
+  usage: SorobanResourceAmounts;
+  // Network to read the limits from; defaults to the one set with setNetwork
+  service?: StellarService;
+}
+
+const RESOURCE_LABELS: Record<keyof SorobanTransactionLimits, string> = {
+  instructions: 'CPU instructions',
+  memoryBytes: 'Memory bytes',
+  diskReadEntries: 'Entries read from disk',
+  diskReadBytes: 'Bytes read from disk',
+  writeEntries: 'Entries written',
+  writeBytes: 'Bytes written',
+  footprintEntries: 'Footprint entries',
+  transactionSizeBytes: 'Transaction size',
+  contractEventsSizeBytes: 'Events and return value size'
+};
+
+const LEVEL_STYLES: Record<Headroom['level'], { bar: string; text: string }> = {
+  ok: { bar: 'bg-green-500', text: 'text-gray-700' },
+  warning: { bar: 'bg-amber-500', text: 'text-amber-700' },
+  critical: { bar: 'bg-red-500', text: 'text-red-700' }
+};
+
+const formatPercent = (ratio: number) => (Number.isFinite(ratio) ? `${(ratio * 100).toFixed(1)}%` : 'over');
+
+export function ResourceHeadroom({ usage, service }: ResourceHeadroomProps) {
+  const [settings, setSettings] = useState<SorobanNetworkSettings | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [thresholds, setThresholds] = useState<HeadroomThresholds>(loadHeadroomThresholds);
+  const [showThresholds, setShowThresholds] = useState(false);
+
+  const load = (refresh = false) => {
+    setIsLoading(true);
+    setError(null);
+    const pending = service ? service.fetchSorobanSettings({ refresh }) : fetchSorobanSettings({ refresh });
+    pending
+      .then(setSettings)
+      .catch((err: any) => setError(err.message || 'Failed to read the network settings'))
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(() => {
+    setSettings(null);
+    load();
+  }, [service]);
+
+  const updateThreshold = (which: keyof HeadroomThresholds, percent: string) => {
+    const value = Number(percent) / 100;
+    if (!Number.isFinite(value) || value <= 0) return;
+    const next = { ...thresholds, [which]: value };
+    setThresholds(next);
+    saveHeadroomThresholds(next);
+  };
+
+  const headroom = settings ? analyzeResourceHeadroom(usage, settings, thresholds) : [];
+  const flagged = headroom.filter(item => item.level !== 'ok');
+
+  return (
+    <div className="p-3 bg-white rounded-md border border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-1.5">
+          <Gauge className="w-4 h-4 text-gray-600" />
+          <p className="text-xs font-medium text-gray-800">Network Limits</p>
+          {settings && <span className="text-xs text-gray-400">as of ledger {settings.latestLedger.toLocaleString()}</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setShowThresholds(!showThresholds)}
+            className="text-gray-500 hover:text-gray-800"
+            title="Warning thresholds"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => load(true)}
+            disabled={isLoading}
+            className="text-gray-500 hover:text-gray-800 disabled:opacity-50"
+            title="Read the settings again"
+          >
+            {isLoading ? <Loader className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {showThresholds && (
+        <div className="flex flex-wrap gap-4 mb-3 p-2 bg-gray-50 rounded border border-gray-200 text-xs">
+          <label className="flex items-center gap-2">
+            Warn at
+            <input
+              type="number"
+              min="1"
+              value={Math.round(thresholds.warning * 100)}
+              onChange={(e) => updateThreshold('warning', e.target.value)}
+              className="w-16 px-2 py-1 border border-gray-300 rounded"
+            />
+            %
+          </label>
+          <label className="flex items-center gap-2">
+            Critical at
+            <input
+              type="number"
+              min="1"
+              value={Math.round(thresholds.critical * 100)}
+              onChange={(e) => updateThreshold('critical', e.target.value)}
+              className="w-16 px-2 py-1 border border-gray-300 rounded"
+            />
+            %
+          </label>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {flagged.length > 0 && (
+        <div className="mb-3 p-2 bg-amber-50 border border-amber-200 rounded text-xs space-y-1">
+          {flagged.map(item => (
+            <p key={item.resource} className={`flex items-center gap-1.5 ${LEVEL_STYLES[item.level].text}`}>
+              <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+              {RESOURCE_LABELS[item.resource]} at {formatPercent(item.ratio)} of the per-transaction limit
+            </p>
+          ))}
+        </div>
+      )}
+
+      {headroom.length > 0 && (
+        <div className="space-y-2">
+          {headroom.map(item => (
+            <div key={item.resource}>
+              <div className="flex justify-between text-xs">
+                <span className="text-gray-600">{RESOURCE_LABELS[item.resource]}</span>
+                <span className={`font-mono ${LEVEL_STYLES[item.level].text}`}>
+                  {item.used.toLocaleString()} / {item.limit.toLocaleString()} ({formatPercent(item.ratio)})
+                </span>
+              </div>
+              <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden mt-0.5">
+                <div
+                  className={`h-full ${LEVEL_STYLES[item.level].bar}`}
+                  style={{ width: `${Math.min(100, item.ratio * 100)}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
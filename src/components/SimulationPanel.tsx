@@ -1,6 +1,7 @@
 import React from 'react';
 import { Cpu, AlertTriangle, Clock, Activity, Database, ChevronDown, ChevronRight, Bug, Zap, CircleDollarSign } from 'lucide-react';
 import type { SimulationResult } from '../types/stellar';
+import { ResourceHeadroom } from './ResourceHeadroom';
 
 interface SimulationPanelProps {
   result: SimulationResult;
@@ -137,6 +138,21 @@ export function SimulationPanel({ result }: SimulationPanelProps) {
         );
       })()}
 
+      {/* Usage against the network's per-transaction limits */}
+      {result.enhancedDebugInfo?.resourceUsage && result.enhancedDebugInfo.resourceUsage.cpuInstructions > 0 && (
+        <ResourceHeadroom
+          usage={{
+            instructions: result.enhancedDebugInfo.resourceUsage.cpuInstructions,
+            // Without metrics the memory figure is an estimate from I/O bytes
+            memoryBytes: result.enhancedDebugInfo.resourceUsage.isActual ? result.enhancedDebugInfo.resourceUsage.memoryBytes : undefined,
+            diskReadBytes: result.enhancedDebugInfo.resourceUsage.readBytes,
+            writeBytes: result.enhancedDebugInfo.resourceUsage.writeBytes,
+            footprintEntries: result.enhancedDebugInfo.resourceUsage.readLedgerEntries,
+            writeEntries: result.enhancedDebugInfo.resourceUsage.writeLedgerEntries,
+          }}
+        />
+      )}
+
       {/* Basic Resource Usage (fallback) */}
       {!result.enhancedDebugInfo?.resourceUsage && (result.resourceUsage.cpuUsage > 0 || result.resourceUsage.memoryUsage > 0) && (
         <div className="grid grid-cols-2 gap-4">
@@ -364,7 +380,21 @@ export function SimulationPanel({ result }: SimulationPanelProps) {
                     <p className="text-sm font-medium text-red-800 mb-2">
                       {trace.operation !== undefined ? `Operation ${trace.operation + 1}` : trace.phase} Error
                     </p>
-                    <p className="text-xs text-red-600 mb-2">{trace.error}</p>
+                    {trace.contractError?.name ? (
+                      <div className="mb-2">
+                        <p className="text-xs text-red-700">
+                          <span className="font-mono font-semibold">
+                            {trace.contractError.enumName ? `${trace.contractError.enumName}::` : ''}{trace.contractError.name}
+                          </span>
+                          <span className="font-mono text-red-500 ml-2">Error(Contract, #{trace.contractError.code})</span>
+                        </p>
+                        {trace.contractError.doc && (
+                          <p className="text-xs text-red-600 mt-1">{trace.contractError.doc}</p>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-red-600 mb-2">{trace.error}</p>
+                    )}
                     {trace.stack && (
                       <pre className="text-xs bg-red-100 p-2 rounded overflow-x-auto max-h-32 text-red-700">
                         {trace.stack}
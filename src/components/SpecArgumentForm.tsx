@@ -0,0 +1,309 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { defaultSpecValue, integerRange, validateSpecScalar } from '../services/specArgs';
+import type { ContractSpec, ContractSpecFunction, ContractSpecTypeDef, SpecFormValue } from '../types/stellar';
+
+interface SpecArgumentFormProps {
+  spec: ContractSpec;
+  fn: ContractSpecFunction;
+  values: Record<string, SpecFormValue>;
+  onChange: (values: Record<string, SpecFormValue>) => void;
+  // Offered as suggestions in address fields, e.g. the source account and the contract itself
+  knownAddresses?: string[];
+}
+
+interface SpecFieldProps {
+  spec: ContractSpec;
+  type: ContractSpecTypeDef;
+  value: SpecFormValue;
+  onChange: (value: SpecFormValue) => void;
+  addressListId: string;
+}
+
+const inputClass = 'w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm';
+const nestedClass = 'pl-3 border-l-2 border-gray-200 space-y-2';
+
+const placeholderFor = (type: ContractSpecTypeDef): string => {
+  if (type.kind === 'bytesN') return `hex, ${type.n} bytes`;
+  if (type.kind !== 'primitive') return '';
+  const range = integerRange(type.name);
+  if (range) return `${range[0]} to ${range[1] > 10n ** 12n ? `${range[1].toString().slice(0, 6)}...` : range[1]}`;
+  switch (type.name) {
+    case 'address':
+      return 'G... or C...';
+    case 'muxed_address':
+      return 'G..., M... or C...';
+    case 'bytes':
+      return 'hex';
+    case 'val':
+    case 'error':
+      return 'JSON value';
+    default:
+      return type.name;
+  }
+};
+
+function ScalarField({ type, value, onChange, addressListId }: SpecFieldProps) {
+  const text = typeof value === 'string' ? value : '';
+  const problem = text ? validateSpecScalar(type, text) : null;
+  const isAddress = type.kind === 'primitive' && (type.name === 'address' || type.name === 'muxed_address');
+
+  return (
+    <div>
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholderFor(type)}
+        list={isAddress ? addressListId : undefined}
+        inputMode={type.kind === 'primitive' && integerRange(type.name) ? 'numeric' : undefined}
+        className={`${inputClass} ${problem ? 'border-red-400' : ''}`}
+      />
+      {problem && <p className="text-xs text-red-600 mt-1">{problem}</p>}
+    </div>
+  );
+}
+
+function SpecField(props: SpecFieldProps) {
+  const { spec, type, value, onChange } = props;
+
+  switch (type.kind) {
+    case 'primitive':
+      if (type.name === 'bool') {
+        return (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={value === true} onChange={(e) => onChange(e.target.checked)} className="rounded border-gray-300" />
+            {value === true ? 'true' : 'false'}
+          </label>
+        );
+      }
+      if (type.name === 'void') {
+        return <p className="text-xs text-gray-500 italic">No value</p>;
+      }
+      return <ScalarField {...props} />;
+
+    case 'bytesN':
+      return <ScalarField {...props} />;
+
+    case 'result':
+      return <SpecField {...props} type={type.ok} />;
+
+    case 'option': {
+      const option = value as { some: boolean; value: SpecFormValue };
+      return (
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={option.some}
+              onChange={(e) => onChange({ ...option, some: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            {option.some ? 'Some' : 'None'}
+          </label>
+          {option.some && (
+            <div className={nestedClass}>
+              <SpecField {...props} type={type.value} value={option.value} onChange={(inner) => onChange({ ...option, value: inner })} />
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    case 'vec': {
+      const items = value as SpecFormValue[];
+      return (
+        <div className={nestedClass}>
+          {items.map((item, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <span className="text-xs text-gray-500 font-mono mt-2 w-6">{index}</span>
+              <div className="flex-1">
+                <SpecField
+                  {...props}
+                  type={type.element}
+                  value={item}
+                  onChange={(inner) => onChange(items.map((existing, i) => (i === index ? inner : existing)))}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+                className="p-1.5 text-gray-400 hover:text-red-600"
+                title="Remove item"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange([...items, defaultSpecValue(spec, type.element)])}
+            className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="w-3 h-3" />
+            Add item
+          </button>
+        </div>
+      );
+    }
+
+    case 'map': {
+      const entries = (value as { entries: Array<{ key: SpecFormValue; value: SpecFormValue }> }).entries;
+      const update = (index: number, entry: { key: SpecFormValue; value: SpecFormValue }) =>
+        onChange({ entries: entries.map((existing, i) => (i === index ? entry : existing)) });
+      return (
+        <div className={nestedClass}>
+          {entries.map((entry, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="flex-1 grid grid-cols-2 gap-2">
+                <SpecField {...props} type={type.key} value={entry.key} onChange={(key) => update(index, { ...entry, key })} />
+                <SpecField {...props} type={type.value} value={entry.value} onChange={(inner) => update(index, { ...entry, value: inner })} />
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange({ entries: entries.filter((_, i) => i !== index) })}
+                className="p-1.5 text-gray-400 hover:text-red-600"
+                title="Remove entry"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange({ entries: [...entries, { key: defaultSpecValue(spec, type.key), value: defaultSpecValue(spec, type.value) }] })}
+            className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="w-3 h-3" />
+            Add entry
+          </button>
+        </div>
+      );
+    }
+
+    case 'tuple': {
+      const items = value as SpecFormValue[];
+      return (
+        <div className={nestedClass}>
+          {type.elements.map((element, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <span className="text-xs text-gray-500 font-mono mt-2 w-6">{index}</span>
+              <div className="flex-1">
+                <SpecField
+                  {...props}
+                  type={element}
+                  value={items[index]}
+                  onChange={(inner) => onChange(items.map((existing, i) => (i === index ? inner : existing)))}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case 'udt': {
+      const struct = spec.structs.find(s => s.name === type.name);
+      if (struct) {
+        const fields = (value as { fields: Record<string, SpecFormValue> }).fields;
+        return (
+          <div className={nestedClass}>
+            {struct.fields.map(field => (
+              <div key={field.name}>
+                <label className="block text-xs font-medium text-gray-600 mb-1" title={field.doc}>
+                  {field.name} <span className="font-mono text-gray-400">{field.type}</span>
+                </label>
+                <SpecField
+                  {...props}
+                  type={field.typeDef}
+                  value={fields[field.name]}
+                  onChange={(inner) => onChange({ fields: { ...fields, [field.name]: inner } })}
+                />
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      const union = spec.unions.find(u => u.name === type.name);
+      if (union) {
+        const current = value as { tag: string; values: SpecFormValue[] };
+        const unionCase = union.cases.find(c => c.name === current.tag);
+        return (
+          <div className="space-y-2">
+            <select
+              value={current.tag}
+              onChange={(e) => {
+                const next = union.cases.find(c => c.name === e.target.value);
+                onChange({ tag: e.target.value, values: (next?.types || []).map(t => defaultSpecValue(spec, t)) });
+              }}
+              className={inputClass}
+            >
+              {union.cases.map(c => (
+                <option key={c.name} value={c.name}>{c.name}</option>
+              ))}
+            </select>
+            {unionCase && unionCase.types.length > 0 && (
+              <div className={nestedClass}>
+                {unionCase.types.map((caseType, index) => (
+                  <SpecField
+                    key={index}
+                    {...props}
+                    type={caseType}
+                    value={current.values[index]}
+                    onChange={(inner) => onChange({ ...current, values: current.values.map((existing, i) => (i === index ? inner : existing)) })}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      }
+
+      const enumDef = spec.enums.find(e => e.name === type.name) || spec.errorEnums.find(e => e.name === type.name);
+      if (enumDef) {
+        return (
+          <select value={typeof value === 'string' ? value : ''} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+            {enumDef.cases.map(c => (
+              <option key={c.name} value={String(c.value)}>{c.name} ({c.value})</option>
+            ))}
+          </select>
+        );
+      }
+
+      return <p className="text-xs text-red-600">Type {type.name} is not defined in the contract spec</p>;
+    }
+  }
+}
+
+export function SpecArgumentForm({ spec, fn, values, onChange, knownAddresses = [] }: SpecArgumentFormProps) {
+  const addressListId = `spec-addresses-${fn.name}`;
+
+  if (fn.inputs.length === 0) {
+    return <p className="text-sm text-gray-500">This function takes no arguments.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <datalist id={addressListId}>
+        {knownAddresses.filter(Boolean).map(address => (
+          <option key={address} value={address} />
+        ))}
+      </datalist>
+      {fn.inputs.map(input => (
+        <div key={input.name}>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {input.name} <span className="font-mono text-xs text-purple-600">{input.type}</span>
+          </label>
+          {input.doc && <p className="text-xs text-gray-500 mb-1">{input.doc}</p>}
+          <SpecField
+            spec={spec}
+            type={input.typeDef}
+            value={values[input.name] ?? defaultSpecValue(spec, input.typeDef)}
+            onChange={(inner) => onChange({ ...values, [input.name]: inner })}
+            addressListId={addressListId}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Database, Plus, Edit, Trash2 } from 'lucide-react';
 import type { NodeProps } from 'reactflow';
 import { StateChange } from '../types/stellar';
 import * as StellarSdk from '@stellar/stellar-sdk';
+import { formatTypedScVal } from '../services/typedArgs';
 
 interface StateChangeNodeData {
   stateChange: StateChange;
@@ -126,8 +127,10 @@ export function StateChangeNode({ data }: NodeProps<StateChangeNodeData>) {
 
     let valueStr = '';
     const dataToShow = stateChange.after !== undefined ? stateChange.after : stateChange.value;
+    const typedToShow = stateChange.after !== undefined ? stateChange.typedAfter : stateChange.typedValue;
     if (dataToShow !== undefined && dataToShow !== null && dataToShow !== 'ContractInstance') {
-      const formatted = formatValue(dataToShow);
+      // The typed value knows the real ScVal types; the decoded one only allows a guess
+      const formatted = typedToShow ? formatTypedScVal(typedToShow, 100) : formatValue(dataToShow);
       // Only show value if it's not too long
       if (formatted.length > 100) {
         valueStr = ` = {…}`;
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Send, Loader, CheckCircle, XCircle, ExternalLink } from 'lucide-react';
+import * as StellarSdk from '@stellar/stellar-sdk';
+import type { StellarService } from '../services/stellar';
+import { keypairSigner } from '../services/submit';
+import type { SubmissionStatus, SubmittedTransaction, TransactionDetails, TransactionSigner } from '../types/stellar';
+import { TransactionDetailsPanel } from './TransactionDetails';
+
+interface SubmitSimulatedTransactionProps {
+  service: StellarService;
+  transaction: StellarSdk.Transaction;
+  simulation: StellarSdk.rpc.Api.SimulateTransactionSuccessResponse;
+  // Injected wallet signer; a secret key can always be entered instead
+  signer?: TransactionSigner;
+  // Opens the confirmed transaction elsewhere; without it the details are shown inline
+  onSubmitted?: (hash: string) => void;
+}
+
+const STATUS_LABELS: Record<SubmissionStatus, string> = {
+  signing: 'Signing...',
+  resimulating: 'Simulating again with signed authorization...',
+  sending: 'Sending to RPC...',
+  pending: 'Waiting for the transaction to be included in a ledger...',
+  success: 'Included in a ledger',
+  failed: 'Included in a ledger, but failed'
+};
+
+export function SubmitSimulatedTransaction({ service, transaction, simulation, signer, onSubmitted }: SubmitSimulatedTransactionProps) {
+  const [useInjectedSigner, setUseInjectedSigner] = useState(!!signer);
+  const [secretKey, setSecretKey] = useState('');
+  const [status, setStatus] = useState<SubmissionStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState<SubmittedTransaction | null>(null);
+  const [details, setDetails] = useState<TransactionDetails | null>(null);
+  const isBusy = status !== null && status !== 'success' && status !== 'failed';
+
+  const handleSubmit = async () => {
+    setError(null);
+    setSubmitted(null);
+    setDetails(null);
+
+    try {
+      let activeSigner: TransactionSigner;
+      if (useInjectedSigner && signer) {
+        activeSigner = signer;
+      } else {
+        if (!StellarSdk.StrKey.isValidEd25519SecretSeed(secretKey.trim())) {
+          throw new Error('Enter the secret key (S...) of the source account');
+        }
+        activeSigner = keypairSigner(secretKey);
+      }
+
+      const options = { onStatus: setStatus };
+      const signedXdr = await service.signSimulatedTransaction(transaction, simulation, activeSigner, options);
+      const outcome = await service.submitTransaction(signedXdr, options);
+      setSubmitted(outcome);
+
+      if (onSubmitted) {
+        onSubmitted(outcome.hash);
+      } else {
+        setDetails(await service.fetchTransaction(outcome.hash));
+      }
+    } catch (err: any) {
+      setStatus(null);
+      setError(err.message || 'Submission failed');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-white border border-gray-200 rounded p-4 space-y-3">
+        <p className="text-xs text-gray-600">
+          Assembles the simulated call with its resources and fee, signs it as {transaction.source.substring(0, 8)}...
+          and submits it to {service.networkConfig.label || service.networkConfig.networkId}. This spends real fees on that network.
+        </p>
+
+        {signer && (
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={useInjectedSigner} onChange={() => setUseInjectedSigner(true)} />
+              Connected signer <span className="font-mono text-xs text-gray-500">{signer.publicKey.substring(0, 8)}...</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={!useInjectedSigner} onChange={() => setUseInjectedSigner(false)} />
+              Secret key
+            </label>
+          </div>
+        )}
+
+        {(!signer || !useInjectedSigner) && (
+          <div>
+            <input
+              type="password"
+              value={secretKey}
+              onChange={(e) => setSecretKey(e.target.value)}
+              placeholder="S... (kept in this page only, never sent anywhere)"
+              autoComplete="off"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+            />
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={isBusy}
+          className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-sm"
+        >
+          {isBusy ? <Loader className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          Sign & Submit
+        </button>
+
+        {status && (
+          <p className={`text-sm flex items-center gap-2 ${status === 'failed' ? 'text-red-700' : status === 'success' ? 'text-green-700' : 'text-gray-600'}`}>
+            {status === 'success' && <CheckCircle className="w-4 h-4" />}
+            {status === 'failed' && <XCircle className="w-4 h-4" />}
+            {STATUS_LABELS[status]}
+          </p>
+        )}
+
+        {submitted && (
+          <p className="text-xs text-gray-600">
+            Hash <span className="font-mono break-all">{submitted.hash}</span>
+            {submitted.ledger !== undefined && <> in ledger {submitted.ledger.toLocaleString()}</>}
+            {onSubmitted && (
+              <button type="button" onClick={() => onSubmitted(submitted.hash)} className="ml-2 inline-flex items-center gap-1 text-blue-600 hover:text-blue-800">
+                <ExternalLink className="w-3 h-3" />
+                Open
+              </button>
+            )}
+          </p>
+        )}
+
+        {error && (
+          <pre className="bg-red-50 border border-red-200 rounded p-3 text-sm text-red-700 whitespace-pre-wrap">{error}</pre>
+        )}
+      </div>
+
+      {details && <TransactionDetailsPanel transaction={details} networkConfig={service.networkConfig} />}
+    </div>
+  );
+}
@@ -1,8 +1,16 @@
 import React from 'react';
-import { ExternalLink, AlertTriangle, CheckCircle, XCircle, Info, Code, Eye, ChevronDown, ChevronRight } from 'lucide-react';
+import { ExternalLink, AlertTriangle, CheckCircle, XCircle, Info, Code, Eye, ChevronDown, ChevronRight, GitFork } from 'lucide-react';
 import * as Tooltip from '@radix-ui/react-tooltip';
 import * as StellarSdk from '@stellar/stellar-sdk';
-import type { TransactionDetails } from '../types/stellar';
+import type { TransactionDetails, NetworkConfig, SimulationFork } from '../types/stellar';
+import { formatContractError } from '../services/contractErrors';
+import { forkTransaction } from '../services/fork';
+
+// Only the public SDF networks have a stellar.expert explorer
+const EXPLORER_NETWORKS: Record<string, string> = {
+  mainnet: 'public',
+  testnet: 'testnet'
+};
 
 // Helper function to safely stringify values that may contain BigInt
 function safeStringify(value: any, indent?: number): string {
@@ -17,102 +25,6 @@ function safeStringify(value: any, indent?: number): string {
   }
 }
 
-// Helper to detect serialized buffers
-const isSerializedBuffer = (obj: any): boolean => {
-  if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return false;
-  const keys = Object.keys(obj);
-  if (keys.length === 0) return false;
-  const numericKeys = keys.filter(k => /^\d+$/.test(k)).map(Number).sort((a, b) => a - b);
-  if (numericKeys.length !== keys.length) return false;
-  for (let i = 0; i < numericKeys.length; i++) {
-    if (numericKeys[i] !== i) return false;
-  }
-  return keys.every(k => {
-    const val = obj[k];
-    return typeof val === 'number' && val >= 0 && val <= 255;
-  });
-};
-
-const serializedBufferToUint8Array = (obj: any): Uint8Array => {
-  const keys = Object.keys(obj).map(Number).sort((a, b) => a - b);
-  const bytes = new Uint8Array(keys.length);
-  keys.forEach((k, i) => {
-    bytes[i] = obj[k];
-  });
-  return bytes;
-};
-
-// Format value with type annotations (sym, bytes, u32, i128, etc.)
-const formatValueWithType = (val: any, maxLength: number = 60): string => {
-  if (val === null || val === undefined) return 'null';
-
-  // Check for serialized buffers
-  if (val && typeof val === 'object' && isSerializedBuffer(val)) {
-    const bytes = serializedBufferToUint8Array(val);
-    if (bytes.length === 32) {
-      try {
-        const addr = StellarSdk.StrKey.encodeEd25519PublicKey(bytes);
-        return `${addr.substring(0, 4)}…${addr.substring(addr.length - 4)}`;
-      } catch {
-        try {
-          const addr = StellarSdk.StrKey.encodeContract(bytes);
-          return `${addr.substring(0, 4)}…${addr.substring(addr.length - 4)}`;
-        } catch {
-          const hex = Array.from(bytes).map((b: number) => b.toString(16).padStart(2, '0')).join('');
-          return `0x${hex.slice(0, 8)}…${hex.slice(-8)}`;
-        }
-      }
-    }
-    const b64 = btoa(String.fromCharCode(...Array.from(bytes)));
-    const displayB64 = b64.length > 24 ? `${b64.substring(0, 12)}…${b64.substring(b64.length - 6)}` : b64;
-    return `${displayB64}bytes`;
-  }
-
-  if (typeof val === 'string') {
-    if (val.length > 40 && (val.startsWith('G') || val.startsWith('C'))) {
-      return `${val.substring(0, 4)}…${val.substring(val.length - 4)}`;
-    }
-    return `"${val}"sym`;
-  }
-
-  if (typeof val === 'number') {
-    return `${val}u32`;
-  }
-
-  if (typeof val === 'bigint') {
-    return `${val}i128`;
-  }
-
-  if (typeof val === 'boolean') {
-    return `${val}bool`;
-  }
-
-  if (Array.isArray(val)) {
-    const items = val.map(v => formatValueWithType(v, 30)).join(', ');
-    if (items.length > maxLength) {
-      return `[${items.substring(0, maxLength - 3)}…]`;
-    }
-    return `[${items}]`;
-  }
-
-  if (typeof val === 'object') {
-    try {
-      const entries = Object.entries(val).slice(0, 5).map(([k, v]) => {
-        const key = typeof k === 'string' ? `"${k}"sym` : k;
-        const value = formatValueWithType(v, 25);
-        return `${key}: ${value}`;
-      });
-      const entriesStr = entries.join(', ');
-      const hasMore = Object.keys(val).length > 5;
-      return `{${entriesStr}${hasMore ? ', …' : ''}}`;
-    } catch {
-      return '{…}';
-    }
-  }
-
-  return String(val);
-};
-
 // Decode raw Stellar/Soroban values to human-readable format
 function decodeValue(val: any): string {
   if (val === null || val === undefined) return 'null';
@@ -245,10 +157,12 @@ function extractAccountAddress(sourceAccount: any): string {
 
 interface TransactionDetailsProps {
   transaction: TransactionDetails;
-  networkConfig: { isTestnet: boolean };
+  networkConfig: NetworkConfig;
+  // Offers "Fork & Simulate" for contract calls
+  onFork?: (fork: SimulationFork) => void;
 }
 
-export function TransactionDetailsPanel({ transaction, networkConfig }: TransactionDetailsProps) {
+export function TransactionDetailsPanel({ transaction, networkConfig, onFork }: TransactionDetailsProps) {
   const [showDebugInfo, setShowDebugInfo] = React.useState(false);
   const [showXdrDetails, setShowXdrDetails] = React.useState({
     result: false,
@@ -264,11 +178,14 @@ export function TransactionDetailsPanel({ transaction, networkConfig }: Transact
     if (transaction.status === 'success') {
       return <CheckCircle className="w-5 h-5 text-green-500" />;
     }
+    if (transaction.status === 'unknown') {
+      return <Info className="w-5 h-5 text-gray-500" />;
+    }
     return <XCircle className="w-5 h-5 text-red-500" />;
   };
 
   const getErrorAnalysis = () => {
-    if (transaction.status === 'success') {
+    if (transaction.status === 'success' || transaction.status === 'unknown') {
       return { txError: null, opErrors: [] };
     }
     
@@ -409,6 +326,14 @@ export function TransactionDetailsPanel({ transaction, networkConfig }: Transact
 
   // Get main contract ID (first contract encountered)
   const mainContractId = transaction.sorobanOperations?.[0]?.contractId;
+  const fork = React.useMemo(() => {
+    if (!onFork || !transaction.sorobanOperations?.length) return null;
+    try {
+      return forkTransaction(transaction);
+    } catch {
+      return null;
+    }
+  }, [transaction, onFork]);
 
   return (
     <div className="space-y-6">
@@ -417,10 +342,23 @@ export function TransactionDetailsPanel({ transaction, networkConfig }: Transact
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-semibold">Transaction Details</h2>
           <div className="flex items-center gap-2">
+            {fork && onFork && (
+              <button
+                type="button"
+                onClick={() => onFork(fork)}
+                className="inline-flex items-center gap-2 px-3 py-1 rounded-lg text-sm font-medium text-indigo-700 border border-indigo-200 hover:bg-indigo-50"
+                title="Open this contract call in the simulator with editable arguments"
+              >
+                <GitFork className="w-4 h-4" />
+                Fork &amp; Simulate
+              </button>
+            )}
             <span className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm font-medium ${
               transaction.status === 'success' 
                 ? 'bg-green-100 text-green-800' 
-                : 'bg-red-100 text-red-800'
+                : transaction.status === 'unknown'
+                  ? 'bg-gray-100 text-gray-700'
+                  : 'bg-red-100 text-red-800'
             }`}>
               {getStatusIcon()}
               {transaction.status.charAt(0).toUpperCase() + transaction.status.slice(1)}
@@ -428,19 +366,35 @@ export function TransactionDetailsPanel({ transaction, networkConfig }: Transact
           </div>
         </div>
 
+        {transaction.debugInfo?.decodeErrors && transaction.debugInfo.decodeErrors.length > 0 && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+            <p className="flex items-center gap-2 font-medium">
+              <AlertTriangle className="w-4 h-4" />
+              Some of the XDR could not be decoded; the details below leave it out
+            </p>
+            <ul className="mt-1 ml-6 list-disc text-xs font-mono">
+              {transaction.debugInfo.decodeErrors.map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="grid md:grid-cols-2 gap-6">
           <div className="space-y-2">
             <p className="text-sm text-gray-500">Hash</p>
             <div className="flex items-center gap-2 font-mono text-sm bg-gray-50 p-2 rounded overflow-hidden">
               <p className="truncate">{transaction.hash}</p>
-              <a
-                href={`https://stellar.expert/explorer/${networkConfig.isTestnet ? 'testnet' : 'public'}/tx/${transaction.hash}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="flex-shrink-0 text-blue-600 hover:text-blue-800"
-              >
-                <ExternalLink className="w-4 h-4" />
-              </a>
+              {EXPLORER_NETWORKS[networkConfig.networkId] && (
+                <a
+                  href={`https://stellar.expert/explorer/${EXPLORER_NETWORKS[networkConfig.networkId]}/tx/${transaction.hash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex-shrink-0 text-blue-600 hover:text-blue-800"
+                >
+                  <ExternalLink className="w-4 h-4" />
+                </a>
+              )}
             </div>
           </div>
 
@@ -778,6 +732,12 @@ export function TransactionDetailsPanel({ transaction, networkConfig }: Transact
                                             {opError.description}
                                           </p>
                                         )}
+                                        {opError.contractErrors?.map((contractError, errorIndex) => (
+                                          <p key={errorIndex} className="text-xs text-red-700 mt-2">
+                                            <span className="font-mono font-semibold">{formatContractError(contractError)}</span>
+                                            {contractError.doc && <span> - {contractError.doc}</span>}
+                                          </p>
+                                        ))}
                                         {opError.details && Object.keys(opError.details).length > 0 && (
                                           <details className="mt-2">
                                             <summary className="text-xs text-red-600 cursor-pointer hover:text-red-800">
@@ -0,0 +1,329 @@
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import ReactFlow, { Background, Controls, type Node, type NodeTypes } from 'reactflow';
+import 'reactflow/dist/style.css';
+import { GitCompare, ArrowLeftRight } from 'lucide-react';
+import { StateChangeNode } from './StateChangeNode';
+import { EventNode } from './EventNode';
+import { diffTransactions, toComparable } from '../services/diff';
+import { formatTypedScVal, isTypedScVal } from '../services/typedArgs';
+import type { DiffEntry, ForkComparison, TransactionDetails, TransactionDiff as TransactionDiffResult } from '../types/stellar';
+
+const nodeTypes: NodeTypes = {
+  stateChange: StateChangeNode,
+  event: EventNode,
+};
+
+interface TransactionDiffProps {
+  initialLeftHash?: string;
+  loadTransaction: (hash: string) => Promise<TransactionDetails>;
+}
+
+const STATUS_STYLES: Record<DiffEntry['status'], { row: string; badge: string; outline: string }> = {
+  added: { row: 'bg-green-50', badge: 'bg-green-100 text-green-800', outline: '#16a34a' },
+  removed: { row: 'bg-red-50', badge: 'bg-red-100 text-red-800', outline: '#dc2626' },
+  changed: { row: 'bg-yellow-50', badge: 'bg-yellow-100 text-yellow-800', outline: '#ca8a04' },
+  unchanged: { row: '', badge: 'bg-gray-100 text-gray-600', outline: 'transparent' },
+};
+
+// Column offset and row pitch for the canvases; event nodes are the widest and tallest renderers
+const COLUMN_OFFSET = 750;
+const ROW_HEIGHT = { stateChange: 220, event: 420 };
+
+const formatValue = (value: any) => {
+  if (value === undefined) return '—';
+  return typeof value === 'string' ? value : toComparable(value);
+};
+
+const formatDelta = (entry: DiffEntry) => {
+  const left = Number(entry.left);
+  const right = Number(entry.right);
+  if (entry.status !== 'changed' || !Number.isFinite(left) || !Number.isFinite(right)) return null;
+  const delta = right - left;
+  return `${delta > 0 ? '+' : ''}${delta.toLocaleString()}${left !== 0 ? ` (${((delta / left) * 100).toFixed(1)}%)` : ''}`;
+};
+
+// Typed ScVals and contract events carrying them, as in forked simulations
+const formatTypedValue = (value: any): string => {
+  if (value && Array.isArray(value.typedTopics)) {
+    return `${value.contractId} [${value.typedTopics.map((topic: any) => formatTypedScVal(topic, 80)).join(', ')}] ${formatTypedScVal(value.typedData, 200)}`;
+  }
+  return isTypedScVal(value) ? formatTypedScVal(value, 200) : formatValue(value);
+};
+
+function DiffTable({ title, entries, showUnchanged, showDelta, columns = ['A', 'B'], format = formatValue }: {
+  title: string;
+  entries: DiffEntry[];
+  showUnchanged: boolean;
+  showDelta?: boolean;
+  columns?: [string, string];
+  format?: (value: any) => string;
+}) {
+  const visible = showUnchanged ? entries : entries.filter(entry => entry.status !== 'unchanged');
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">
+        {title}
+        <span className="ml-2 text-xs font-normal text-gray-500">
+          {entries.filter(entry => entry.status !== 'unchanged').length} of {entries.length} differ
+        </span>
+      </h3>
+      {visible.length === 0 ? (
+        <p className="text-xs text-gray-500">Identical.</p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm table-fixed">
+            <thead className="bg-gray-50 text-xs text-gray-600 uppercase">
+              <tr>
+                <th className="px-4 py-2 text-left w-1/5">Field</th>
+                <th className="px-4 py-2 text-left w-2/5">{columns[0]}</th>
+                <th className="px-4 py-2 text-left w-2/5">{columns[1]}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visible.map(entry => {
+                const delta = showDelta ? formatDelta(entry) : null;
+                return (
+                  <tr key={entry.path} className={STATUS_STYLES[entry.status].row}>
+                    <td className="px-4 py-2 align-top">
+                      <div className="font-mono text-xs text-gray-900 break-all">{entry.path}</div>
+                      <span className={`inline-block mt-1 px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[entry.status].badge}`}>
+                        {entry.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 align-top font-mono text-xs text-gray-700 break-all whitespace-pre-wrap">{format(entry.left)}</td>
+                    <td className="px-4 py-2 align-top font-mono text-xs text-gray-700 break-all whitespace-pre-wrap">
+                      {format(entry.right)}
+                      {delta && <div className="mt-1 text-gray-500">{delta}</div>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Lays matching entries out side by side, A on the left and B on the right, reusing the
+// transaction flow renderers and outlining every node whose entry differs
+function DiffCanvas({ title, entries, type, showUnchanged }: { title: string; entries: DiffEntry[]; type: 'stateChange' | 'event'; showUnchanged: boolean }) {
+  const visible = useMemo(
+    () => (showUnchanged ? entries : entries.filter(entry => entry.status !== 'unchanged')),
+    [entries, showUnchanged]
+  );
+
+  const nodes = useMemo(() => {
+    const result: Node[] = [];
+    visible.forEach((entry, row) => {
+      const style = { outline: `3px solid ${STATUS_STYLES[entry.status].outline}`, outlineOffset: 4, borderRadius: 8 };
+      (['left', 'right'] as const).forEach((side, column) => {
+        const value = entry[side];
+        if (!value) return;
+        result.push({
+          id: `${type}-${side}-${row}`,
+          type,
+          position: { x: column * COLUMN_OFFSET, y: row * ROW_HEIGHT[type] },
+          style,
+          data: type === 'event'
+            ? { event: value, parentOperationIndex: 0, eventIndex: row }
+            : { stateChange: value, parentOperationIndex: 0, changeIndex: row },
+        });
+      });
+    });
+    return result;
+  }, [visible, type]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">
+        {title}
+        <span className="ml-2 text-xs font-normal text-gray-500">
+          {entries.filter(entry => entry.status !== 'unchanged').length} of {entries.length} differ
+        </span>
+      </h3>
+      {visible.length === 0 ? (
+        <p className="text-xs text-gray-500">Identical.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 text-xs font-semibold text-gray-500 mb-1">
+            <span>A</span>
+            <span>B</span>
+          </div>
+          <div className="border border-gray-200 rounded-lg" style={{ height: Math.min(600, 160 + visible.length * 140) }}>
+            <ReactFlow
+              nodes={nodes}
+              edges={[]}
+              nodeTypes={nodeTypes}
+              fitView
+              fitViewOptions={{ padding: 0.1, maxZoom: 0.8, minZoom: 0.1 }}
+              className="bg-gray-50"
+              proOptions={{ hideAttribution: true }}
+              nodesConnectable={false}
+              minZoom={0.1}
+              maxZoom={2}
+            >
+              <Background color="#e2e8f0" gap={16} />
+              <Controls className="bg-white shadow-md border border-gray-100" />
+            </ReactFlow>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Differences between a ledger transaction's contract call and its re-simulation
+export function InvocationDiff({ comparison }: { comparison: ForkComparison }) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const columns: [string, string] = ['Original', 'Re-simulated'];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm text-gray-700">
+          {comparison.differenceCount === 0
+            ? 'Same result, events and resources as the original transaction.'
+            : `${comparison.differenceCount} difference${comparison.differenceCount === 1 ? '' : 's'} from the original transaction.`}
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={(e) => setShowUnchanged(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Show unchanged
+        </label>
+      </div>
+      <DiffTable title="Result" entries={comparison.result} showUnchanged={showUnchanged} columns={columns} format={formatTypedValue} />
+      <DiffTable title="Contract Events" entries={comparison.events} showUnchanged={showUnchanged} columns={columns} format={formatTypedValue} />
+      <DiffTable
+        title="Resources"
+        entries={comparison.resources}
+        showUnchanged={showUnchanged}
+        showDelta
+        columns={['Original (declared, fee charged)', 'Re-simulated (estimate)']}
+      />
+    </div>
+  );
+}
+
+export function TransactionDiff({ initialLeftHash, loadTransaction }: TransactionDiffProps) {
+  const [leftHash, setLeftHash] = useState(initialLeftHash || '');
+  const [rightHash, setRightHash] = useState('');
+  const [diff, setDiff] = useState<TransactionDiffResult | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (initialLeftHash) {
+      setLeftHash(initialLeftHash);
+    }
+  }, [initialLeftHash]);
+
+  const handleCompare = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!leftHash.trim() || !rightHash.trim()) return;
+
+    setIsLoading(true);
+    setError(null);
+    setDiff(null);
+    try {
+      const [left, right] = await Promise.all([loadTransaction(leftHash.trim()), loadTransaction(rightHash.trim())]);
+      setDiff(diffTransactions(left, right));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load transactions for comparison.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const swap = () => {
+    setLeftHash(rightHash);
+    setRightHash(leftHash);
+    setDiff(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+      <h2 className="flex items-center gap-2 text-xl font-semibold mb-4">
+        <GitCompare className="w-5 h-5" />
+        Compare Transactions
+      </h2>
+
+      <form onSubmit={handleCompare} className="flex flex-col md:flex-row gap-2 mb-4">
+        <input
+          type="text"
+          value={leftHash}
+          onChange={(e) => setLeftHash(e.target.value)}
+          placeholder="Transaction A hash"
+          className="flex-1 px-4 py-2 font-mono text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          type="button"
+          onClick={swap}
+          className="p-2 text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50 self-center"
+          title="Swap A and B"
+        >
+          <ArrowLeftRight className="w-4 h-4" />
+        </button>
+        <input
+          type="text"
+          value={rightHash}
+          onChange={(e) => setRightHash(e.target.value)}
+          placeholder="Transaction B hash"
+          className="flex-1 px-4 py-2 font-mono text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={isLoading || !leftHash.trim() || !rightHash.trim()}
+          className="px-4 py-2 text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isLoading ? 'Loading...' : 'Compare'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-600">{error}</p>
+        </div>
+      )}
+
+      {diff && (
+        <>
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-sm text-gray-700">
+              {diff.differenceCount === 0
+                ? 'No differences found.'
+                : `${diff.differenceCount} difference${diff.differenceCount === 1 ? '' : 's'} found.`}
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={(e) => setShowUnchanged(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Show unchanged
+            </label>
+          </div>
+
+          <DiffTable title="Overview" entries={diff.overview} showUnchanged={showUnchanged} />
+          <DiffTable title="Function arguments" entries={diff.args} showUnchanged={showUnchanged} />
+          <DiffTable title="Authorization" entries={diff.auth} showUnchanged={showUnchanged} />
+          <DiffTable title="Footprint" entries={diff.footprint} showUnchanged={showUnchanged} />
+          <DiffCanvas title="State changes" entries={diff.stateChanges} type="stateChange" showUnchanged={showUnchanged} />
+          <DiffCanvas title="Events" entries={diff.events} type="event" showUnchanged={showUnchanged} />
+          <DiffTable title="Resource usage" entries={diff.resources} showUnchanged={showUnchanged} showDelta />
+        </>
+      )}
+    </div>
+  );
+}
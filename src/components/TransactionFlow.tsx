@@ -13,7 +13,7 @@ import ReactFlow, {
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 
-import { OperationNode, TransactionEffect, SorobanOperation, SimulationResult } from '../types/stellar';
+import { OperationNode, TransactionEffect, SorobanOperation, ContractInvocation } from '../types/stellar';
 import { OperationNodeComponent } from './OperationNode';
 import { StateChangeNode } from './StateChangeNode';
 import { EventNode } from './EventNode';
@@ -32,10 +32,15 @@ interface TransactionFlowProps {
   edges: Edge[];
   effects?: TransactionEffect[];
   sorobanOperations?: SorobanOperation[];
-  simulationResult?: SimulationResult;
+  // Contract call hierarchy; when present the flow is laid out as a call tree
+  callTree?: ContractInvocation[];
 }
 
-function TransactionFlowInner({ nodes, edges, effects = [], sorobanOperations = [], simulationResult }: TransactionFlowProps) {
+// Calls in call order, each with the id of the call that made it
+const flattenCallTree = (calls: ContractInvocation[], parentId?: string): Array<{ call: ContractInvocation; parentId?: string }> =>
+  calls.flatMap(call => [{ call, parentId }, ...flattenCallTree(call.children, call.id)]);
+
+function TransactionFlowInner({ nodes, edges, effects = [], sorobanOperations = [], callTree = [] }: TransactionFlowProps) {
   const [layoutMode, setLayoutMode] = useState<'horizontal' | 'staggered'>('staggered');
   const [showConnections, setShowConnections] = useState(true);
   const [executionStep, setExecutionStep] = useState(-1);
@@ -93,95 +98,10 @@ function TransactionFlowInner({ nodes, edges, effects = [], sorobanOperations =
   }, [isPlaying, executionStep, nodes.length, executionSpeed]);
 
   const adjustedNodes = React.useMemo(() => {
-    // Build a tree structure from diagnostic logs if available
-    const buildHierarchicalLayout = () => {
-      // Check if we have simulation results with diagnostic logs
-      if (!simulationResult?.enhancedDebugInfo?.operationBreakdown) {
-        return null;
-      }
-
-      const operationBreakdown = simulationResult.enhancedDebugInfo.operationBreakdown;
-      if (!operationBreakdown || operationBreakdown.length === 0) {
-        return null;
-      }
-
-      // Get logs from the first operation
-      const logs = operationBreakdown[0]?.logs || [];
-      if (logs.length === 0) {
-        return null;
-      }
-
-      // Parse contract calls from diagnostic logs
-      const callStack: Array<{id: string; level: number; parent: number; contract: string; fn: string; args: string; result: string; type: 'invoke' | 'event' | 'effect'}> = [];
-      let callIndex = 0;
-
-      logs.forEach((log: string, idx: number) => {
-        // Match: "Invoked contract CDLZ...IGWA harvest(GDTL...YZFE, 102954u32) → 13049517i128"
-        const invokeMatch = log.match(/^( *)Invoked contract ([A-Z0-9]{4})…([A-Z0-9]{4}) ([a-zA-Z_]+)\(([^)]*)\)( → (.+))?/);
-
-        // Match: "GD3I...5QZS invoked contract CBGS...KKY3 harvest(...) → [...]"
-        const topLevelMatch = log.match(/^([A-Z0-9]{4})…([A-Z0-9]{4}) invoked contract ([A-Z0-9]{4})…([A-Z0-9]{4}) ([a-zA-Z_]+)\(([^)]*)\)( → (.+))?/);
-
-        // Match minted/credited effects: "1.3049517 KALE... minted" or "11.7302525 KALE... credited to account GDTL...YZFE"
-        const effectMatch = log.match(/^ *([0-9.]+) ([A-Z]+)[^ ]* (minted|credited|transferred|burned)/);
-
-        // Match events: "Contract CB23...OUOV raised event [...] with data ..."
-        const eventMatch = log.match(/^ *Contract ([A-Z0-9]{4})…([A-Z0-9]{4}) raised event/);
-
-        if (topLevelMatch) {
-          // Top-level invocation
-          const [, accountStart, accountEnd, contractStart, contractEnd, fn, args, , result] = topLevelMatch;
-          callStack.push({
-            id: `call-${callIndex++}`,
-            level: 0,
-            parent: -1,
-            contract: `${contractStart}…${contractEnd}`,
-            fn: fn,
-            args: args || '',
-            result: result || '',
-            type: 'invoke'
-          });
-        } else if (invokeMatch) {
-          // Nested invocation
-          const [, indent, contractStart, contractEnd, fn, args, , result] = invokeMatch;
-          const level = Math.floor(indent.length / 1) + 1; // Each space = 1 level deeper
-
-          callStack.push({
-            id: `call-${callIndex++}`,
-            level: level,
-            parent: callStack.length > 0 ? callStack.length - 1 : -1,
-            contract: `${contractStart}…${contractEnd}`,
-            fn: fn,
-            args: args || '',
-            result: result || '',
-            type: 'invoke'
-          });
-        } else if (effectMatch) {
-          // Effects like minted/credited
-          const [, amount, asset, action] = effectMatch;
-          const indent = log.match(/^ */)![0].length;
-          const level = Math.floor(indent / 1) + 1;
-
-          callStack.push({
-            id: `effect-${callIndex++}`,
-            level: level,
-            parent: callStack.length > 0 ? callStack.length - 1 : -1,
-            contract: asset,
-            fn: action,
-            args: amount,
-            result: '',
-            type: 'effect'
-          });
-        }
-      });
-
-      return callStack.filter(c => c.type === 'invoke'); // Only show contract invocations for now
-    };
-
-    const hierarchy = buildHierarchicalLayout();
+    const hierarchy = flattenCallTree(callTree);
 
     // If we have hierarchical data, use tree layout
-    if (hierarchy && hierarchy.length > 0) {
+    if (hierarchy.length > 0) {
       const nodeWidth = 320;
       const nodeHeight = 140;
       const horizontalGap = 80;
@@ -189,9 +109,9 @@ function TransactionFlowInner({ nodes, edges, effects = [], sorobanOperations =
 
       // Group by level
       const levels: typeof hierarchy[] = [];
-      hierarchy.forEach(call => {
-        if (!levels[call.level]) levels[call.level] = [];
-        levels[call.level].push(call);
+      hierarchy.forEach(entry => {
+        if (!levels[entry.call.depth]) levels[entry.call.depth] = [];
+        levels[entry.call.depth].push(entry);
       });
 
       // Calculate total width needed for each level
@@ -199,16 +119,17 @@ function TransactionFlowInner({ nodes, edges, effects = [], sorobanOperations =
       const maxWidth = Math.max(...levelWidths);
 
       // Position nodes
-      const layoutNodes = hierarchy.map((call, index) => {
-        const levelNodes = levels[call.level];
-        const posInLevel = levelNodes.indexOf(call);
+      const layoutNodes = hierarchy.map((entry, index): Node => {
+        const { call, parentId } = entry;
+        const levelNodes = levels[call.depth];
+        const posInLevel = levelNodes.indexOf(entry);
         const totalInLevel = levelNodes.length;
         const levelWidth = totalInLevel * (nodeWidth + horizontalGap);
 
         // Center the level horizontally
         const levelStartX = (maxWidth - levelWidth) / 2;
         const xPos = levelStartX + posInLevel * (nodeWidth + horizontalGap) + nodeWidth / 2;
-        const yPos = call.level * levelHeight + 100;
+        const yPos = call.depth * levelHeight + 100;
 
         const isExecuted = index <= executionStep;
         const isExecuting = index === executionStep;
@@ -219,12 +140,19 @@ function TransactionFlowInner({ nodes, edges, effects = [], sorobanOperations =
           position: { x: xPos, y: yPos },
           data: {
             type: 'invoke_host_function',
-            contractId: call.contract,
-            functionName: call.fn,
+            contractId: call.contractId,
+            wasmHash: call.wasmHash,
+            functionName: call.functionName,
+            sourceAccount: call.caller,
             args: call.args,
+            typedArgs: call.args,
             result: call.result,
-            level: call.level,
-            executionState: executionStep === -1 ? undefined : (isExecuting ? 'executing' : (isExecuted ? 'completed' : 'pending')),
+            typedResult: call.result,
+            level: call.depth,
+            parentId,
+            executionState: executionStep === -1
+              ? undefined
+              : (isExecuting ? 'executing' : (isExecuted ? (call.success ? 'completed' : 'failed') : 'pending')),
             isExecuting,
           },
           style: {
@@ -286,7 +214,7 @@ function TransactionFlowInner({ nodes, edges, effects = [], sorobanOperations =
         },
       };
     });
-  }, [nodes, executionStep, layoutMode, simulationResult]);
+  }, [nodes, executionStep, layoutMode, callTree]);
 
   const adjustedEdges = React.useMemo(() => {
     if (!showConnections) return [];
@@ -295,52 +223,34 @@ function TransactionFlowInner({ nodes, edges, effects = [], sorobanOperations =
     const isHierarchical = adjustedNodes.some(n => n.data.level !== undefined);
 
     if (isHierarchical) {
-      // Create edges based on parent-child relationships
+      // Each call is connected to the call that made it
       const hierarchicalEdges: Edge[] = [];
-
-      // Build parent-child map from adjusted nodes
-      const nodesByLevel: any[][] = [];
-      adjustedNodes.forEach(node => {
-        const level = node.data.level || 0;
-        if (!nodesByLevel[level]) nodesByLevel[level] = [];
-        nodesByLevel[level].push(node);
-      });
-
-      // Connect each node to its parent (node from previous level)
-      for (let level = 1; level < nodesByLevel.length; level++) {
-        const currentLevelNodes = nodesByLevel[level] || [];
-        const parentLevelNodes = nodesByLevel[level - 1] || [];
-
-        // Simple strategy: connect to the parent that called it
-        // For now, connect first child to first parent, etc.
-        currentLevelNodes.forEach((childNode, idx) => {
-          const parentNode = parentLevelNodes[Math.floor(idx / Math.max(1, currentLevelNodes.length / parentLevelNodes.length))];
-          if (parentNode) {
-            const sourceIndex = adjustedNodes.findIndex(n => n.id === parentNode.id);
-            const isActive = sourceIndex <= executionStep;
-
-            hierarchicalEdges.push({
-              id: `edge-${parentNode.id}-${childNode.id}`,
-              source: parentNode.id,
-              target: childNode.id,
-              type: 'smoothstep',
-              markerEnd: {
-                type: MarkerType.ArrowClosed,
-                width: 25,
-                height: 25,
-                color: isActive ? '#10b981' : '#2563eb',
-              },
-              style: {
-                stroke: isActive ? '#10b981' : '#2563eb',
-                strokeWidth: isActive ? 3 : 2,
-                opacity: executionStep === -1 ? 1 : (isActive ? 1 : 0.3),
-                transition: 'all 0.3s ease-in-out',
-              },
-              animated: isActive,
-            });
-          }
+      adjustedNodes.forEach(childNode => {
+        const parentId = childNode.data.parentId;
+        if (!parentId) return;
+
+        const sourceIndex = adjustedNodes.findIndex(n => n.id === parentId);
+        const isActive = sourceIndex <= executionStep;
+        hierarchicalEdges.push({
+          id: `edge-${parentId}-${childNode.id}`,
+          source: parentId,
+          target: childNode.id,
+          type: 'smoothstep',
+          markerEnd: {
+            type: MarkerType.ArrowClosed,
+            width: 25,
+            height: 25,
+            color: isActive ? '#10b981' : '#2563eb',
+          },
+          style: {
+            stroke: isActive ? '#10b981' : '#2563eb',
+            strokeWidth: isActive ? 3 : 2,
+            opacity: executionStep === -1 ? 1 : (isActive ? 1 : 0.3),
+            transition: 'all 0.3s ease-in-out',
+          },
+          animated: isActive,
         });
-      }
+      });
 
       return hierarchicalEdges;
     }
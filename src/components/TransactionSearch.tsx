@@ -31,7 +31,7 @@ export function TransactionSearch({ onSearch, isLoading }: TransactionSearchProp
             type="text"
             value={searchValue}
             onChange={(e) => setSearchValue(e.target.value)}
-            placeholder="Enter Stellar transaction hash..."
+            placeholder="Enter transaction hash, account (G... / M...), contract (C...) or ledger (number or latest)"
             className="w-full pl-10 pr-10 py-3 text-gray-900 bg-white border border-gray-200 rounded-lg
                      focus:ring-2 focus:ring-blue-500 focus:border-transparent
                      placeholder:text-gray-400"
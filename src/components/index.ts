@@ -2,7 +2,19 @@ export { TransactionFlow } from './TransactionFlow';
 export { TransactionSearch } from './TransactionSearch';
 export { TransactionDetails } from './TransactionDetails';
 export { SimulationPanel } from './SimulationPanel';
+export { ResourceHeadroom } from './ResourceHeadroom';
+export { FeeBreakdown } from './FeeBreakdown';
 export { ContractFlowDiagram } from './ContractFlowDiagram';
+export { ContractFlameGraph } from './ContractFlameGraph';
 export { ContractEventsFlow } from './ContractEventsFlow';
 export { ContractSimulator } from './ContractSimulator';
+export { SpecArgumentForm } from './SpecArgumentForm';
 export { NetworkSelector } from './NetworkSelector';
+export { AccountHistory } from './AccountHistory';
+export { ContractActivity } from './ContractActivity';
+export { LedgerBrowser } from './LedgerBrowser';
+export { LiveFeed } from './LiveFeed';
+export { TransactionDiff, InvocationDiff } from './TransactionDiff';
+export { AuthorizationTree } from './AuthorizationTree';
+export { SubmitSimulatedTransaction } from './SubmitSimulatedTransaction';
+export { ExportSimulatedTransaction } from './ExportSimulatedTransaction';
@@ -1,24 +1,198 @@
-import { NetworkConfig, TransactionDetails, SorobanOperation, ContractEvent, StateChange, CrossContractCall, TransactionEffect } from '../types/stellar';
-import { fetchTransaction, setNetwork, decodeScVal } from '../services/stellar';
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { NetworkConfig, NetworkConfigInput, TransactionDetails, TransactionXdrInput, AccountTransactionQuery, AccountTransactionPage, ContractActivityQuery, ContractActivityPage, LedgerSnapshot, LedgerSorobanUsage, SorobanUsageOptions, TransactionStream, TransactionStreamOptions, TransactionStreamTarget, TransactionDiff, ContractSpec, SorobanNetworkSettings, SorobanResourceAmounts, HeadroomThresholds, ResourceHeadroom, SorobanFeeConfig, SorobanFeeReconciliation, SorobanOperation, DecodedAuthorization, ContractEvent, StateChange, CrossContractCall, ContractInvocation, TransactionEffect, TransactionSigner, SubmitTransactionOptions, SubmittedTransaction, ExportTransactionOptions, UnsignedTransactionExport, SimulationFork, ForkSimulationResult, TypedScVal } from '../types/stellar';
+import { StellarService, getDefaultService, decodeScVal } from '../services/stellar';
+import { diffTransactions } from '../services/diff';
+import { decodeAuthorizationEntries } from '../services/auth';
+import { forkTransaction } from '../services/fork';
+import { analyzeResourceHeadroom } from '../services/networkSettings';
+import { reconcileTransactionFee } from '../services/feeModel';
 
 export class StellarTransactionVisualizer {
-  constructor(config?: Partial<NetworkConfig>) {
+  // Instances created without a config follow the module-level network set via setNetwork()
+  private service: StellarService | null = null;
+
+  constructor(config?: NetworkConfigInput) {
     if (config) {
-      setNetwork({
-        isTestnet: config.isTestnet ?? true,
-        networkUrl: config.networkUrl ?? 'https://horizon-testnet.stellar.org',
-        networkPassphrase: config.networkPassphrase ?? 'Test SDF Network ; September 2015',
-      });
+      this.setNetwork(config);
     }
   }
 
+  private get activeService(): StellarService {
+    return this.service ?? getDefaultService();
+  }
+
+  /**
+   * Network configuration used by this instance
+   */
+  get networkConfig(): NetworkConfig {
+    return this.activeService.networkConfig;
+  }
+
   /**
    * Fetches and analyzes a transaction
    * @param hash Transaction hash
    * @returns Detailed transaction information including Soroban operations and events
    */
   async getTransactionDetails(hash: string): Promise<TransactionDetails> {
-    return fetchTransaction(hash);
+    return this.activeService.fetchTransaction(hash);
+  }
+
+  /**
+   * Analyzes a transaction from its XDR without any network calls
+   * @param input Envelope, result and meta XDR (base64)
+   * @returns Detailed transaction information decoded from the supplied XDR
+   */
+  async analyzeTransactionXdr(input: TransactionXdrInput): Promise<TransactionDetails> {
+    return this.activeService.analyzeTransactionXdr(input);
+  }
+
+  /**
+   * Lists an account's transactions, newest first
+   * @param address Account address (G... or muxed M...)
+   * @param query Page size, cursor from a previous page and optional filters
+   * @returns Matching transaction summaries and the cursor for the next page
+   */
+  async getAccountTransactions(address: string, query?: AccountTransactionQuery): Promise<AccountTransactionPage> {
+    return this.activeService.fetchAccountTransactions(address, query);
+  }
+
+  /**
+   * Lists recent invocations of a contract, newest first
+   * @param contractId Contract address (C...)
+   * @param query Minimum number of invocations and cursor from a previous page
+   * @returns Invocations with function, caller, status and fee, and the cursor for older ledgers
+   */
+  async getContractActivity(contractId: string, query?: ContractActivityQuery): Promise<ContractActivityPage> {
+    return this.activeService.fetchContractActivity(contractId, query);
+  }
+
+  /**
+   * Fetches a ledger and every transaction in it
+   * @param ledger Ledger sequence, or 'latest'
+   * @returns Ledger header fields and transaction summaries in application order
+   */
+  async getLedger(ledger: number | 'latest'): Promise<LedgerSnapshot> {
+    return this.activeService.fetchLedger(ledger);
+  }
+
+  /**
+   * Analyzes the Soroban transactions of a ledger and collects their resource usage
+   * @param ledger Ledger returned by getLedger
+   * @param options Progress callback and abort signal
+   * @returns CPU, memory, I/O and fee per Soroban transaction; sum them with sumLedgerResources
+   */
+  async getLedgerSorobanUsage(ledger: LedgerSnapshot, options?: SorobanUsageOptions): Promise<LedgerSorobanUsage[]> {
+    return this.activeService.fetchSorobanUsage(ledger.transactions, options);
+  }
+
+  /**
+   * Watches an account or contract and decodes each new transaction as it lands
+   * @param target Account (G.../M...) or contract (C...) to watch
+   * @param options onTransaction/onError callbacks and poll interval (default 5000ms)
+   * @returns Handle whose stop() ends the subscription; pause() and resume() keep its position
+   */
+  watchTransactions(target: TransactionStreamTarget, options: TransactionStreamOptions): TransactionStream {
+    return this.activeService.watchTransactions(target, options);
+  }
+
+  /**
+   * Fetches two transactions and compares them section by section
+   * @param leftHash Hash of transaction A
+   * @param rightHash Hash of transaction B
+   * @returns Added/removed/changed entries for args, auth, footprint, state changes, events and resources
+   */
+  async compareTransactions(leftHash: string, rightHash: string): Promise<TransactionDiff> {
+    const [left, right] = await Promise.all([
+      this.activeService.fetchTransaction(leftHash),
+      this.activeService.fetchTransaction(rightHash)
+    ]);
+    return diffTransactions(left, right);
+  }
+
+  /**
+   * Reads a contract's interface from the contractspecv0 section of its on-chain WASM
+   * @param contractId Contract address (C...)
+   * @returns Functions with parameter names and types, user-defined structs/unions/enums and error enums
+   */
+  async getContractSpec(contractId: string): Promise<ContractSpec> {
+    return this.activeService.fetchContractSpec(contractId);
+  }
+
+  /**
+   * Same as getContractSpec, for a WASM hash already known, e.g. from contract instance data
+   * @param wasmHash Hex-encoded WASM hash
+   */
+  async getContractSpecByHash(wasmHash: string): Promise<ContractSpec> {
+    return this.activeService.fetchContractSpecByHash(wasmHash);
+  }
+
+  /**
+   * Reads the network's per-transaction Soroban limits and fee rates from its ConfigSetting entries
+   * @param options refresh: read them again instead of using the cached copy
+   */
+  async getSorobanSettings(options?: { refresh?: boolean }): Promise<SorobanNetworkSettings> {
+    return this.activeService.fetchSorobanSettings(options);
+  }
+
+  /**
+   * Compares resource usage with the network's per-transaction limits
+   * @param usage Amounts used; resources left out are skipped
+   * @param thresholds Fractions of a limit that count as warning and critical (default 0.75 and 0.9)
+   * @returns One entry per resource with used, limit, ratio and level
+   */
+  async getResourceHeadroom(usage: SorobanResourceAmounts, thresholds?: HeadroomThresholds): Promise<ResourceHeadroom[]> {
+    return analyzeResourceHeadroom(usage, await this.activeService.fetchSorobanSettings(), thresholds);
+  }
+
+  /**
+   * Recomputes a Soroban transaction's resource fee per component and compares it with what it paid
+   * @param transaction Fetched or analyzed transaction; needs its envelope XDR in debugInfo
+   * @param config Fee settings to price with, e.g. a saved getSorobanSettings() result; defaults to the network's current ones
+   * @returns The breakdown, refund and explanations, or null for non-Soroban transactions
+   */
+  async getFeeBreakdown(transaction: TransactionDetails, config?: SorobanFeeConfig): Promise<SorobanFeeReconciliation | null> {
+    return reconcileTransactionFee(transaction, config || await this.activeService.fetchSorobanSettings());
+  }
+
+  /**
+   * Assembles a simulated contract call with its resources and fee, and signs it
+   * @param transaction Transaction that was simulated (one invokeHostFunction operation)
+   * @param simulation Successful simulateTransaction response for it
+   * @param signer Signer for the source account; it also signs address auth entries that belong to it
+   * @returns Signed envelope XDR, ready for submitTransaction
+   */
+  async signSimulatedTransaction(
+    transaction: StellarSdk.Transaction,
+    simulation: StellarSdk.rpc.Api.SimulateTransactionSuccessResponse,
+    signer: TransactionSigner,
+    options?: SubmitTransactionOptions
+  ): Promise<string> {
+    return this.activeService.signSimulatedTransaction(transaction, simulation, signer, options);
+  }
+
+  /**
+   * Submits a signed transaction through RPC and waits until it is included in a ledger
+   * @param signedXdr Signed envelope XDR
+   * @param options Status callback, poll interval and timeout
+   * @returns Hash, final status and ledger; load the details with getTransactionDetails
+   */
+  async submitTransaction(signedXdr: string, options?: SubmitTransactionOptions): Promise<SubmittedTransaction> {
+    return this.activeService.submitTransaction(signedXdr, options);
+  }
+
+  /**
+   * Assembles a simulated contract call into an unsigned envelope for external signers
+   * @param transaction Transaction that was simulated (one invokeHostFunction operation)
+   * @param simulation Successful simulateTransaction response for it
+   * @param options Inclusion fee, timeout or time bounds, memo and SEP-7 message
+   * @returns Envelope XDR with resources and fee applied, its hash and a SEP-7 URI
+   */
+  async exportSimulatedTransaction(
+    transaction: StellarSdk.Transaction,
+    simulation: StellarSdk.rpc.Api.SimulateTransactionSuccessResponse,
+    options?: ExportTransactionOptions
+  ): Promise<UnsignedTransactionExport> {
+    return this.activeService.exportSimulatedTransaction(transaction, simulation, options);
   }
 
   /**
@@ -30,6 +204,36 @@ export class StellarTransactionVisualizer {
     return transaction.sorobanOperations || [];
   }
 
+  /**
+   * Decodes the Soroban authorization entries of every operation in a transaction
+   * @param transaction Transaction details
+   * @returns Credentials (source account or address with nonce, expiration and signature) and the authorized invocation tree of each entry
+   */
+  getAuthorizations(transaction: TransactionDetails): DecodedAuthorization[] {
+    return (transaction.sorobanOperations || []).flatMap(op =>
+      decodeAuthorizationEntries(op.auth, this.networkConfig.networkPassphrase)
+    );
+  }
+
+  /**
+   * Takes the contract call out of a transaction so it can be simulated again
+   * @param transaction Transaction details with envelope and meta XDR
+   * @returns Contract, function, typed args and source account, plus the original result, contract events and declared resources
+   */
+  forkTransaction(transaction: TransactionDetails): SimulationFork {
+    return forkTransaction(transaction);
+  }
+
+  /**
+   * Simulates a forked contract call against current ledger state and compares it with the original
+   * @param fork Result of forkTransaction
+   * @param args Replacement arguments (defaults to the original ones)
+   * @returns The simulation outcome and its diff against the original result, events and resources
+   */
+  async resimulateTransaction(fork: SimulationFork, args?: TypedScVal[]): Promise<ForkSimulationResult> {
+    return this.activeService.resimulateFork(fork, args);
+  }
+
   /**
    * Gets contract events emitted during transaction execution
    * @param transaction Transaction details
@@ -63,6 +267,15 @@ export class StellarTransactionVisualizer {
     return transaction.crossContractCalls || [];
   }
 
+  /**
+   * Gets the contract call tree rebuilt from fn_call/fn_return diagnostic events
+   * @param transaction Transaction details
+   * @returns Top-level calls, each with caller, decoded args, return value, depth, success, reported resources and nested calls
+   */
+  getCallTree(transaction: TransactionDetails): ContractInvocation[] {
+    return transaction.callTree || [];
+  }
+
   /**
    * Gets transaction effects
    * @param transaction Transaction details
@@ -75,32 +288,115 @@ export class StellarTransactionVisualizer {
   /**
    * Decodes a Soroban ScVal to human-readable format
    * @param scVal ScVal to decode
+   * @param options Set typed to get a TypedScVal tree that keeps every ScVal type
    * @returns Decoded value
    */
-  decodeScVal(scVal: any): any {
-    return decodeScVal(scVal);
+  decodeScVal(scVal: any, options: { typed?: boolean } = {}): any {
+    return decodeScVal(scVal, options);
   }
 
   /**
-   * Changes the network configuration
+   * Changes the network configuration of this instance only
    * @param config Network configuration
    */
-  setNetwork(config: NetworkConfig): void {
-    setNetwork(config);
+  setNetwork(config: NetworkConfigInput): void {
+    // Without a network id, URL or legacy flag the SDK has always defaulted to testnet
+    const hasNetworkHint = config.networkId || config.networkUrl || config.isTestnet !== undefined;
+    this.service = new StellarService(hasNetworkHint ? config : { ...config, networkId: 'testnet' });
   }
 }
 
 // Export standalone functions for direct use
-export { fetchTransaction, setNetwork, decodeScVal } from '../services/stellar';
+export { StellarService, fetchTransaction, analyzeTransactionXdr, fetchAccountTransactions, fetchContractActivity, fetchLedger, fetchLedgerSorobanUsage, watchTransactions, fetchContractSpec, fetchContractSpecByHash, fetchSorobanSettings, signSimulatedTransaction, submitTransaction, exportSimulatedTransaction, resimulateTransaction, setNetwork, decodeScVal } from '../services/stellar';
+export { forkTransaction, snapshotSimulation } from '../services/fork';
+export { buildCallTree, extractCallTree } from '../services/callTree';
+export { analyzeResourceHeadroom, measureSimulatedResources, DEFAULT_HEADROOM_THRESHOLDS } from '../services/networkSettings';
+export { computeSorobanFee, computeRentFee, computeRentFee1Kb, reconcileSorobanFee, reconcileTransactionFee, sorobanFeeInputsFromXdr } from '../services/feeModel';
+export { keypairSigner, sep7TransactionUri } from '../services/submit';
+export { summarizeContractActivity } from '../services/contractActivity';
+export { sumLedgerResources } from '../services/ledger';
+export { diffTransactions, diffInvocationSnapshots } from '../services/diff';
+export { parseContractSpec, labelArguments, formatSpecType, findRecordedWasmHash } from '../services/contractSpec';
+export { buildSpecArguments, specValueToScVal } from '../services/specArgs';
+export { typedScValToScVal, scValToTypedScVal, isTypedScVal, formatTypedScVal } from '../services/typedArgs';
+export { decodeAuthorizationEntry, decodeAuthorizationEntries, summarizeAuthRequirements } from '../services/auth';
+export { registerContractErrors, resolveContractError, formatContractError, findContractErrorsInEvents, findContractErrorsInMeta } from '../services/contractErrors';
+export { createTransport } from '../services/transport';
+export { BUILT_IN_NETWORKS, loadNetworks, saveNetworks, resolveNetworkConfig } from '../services/networks';
 
 // Export types for SDK users
 export type {
   NetworkConfig,
+  NetworkConfigInput,
+  NetworkDefinition,
+  Transport,
+  TransportOptions,
   TransactionDetails,
+  TransactionXdrInput,
+  AccountTransactionFilters,
+  AccountTransactionQuery,
+  AccountTransactionSummary,
+  AccountTransactionPage,
+  ContractActivityQuery,
+  ContractInvocationSummary,
+  ContractActivityPage,
+  ContractFunctionStats,
+  LedgerSnapshot,
+  LedgerSorobanUsage,
+  LedgerResourceTotals,
+  SorobanUsageOptions,
+  TransactionStreamTarget,
+  TransactionStreamOptions,
+  TransactionStream,
+  TransactionSigner,
+  SubmissionStatus,
+  SubmitTransactionOptions,
+  SubmittedTransaction,
+  TransactionMemoType,
+  ExportTransactionOptions,
+  UnsignedTransactionExport,
+  InvocationSnapshot,
+  SimulationFork,
+  ForkComparison,
+  ForkSimulationResult,
+  DiffEntry,
+  TransactionDiff,
+  ContractSpec,
+  SorobanTransactionLimits,
+  SorobanResourceAmounts,
+  SorobanFeeRates,
+  SorobanNetworkSettings,
+  HeadroomThresholds,
+  ResourceHeadroom,
+  SorobanRentSettings,
+  SorobanFeeConfig,
+  SorobanFeeResources,
+  LedgerEntryRentChange,
+  SorobanFeeComponent,
+  SorobanFeeBreakdown,
+  SorobanFeeReconciliation,
+  ContractSpecFunction,
+  ContractSpecField,
+  ContractSpecStruct,
+  ContractSpecUnion,
+  ContractSpecEnum,
+  ContractSpecTypeDef,
+  SpecFormValue,
+  TypedScVal,
+  ContractErrorInfo,
+  ContractErrorMapping,
+  LabeledArgument,
   SorobanOperation,
+  DecodedAuthorization,
+  AuthorizedInvocation,
+  AuthRequirementReport,
+  AuthSignerRequirement,
   ContractEvent,
   StateChange,
   CrossContractCall,
+  ContractInvocation,
+  ContractCallTree,
+  CallResourceUsage,
   TransactionEffect,
   ResourceUsage,
   TtlExtension,
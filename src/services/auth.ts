@@ -0,0 +1,180 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { Buffer } from 'buffer';
+import type { AuthorizedInvocation, AuthRequirementReport, AuthSignerRequirement, DecodedAuthorization } from '../types/stellar';
+import { scValToTypedScVal } from './typedArgs';
+
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+// Address of a contract deployed from this preimage; it depends on the network, so it is only
+// worked out when the passphrase is known
+const deployedContractId = (preimage: any, networkPassphrase?: string): string | undefined => {
+  if (!networkPassphrase) return undefined;
+  try {
+    const hashPreimage = StellarSdk.xdr.HashIdPreimage.envelopeTypeContractId(new StellarSdk.xdr.HashIdPreimageContractId({
+      networkId: StellarSdk.hash(Buffer.from(networkPassphrase)),
+      contractIdPreimage: preimage
+    }));
+    return StellarSdk.StrKey.encodeContract(StellarSdk.hash(hashPreimage.toXDR()));
+  } catch {
+    return undefined;
+  }
+};
+
+const decodeInvocation = (invocation: any, networkPassphrase?: string): AuthorizedInvocation => {
+  const fn = invocation.function();
+  const subInvocations = invocation.subInvocations().map((sub: any) => decodeInvocation(sub, networkPassphrase));
+
+  if (fn.switch().name === 'sorobanAuthorizedFunctionTypeContractFn') {
+    const call = fn.contractFn();
+    return {
+      type: 'contractFn',
+      contractId: StellarSdk.Address.fromScAddress(call.contractAddress()).toString(),
+      functionName: call.functionName().toString(),
+      args: call.args().map(scValToTypedScVal),
+      subInvocations
+    };
+  }
+
+  // createContractHostFn and createContractV2HostFn; only V2 carries constructor arguments
+  const isV2 = fn.switch().name === 'sorobanAuthorizedFunctionTypeCreateContractV2HostFn';
+  const create = isV2 ? fn.createContractV2HostFn() : fn.createContractHostFn();
+  const preimage = create.contractIdPreimage();
+  const executable = create.executable();
+  const fromAddress = preimage.switch().name === 'contractIdPreimageFromAddress' ? preimage.fromAddress() : null;
+
+  return {
+    type: 'createContract',
+    contractId: deployedContractId(preimage, networkPassphrase),
+    args: isV2 ? create.constructorArgs().map(scValToTypedScVal) : [],
+    executable: executable.switch().name === 'contractExecutableWasm' ? toHex(executable.wasmHash()) : 'stellar_asset',
+    deployer: fromAddress ? StellarSdk.Address.fromScAddress(fromAddress.address()).toString() : undefined,
+    salt: fromAddress ? toHex(fromAddress.salt()) : undefined,
+    subInvocations
+  };
+};
+
+// Public keys of a standard account signature, a vec of { public_key: BytesN<32>, signature }
+// maps. Custom (contract) accounts define their own signature shape and return nothing here
+const signaturePublicKeys = (signature: any): string[] => {
+  if (signature.switch().name !== 'scvVec') return [];
+  const keys: string[] = [];
+  (signature.vec() || []).forEach((item: any) => {
+    if (item.switch().name !== 'scvMap') return;
+    const publicKey = (item.map() || []).find((entry: any) =>
+      entry.key().switch().name === 'scvSymbol' && entry.key().sym().toString() === 'public_key'
+    );
+    if (publicKey?.val().switch().name === 'scvBytes' && publicKey.val().bytes().length === 32) {
+      keys.push(StellarSdk.StrKey.encodeEd25519PublicKey(Buffer.from(publicKey.val().bytes())));
+    }
+  });
+  return keys;
+};
+
+// Decodes a SorobanAuthorizationEntry, given as base64 XDR or as an xdr object
+export const decodeAuthorizationEntry = (entry: any, networkPassphrase?: string): DecodedAuthorization => {
+  const parsed = typeof entry === 'string' ? StellarSdk.xdr.SorobanAuthorizationEntry.fromXDR(entry, 'base64') : entry;
+  const credentials = parsed.credentials();
+  const decoded: DecodedAuthorization = {
+    credentialType: 'sourceAccount',
+    signed: true,
+    rootInvocation: decodeInvocation(parsed.rootInvocation(), networkPassphrase),
+    xdr: parsed.toXDR('base64')
+  };
+
+  if (credentials.switch().name === 'sorobanCredentialsAddress') {
+    const address = credentials.address();
+    const signature = address.signature();
+    const publicKeys = signaturePublicKeys(signature);
+    decoded.credentialType = 'address';
+    decoded.signer = StellarSdk.Address.fromScAddress(address.address()).toString();
+    decoded.nonce = address.nonce().toString();
+    decoded.signatureExpirationLedger = address.signatureExpirationLedger();
+    decoded.signed = signature.switch().name !== 'scvVoid';
+    decoded.signature = scValToTypedScVal(signature);
+    if (publicKeys.length > 0) {
+      decoded.signaturePublicKeys = publicKeys;
+    }
+  }
+
+  return decoded;
+};
+
+// Decodes the auth entries of an operation, skipping any that do not parse
+export const decodeAuthorizationEntries = (entries: any[] | undefined, networkPassphrase?: string): DecodedAuthorization[] => {
+  const decoded: DecodedAuthorization[] = [];
+  (entries || []).forEach(entry => {
+    try {
+      decoded.push(decodeAuthorizationEntry(entry, networkPassphrase));
+    } catch {
+    }
+  });
+  return decoded;
+};
+
+const countInvocations = (invocation: AuthorizedInvocation): number =>
+  1 + invocation.subInvocations.reduce((count, sub) => count + countInvocations(sub), 0);
+
+// Groups the auth entries recorded by simulateTransaction by the address that has to sign them,
+// and notes where recording mode glosses over something a wallet will need to do
+export const summarizeAuthRequirements = (
+  entries: any[] | undefined,
+  options: { sourceAccount?: string; networkPassphrase?: string } = {}
+): AuthRequirementReport => {
+  const decoded = decodeAuthorizationEntries(entries, options.networkPassphrase);
+  const signers: AuthSignerRequirement[] = [];
+  const warnings: AuthRequirementReport['warnings'] = [];
+
+  decoded.forEach(entry => {
+    const signer = entry.credentialType === 'address' ? entry.signer! : options.sourceAccount || 'transaction source';
+    let requirement = signers.find(s => s.signer === signer && s.credentialType === entry.credentialType);
+    if (!requirement) {
+      requirement = {
+        signer,
+        credentialType: entry.credentialType,
+        isContract: StellarSdk.StrKey.isValidContract(signer),
+        entries: [],
+        nonces: []
+      };
+      signers.push(requirement);
+    }
+    requirement.entries.push(entry);
+    if (entry.nonce !== undefined) {
+      requirement.nonces.push(entry.nonce);
+    }
+  });
+
+  signers.forEach(requirement => {
+    const { signer } = requirement;
+    if (requirement.credentialType === 'sourceAccount') {
+      warnings.push({
+        signer,
+        message: `Recorded with source-account credentials, which only hold if ${signer} is the source of the submitted transaction. ` +
+          'If another account submits it, re-simulate with that source so this authorization becomes an address entry to sign.'
+      });
+      return;
+    }
+
+    if (requirement.entries.some(entry => !entry.signed || !entry.signatureExpirationLedger)) {
+      warnings.push({
+        signer,
+        message: 'Unsigned: the signer must set a signature expiration ledger and sign each entry. ' +
+          'Keep the recorded nonces; simulating again records new ones.'
+      });
+    }
+    if (requirement.isContract) {
+      warnings.push({
+        signer,
+        message: 'Contract account: recording mode does not run its __check_auth, so the simulated resources and footprint ' +
+          'do not cover signature verification. Simulate again with the signed entries before submitting.'
+      });
+    }
+    if (requirement.entries.some(entry => countInvocations(entry.rootInvocation) > 1)) {
+      warnings.push({
+        signer,
+        message: 'Authorizes nested calls as well as the root invocation; the wallet shows and signs the whole tree.'
+      });
+    }
+  });
+
+  return { entries: decoded, signers, warnings };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { Buffer } from 'buffer';
+import { buildCallTree } from './callTree';
+
+const x = StellarSdk.xdr;
+const SOURCE = StellarSdk.StrKey.encodeEd25519PublicKey(Buffer.alloc(32, 1));
+const TOKEN = Buffer.alloc(32, 2);
+const POOL = Buffer.alloc(32, 3);
+
+const sym = (text: string) => x.ScVal.scvSymbol(text);
+const u32 = (value: number) => x.ScVal.scvU32(value);
+
+const diagnostic = (emitter: Buffer | null, topics: any[], data: any) => new x.DiagnosticEvent({
+  inSuccessfulContractCall: true,
+  event: new x.ContractEvent({
+    ext: new (x.ExtensionPoint as any)(0),
+    contractId: emitter as any,
+    type: x.ContractEventType.diagnostic(),
+    body: new (x.ContractEventBody as any)(0, new x.ContractEventV0({ topics, data }))
+  })
+});
+
+const fnCall = (caller: Buffer | null, callee: Buffer, fn: string, data: any) =>
+  diagnostic(caller, [sym('fn_call'), x.ScVal.scvBytes(callee), sym(fn)], data);
+const fnReturn = (callee: Buffer, fn: string, data: any) => diagnostic(callee, [sym('fn_return'), sym(fn)], data);
+const metric = (name: string, value: number) => diagnostic(null, [sym('core_metrics'), sym(name)], x.ScVal.scvU64(x.Uint64.fromString(String(value))));
+
+describe('buildCallTree', () => {
+  it('nests calls by their caller and records results', () => {
+    const tree = buildCallTree([
+      fnCall(null, POOL, 'swap', x.ScVal.scvVec([u32(1), u32(2)])),
+      fnCall(POOL, TOKEN, 'transfer', u32(5)),
+      fnReturn(TOKEN, 'transfer', x.ScVal.scvVoid()),
+      fnReturn(POOL, 'swap', u32(9))
+    ], SOURCE);
+
+    expect(tree.calls).toHaveLength(1);
+    const [swap] = tree.calls;
+    expect(swap).toMatchObject({
+      depth: 0,
+      caller: SOURCE,
+      contractId: StellarSdk.StrKey.encodeContract(POOL),
+      functionName: 'swap',
+      args: [{ type: 'u32', value: 1 }, { type: 'u32', value: 2 }],
+      result: { type: 'u32', value: 9 },
+      success: true
+    });
+    expect(swap.children).toHaveLength(1);
+    expect(swap.children[0]).toMatchObject({
+      depth: 1,
+      caller: StellarSdk.StrKey.encodeContract(POOL),
+      functionName: 'transfer',
+      args: [{ type: 'u32', value: 5 }],
+      success: true
+    });
+  });
+
+  // try_call: the failed transfer never returns, and the pool's next call unwinds it
+  it('unwinds a failed call when its caller carries on', () => {
+    const tree = buildCallTree([
+      fnCall(null, POOL, 'swap', x.ScVal.scvVoid()),
+      fnCall(POOL, TOKEN, 'transfer', x.ScVal.scvVoid()),
+      fnCall(POOL, TOKEN, 'balance', x.ScVal.scvVoid()),
+      fnReturn(TOKEN, 'balance', u32(0)),
+      fnReturn(POOL, 'swap', x.ScVal.scvVoid())
+    ], SOURCE);
+
+    expect(tree.calls[0].children.map(call => [call.functionName, call.depth, call.success])).toEqual([
+      ['transfer', 1, false],
+      ['balance', 1, true]
+    ]);
+  });
+
+  it('reports core_metrics as the transaction totals only', () => {
+    const tree = buildCallTree([
+      fnCall(null, TOKEN, 'mint', x.ScVal.scvVoid()),
+      fnReturn(TOKEN, 'mint', x.ScVal.scvVoid()),
+      metric('cpu_insn', 1200),
+      metric('mem_byte', 800),
+      metric('read_entry', 3)
+    ], SOURCE);
+
+    expect(tree.metrics).toEqual({ cpu_insn: 1200, mem_byte: 800, read_entry: 3 });
+    expect(tree.resources).toEqual({
+      cpuInstructions: 1200,
+      memoryBytes: 800,
+      readEntries: 3,
+      writeEntries: 0,
+      readBytes: 0,
+      writeBytes: 0,
+      eventBytes: 0
+    });
+    expect(tree.calls[0]).not.toHaveProperty('resources');
+  });
+
+  it('has no totals without core_metrics', () => {
+    expect(buildCallTree([], SOURCE)).toEqual({ calls: [] });
+  });
+});
@@ -0,0 +1,167 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import type { CallResourceUsage, ContractCallTree, ContractInvocation, SorobanOperation, TypedScVal } from '../types/stellar';
+import { scValToTypedScVal } from './typedArgs';
+import { findRecordedWasmHash } from './contractSpec';
+
+const symbolOf = (scVal: any): string | null =>
+  scVal?.switch().name === 'scvSymbol' ? scVal.sym().toString() : null;
+
+// fn_call names the callee by its 32-byte contract hash, or as an address
+const contractOf = (scVal: any): string | null => {
+  switch (scVal?.switch().name) {
+    case 'scvBytes':
+      return scVal.bytes().length === 32 ? StellarSdk.StrKey.encodeContract(scVal.bytes()) : null;
+    case 'scvAddress':
+      return StellarSdk.Address.fromScAddress(scVal.address()).toString();
+    default:
+      return null;
+  }
+};
+
+// Diagnostic event data is Void for no arguments and the bare value for one, so a call taking
+// a single vec argument cannot be told apart from a call taking several
+const argumentsOf = (data: any): TypedScVal[] => {
+  switch (data.switch().name) {
+    case 'scvVoid':
+      return [];
+    case 'scvVec':
+      return (data.vec() || []).map(scValToTypedScVal);
+    default:
+      return [scValToTypedScVal(data)];
+  }
+};
+
+const METRIC_NAMES: Record<keyof CallResourceUsage, string> = {
+  cpuInstructions: 'cpu_insn',
+  memoryBytes: 'mem_byte',
+  readEntries: 'read_entry',
+  writeEntries: 'write_entry',
+  readBytes: 'ledger_read_byte',
+  writeBytes: 'ledger_write_byte',
+  eventBytes: 'emit_event_byte'
+};
+
+const RESOURCE_FIELDS = Object.keys(METRIC_NAMES) as Array<keyof CallResourceUsage>;
+
+const usageFromMetrics = (metrics: Record<string, number>): CallResourceUsage =>
+  Object.fromEntries(RESOURCE_FIELDS.map(field => [field, metrics[METRIC_NAMES[field]] || 0])) as unknown as CallResourceUsage;
+
+const lastIndexOfContract = (stack: ContractInvocation[], contractId: string) => {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (stack[i].contractId === contractId) return i;
+  }
+  return -1;
+};
+
+// Rebuilds the call hierarchy from fn_call/fn_return diagnostic events. A fn_call event is
+// emitted by the calling contract (none for calls made by the transaction) and a fn_return
+// event by the returning one. Calls without a fn_return failed; their caller may have caught
+// the error (try_call) and carried on, so they are unwound when the caller makes its next call.
+// core_metrics are the tree's totals: stellar-core reports them once per transaction, after the
+// host returns (while a failed transaction's calls are still open), so calls get no figures
+export const buildCallTree = (diagnosticEvents: any[], sourceAccount: string): ContractCallTree => {
+  const calls: ContractInvocation[] = [];
+  const stack: ContractInvocation[] = [];
+  let totals: Record<string, number> | undefined;
+  let callCount = 0;
+
+  diagnosticEvents.forEach(diagnosticEvent => {
+    try {
+      const event = diagnosticEvent.event();
+      if (event.type().name !== 'diagnostic') return;
+      const body = event.body().v0();
+      const topics = body.topics();
+      const emitter = event.contractId() ? StellarSdk.StrKey.encodeContract(event.contractId()) : null;
+
+      switch (symbolOf(topics[0])) {
+        case 'fn_call': {
+          const contractId = contractOf(topics[1]);
+          const functionName = symbolOf(topics[2]);
+          if (!contractId || functionName === null) return;
+
+          stack.splice(emitter ? lastIndexOfContract(stack, emitter) + 1 : 0);
+          const call: ContractInvocation = {
+            id: `call-${callCount++}`,
+            depth: stack.length,
+            caller: emitter || sourceAccount,
+            contractId,
+            functionName,
+            args: argumentsOf(body.data()),
+            success: false,
+            children: []
+          };
+          (stack.length > 0 ? stack[stack.length - 1].children : calls).push(call);
+          stack.push(call);
+          break;
+        }
+        case 'fn_return': {
+          const index = emitter ? lastIndexOfContract(stack, emitter) : -1;
+          if (index < 0 || stack[index].functionName !== symbolOf(topics[1])) return;
+
+          const [returned] = stack.splice(index);
+          returned.result = scValToTypedScVal(body.data());
+          returned.success = true;
+          break;
+        }
+        case 'core_metrics': {
+          const name = symbolOf(topics[1]);
+          if (name === null) return;
+
+          totals = { ...totals, [name]: Number(StellarSdk.scValToNative(body.data())) };
+          break;
+        }
+      }
+    } catch (e) {
+    }
+  });
+
+  return totals ? { calls, metrics: totals, resources: usageFromMetrics(totals) } : { calls };
+};
+
+// RPC getTransaction lists diagnostic events separately; otherwise they are in the meta when
+// the node that applied the transaction recorded them
+export const collectDiagnosticEvents = (metaXdr?: string, diagnosticEventsXdr?: string[]): any[] => {
+  try {
+    if (diagnosticEventsXdr && diagnosticEventsXdr.length > 0) {
+      return diagnosticEventsXdr.map(eventXdr => StellarSdk.xdr.DiagnosticEvent.fromXDR(eventXdr, 'base64'));
+    }
+    if (!metaXdr) return [];
+
+    const meta = StellarSdk.xdr.TransactionMeta.fromXDR(metaXdr, 'base64');
+    switch (meta.switch()) {
+      case 3:
+        return meta.v3().sorobanMeta()?.diagnosticEvents() || [];
+      case 4:
+        return (meta as any).v4().diagnosticEvents();
+      default:
+        return [];
+    }
+  } catch (e) {
+    return [];
+  }
+};
+
+export const extractCallTree = (sourceAccount: string, metaXdr?: string, diagnosticEventsXdr?: string[]): ContractCallTree =>
+  buildCallTree(collectDiagnosticEvents(metaXdr, diagnosticEventsXdr), sourceAccount);
+
+// Marks each call with the WASM its contract ran with, so its arguments are labeled from that
+// spec rather than the contract's current one. Top-level calls take their operation's hash
+export const recordCallWasmHashes = (
+  calls: ContractInvocation[],
+  operations: SorobanOperation[],
+  envelopeXdr?: string,
+  metaXdr?: string
+) => {
+  const found = new Map<string, string | undefined>();
+  const lookup = (contractId: string) => {
+    if (!found.has(contractId)) found.set(contractId, findRecordedWasmHash(contractId, envelopeXdr, metaXdr));
+    return found.get(contractId);
+  };
+  const visit = (call: ContractInvocation) => {
+    const wasmHash = (call.depth === 0 ? operations.find(op => op.contractId === call.contractId)?.wasmHash : undefined)
+      || lookup(call.contractId);
+    if (wasmHash) call.wasmHash = wasmHash;
+    call.children.forEach(visit);
+  };
+  calls.forEach(visit);
+};
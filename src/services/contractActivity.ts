@@ -0,0 +1,241 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import type {
+  ContractActivityPage,
+  ContractActivityQuery,
+  ContractFunctionStats,
+  ContractInvocation,
+  ContractInvocationSummary
+} from '../types/stellar';
+import type { StellarService } from './stellar';
+import { extractCallTree } from './callTree';
+
+const DEFAULT_PAGE_SIZE = 20;
+// Ledgers per backwards step. Small windows keep each step to a few getTransactions pages on mainnet
+const LEDGER_WINDOW = 10;
+const RPC_PAGE_SIZE = 200;
+// Upper bound on getTransactions requests per call; checked between windows
+const MAX_RPC_REQUESTS = 20;
+
+export const isContractAddress = (value: string): boolean => StellarSdk.StrKey.isValidContract(value);
+
+const addressToString = (scAddress: any): string => {
+  try {
+    return StellarSdk.Address.fromScAddress(scAddress).toString();
+  } catch {
+    return 'Unknown';
+  }
+};
+
+// Walks an authorization tree; nested contract calls that required auth name the function and
+// the contract that made the call, even though they never appear as top-level operations
+const collectAuthorizedCalls = (
+  invocation: any,
+  contractId: string,
+  caller: string,
+  found: Array<{ functionName: string; caller: string }>
+) => {
+  const fn = invocation.function();
+  let invokedContract = caller;
+  if (fn.switch().name === 'sorobanAuthorizedFunctionTypeContractFn') {
+    const args = fn.contractFn();
+    invokedContract = addressToString(args.contractAddress());
+    if (invokedContract === contractId) {
+      found.push({ functionName: args.functionName().toString(), caller });
+    }
+  }
+  invocation.subInvocations().forEach((sub: any) => collectAuthorizedCalls(sub, contractId, invokedContract, found));
+};
+
+const collectTreeCalls = (
+  calls: ContractInvocation[],
+  contractId: string,
+  found: Array<{ functionName: string; caller: string; direct: boolean }>
+) => {
+  calls.forEach(call => {
+    if (call.contractId === contractId) {
+      found.push({ functionName: call.functionName, caller: call.caller, direct: call.depth === 0 });
+    }
+    collectTreeCalls(call.children, contractId, found);
+  });
+};
+
+const getOperationResultCode = (transactionResult: any, operationIndex: number): string | undefined => {
+  try {
+    // Fee bumps wrap the inner transaction's result
+    const result = transactionResult.result().switch().name.startsWith('txFeeBumpInner')
+      ? transactionResult.result().innerResultPair().result().result()
+      : transactionResult.result();
+    if (result.switch().name !== 'txFailed') {
+      return result.switch().name;
+    }
+    const opResult = result.results()[operationIndex];
+    return opResult.tr().value().switch().name;
+  } catch {
+    try {
+      return transactionResult.result().switch().name;
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+// Finds the invocations of a contract in one getTransactions record. The fn_call diagnostic
+// events, when the node recorded them, list every nested call; otherwise only direct calls and
+// nested calls that needed authorization can be seen
+export const extractInvocations = (tx: any, contractId: string, networkPassphrase: string): ContractInvocationSummary[] => {
+  if (!tx.envelopeXdr) return [];
+
+  let innerTx: any;
+  try {
+    const parsed = StellarSdk.TransactionBuilder.fromXDR(tx.envelopeXdr, networkPassphrase);
+    innerTx = parsed instanceof StellarSdk.FeeBumpTransaction ? parsed.innerTransaction : parsed;
+  } catch {
+    return [];
+  }
+
+  let transactionResult: any = null;
+  let feeCharged = '0';
+  try {
+    transactionResult = StellarSdk.xdr.TransactionResult.fromXDR(tx.resultXdr, 'base64');
+    feeCharged = transactionResult.feeCharged().toString();
+  } catch {
+  }
+
+  const successful = tx.status === 'SUCCESS';
+  const invocations: ContractInvocationSummary[] = [];
+  const diagnosticEventsXdr: string[] | undefined = tx.diagnosticEventsXdr || tx.events?.diagnosticEventsXdr;
+
+  innerTx.operations.forEach((op: any, index: number) => {
+    if (op.type !== 'invokeHostFunction' || op.func.switch().name !== 'hostFunctionTypeInvokeContract') return;
+
+    const opSource = op.source || innerTx.source;
+    const invokeContract = op.func.invokeContract();
+    const target = addressToString(invokeContract.contractAddress());
+    const calls: Array<{ functionName: string; caller: string; direct: boolean }> = [];
+
+    // A Soroban transaction has a single operation, so the whole call tree belongs to it
+    const callTree = extractCallTree(opSource, tx.resultMetaXdr, diagnosticEventsXdr).calls;
+    if (callTree.length > 0) {
+      collectTreeCalls(callTree, contractId, calls);
+    } else if (target === contractId) {
+      calls.push({ functionName: invokeContract.functionName().toString(), caller: opSource, direct: true });
+    } else {
+      const authorized: Array<{ functionName: string; caller: string }> = [];
+      (op.auth || []).forEach((entry: any) => {
+        try {
+          collectAuthorizedCalls(entry.rootInvocation(), contractId, opSource, authorized);
+        } catch {
+        }
+      });
+      // The same nested call is often authorized by several signers
+      authorized
+        .filter((call, i) => authorized.findIndex(c => c.functionName === call.functionName && c.caller === call.caller) === i)
+        .forEach(call => calls.push({ ...call, direct: false }));
+    }
+
+    calls.forEach(call => {
+      invocations.push({
+        hash: tx.txHash,
+        ledger: tx.ledger,
+        createdAt: Number(tx.createdAt) * 1000,
+        operationIndex: index,
+        functionName: call.functionName,
+        caller: call.caller,
+        direct: call.direct,
+        successful,
+        feeCharged,
+        error: successful || !transactionResult ? undefined : getOperationResultCode(transactionResult, index)
+      });
+    });
+  });
+
+  return invocations;
+};
+
+// Lists recent invocations of a contract, newest first. Soroban RPC cannot filter transactions
+// by contract and getEvents skips failed calls, so getTransactions is scanned backwards from
+// the latest ledger in small windows. Pass nextCursor back in to continue with older ledgers
+export const fetchContractActivityPage = async (
+  service: StellarService,
+  contractId: string,
+  query: ContractActivityQuery = {}
+): Promise<ContractActivityPage> => {
+  if (!isContractAddress(contractId)) {
+    throw new Error(`Invalid contract address: ${contractId}`);
+  }
+
+  const limit = query.limit || DEFAULT_PAGE_SIZE;
+  const { networkPassphrase } = service.networkConfig;
+  const invocations: ContractInvocationSummary[] = [];
+
+  // getHealth reports the retention window; ledgers older than oldestLedger cannot be queried
+  const health = await service.transport.rpc('getHealth');
+  const oldestLedger: number = health.oldestLedger;
+  let endLedger = query.cursor ? Number(query.cursor) : health.latestLedger + 1;
+  const scannedToLedger = endLedger - 1;
+  let requests = 0;
+
+  while (invocations.length < limit && requests < MAX_RPC_REQUESTS && endLedger > oldestLedger) {
+    const startLedger = Math.max(endLedger - LEDGER_WINDOW, oldestLedger);
+    const windowInvocations: ContractInvocationSummary[] = [];
+    let params: any = { startLedger, pagination: { limit: RPC_PAGE_SIZE } };
+
+    // A window is always finished once started, so cursors always fall on window boundaries
+    for (;;) {
+      const response = await service.transport.rpc('getTransactions', params);
+      requests++;
+
+      const transactions = (response.transactions || []).filter((tx: any) => tx.ledger < endLedger);
+      transactions.forEach((tx: any) => {
+        windowInvocations.push(...extractInvocations(tx, contractId, networkPassphrase));
+      });
+
+      const reachedWindowEnd = transactions.length < (response.transactions || []).length;
+      if (reachedWindowEnd || !response.transactions || response.transactions.length < RPC_PAGE_SIZE) {
+        break;
+      }
+      params = { pagination: { cursor: response.cursor, limit: RPC_PAGE_SIZE } };
+    }
+
+    invocations.push(...windowInvocations.reverse());
+    endLedger = startLedger;
+  }
+
+  return {
+    contractId,
+    invocations,
+    nextCursor: endLedger > oldestLedger ? String(endLedger) : null,
+    scannedFromLedger: endLedger,
+    scannedToLedger
+  };
+};
+
+// Per-function call counts, failure rates and fees, most called first. A transaction's fee is
+// counted once, under its direct call to the contract if it made one, else under its first call
+export const summarizeContractActivity = (invocations: ContractInvocationSummary[]): ContractFunctionStats[] => {
+  const stats = new Map<string, ContractFunctionStats>();
+  const feePayers = new Map<string, ContractInvocationSummary>();
+  invocations.forEach(invocation => {
+    const current = feePayers.get(invocation.hash);
+    if (!current || (invocation.direct && !current.direct)) feePayers.set(invocation.hash, invocation);
+  });
+
+  invocations.forEach(invocation => {
+    const entry = stats.get(invocation.functionName) || {
+      functionName: invocation.functionName,
+      calls: 0,
+      failures: 0,
+      failureRate: 0,
+      totalFeeCharged: '0'
+    };
+    entry.calls++;
+    if (!invocation.successful) entry.failures++;
+    entry.failureRate = entry.failures / entry.calls;
+    if (feePayers.get(invocation.hash) === invocation) {
+      entry.totalFeeCharged = (BigInt(entry.totalFeeCharged) + BigInt(invocation.feeCharged)).toString();
+    }
+    stats.set(invocation.functionName, entry);
+  });
+
+  return Array.from(stats.values()).sort((a, b) => b.calls - a.calls);
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { Buffer } from 'buffer';
+import { findContractErrorsInEvents, findContractErrorsInText } from './contractErrors';
+
+const x = StellarSdk.xdr;
+const TOKEN = Buffer.alloc(32, 2);
+const POOL = Buffer.alloc(32, 3);
+
+const contractError = (code: number) => x.ScVal.scvError(x.ScError.sceContract(code));
+
+const diagnostic = (emitter: Buffer, topics: any[], data: any) => new x.DiagnosticEvent({
+  inSuccessfulContractCall: false,
+  event: new x.ContractEvent({
+    ext: new (x.ExtensionPoint as any)(0),
+    contractId: emitter as any,
+    type: x.ContractEventType.diagnostic(),
+    body: new (x.ContractEventBody as any)(0, new x.ContractEventV0({ topics, data }))
+  })
+});
+
+describe('findContractErrorsInEvents', () => {
+  // The token fails with #10; the pool's frame logs the same error again on the way out
+  it('keeps the innermost emitter of each code', () => {
+    const errors = findContractErrorsInEvents([
+      diagnostic(TOKEN, [x.ScVal.scvSymbol('error'), contractError(10)], x.ScVal.scvString('balance too low')),
+      diagnostic(POOL, [x.ScVal.scvSymbol('error'), contractError(10)], x.ScVal.scvVoid()),
+      diagnostic(POOL, [x.ScVal.scvSymbol('log')], x.ScVal.scvVec([x.ScVal.scvU32(1), contractError(3)]))
+    ]);
+
+    expect(errors).toEqual([
+      { code: 10, contractId: StellarSdk.StrKey.encodeContract(TOKEN) },
+      { code: 3, contractId: StellarSdk.StrKey.encodeContract(POOL) }
+    ]);
+  });
+
+  it('ignores events without contract errors', () => {
+    expect(findContractErrorsInEvents([
+      diagnostic(POOL, [x.ScVal.scvSymbol('error'), x.ScVal.scvError(x.ScError.sceAuth(x.ScErrorCode.scecInvalidAction()))], x.ScVal.scvVoid())
+    ])).toEqual([]);
+  });
+});
+
+describe('findContractErrorsInText', () => {
+  it('reads each code once', () => {
+    expect(findContractErrorsInText('HostError: Error(Contract, #7)\n... Error(Contract, #7) ... Error(Contract, #12)', 'C1'))
+      .toEqual([{ code: 7, contractId: 'C1' }, { code: 12, contractId: 'C1' }]);
+  });
+});
@@ -0,0 +1,151 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { Buffer } from 'buffer';
+import type { ContractErrorInfo, ContractErrorMapping, ContractSpec } from '../types/stellar';
+
+// User-supplied names, keyed by contract address. They take precedence over the contract spec
+const registeredMappings = new Map<string, ContractErrorMapping>();
+
+export const registerContractErrors = (contractId: string, mapping: ContractErrorMapping | null) => {
+  if (mapping && Object.keys(mapping).length > 0) {
+    registeredMappings.set(contractId, mapping);
+  } else {
+    registeredMappings.delete(contractId);
+  }
+};
+
+export const getContractErrorMapping = (contractId: string): ContractErrorMapping | undefined =>
+  registeredMappings.get(contractId);
+
+// Looks a code up in a mapping first, then in the spec's error enums
+export const resolveContractError = (
+  code: number,
+  options: { contractId?: string; spec?: ContractSpec | null; mapping?: ContractErrorMapping } = {}
+): ContractErrorInfo => {
+  const info: ContractErrorInfo = { code, contractId: options.contractId };
+  const mapping = options.mapping ?? (options.contractId ? registeredMappings.get(options.contractId) : undefined);
+
+  const mapped = mapping?.[code];
+  if (mapped) {
+    return typeof mapped === 'string'
+      ? { ...info, name: mapped, source: 'mapping' }
+      : { ...info, name: mapped.name, doc: mapped.doc, source: 'mapping' };
+  }
+
+  for (const errorEnum of options.spec?.errorEnums || []) {
+    const errorCase = errorEnum.cases.find(c => c.value === code);
+    if (errorCase) {
+      return { ...info, name: errorCase.name, doc: errorCase.doc, enumName: errorEnum.name, source: 'spec' };
+    }
+  }
+  return info;
+};
+
+// "Error(Contract, #7)", with the case name in front once it is known
+export const formatContractError = (info: ContractErrorInfo): string => {
+  const raw = `Error(Contract, #${info.code})`;
+  if (!info.name) return raw;
+  return `${info.enumName ? `${info.enumName}::` : ''}${info.name} ${raw}`;
+};
+
+const contractCodeOf = (scVal: any): number | null => {
+  if (scVal?.switch?.().name !== 'scvError') return null;
+  const error = scVal.error();
+  return error.switch().name === 'sceContract' ? error.contractCode() : null;
+};
+
+// Contract error codes anywhere in an ScVal, including inside the vec payload of host error events
+const collectCodes = (scVal: any, codes: number[], depth = 0) => {
+  if (!scVal || depth > 4) return;
+  const code = contractCodeOf(scVal);
+  if (code !== null) {
+    codes.push(code);
+    return;
+  }
+  const kind = scVal.switch?.().name;
+  if (kind === 'scvVec') {
+    (scVal.vec() || []).forEach((item: any) => collectCodes(item, codes, depth + 1));
+  } else if (kind === 'scvMap') {
+    (scVal.map() || []).forEach((entry: any) => {
+      collectCodes(entry.key(), codes, depth + 1);
+      collectCodes(entry.val(), codes, depth + 1);
+    });
+  }
+};
+
+// Finds Error(Contract, #n) values in diagnostic or contract events, in the order they were
+// emitted and without repeats. Accepts DiagnosticEvent or ContractEvent XDR objects. When a
+// nested call fails, each caller's frame logs the same error again under its own contract id;
+// only the first (innermost) emitter is kept, as its spec is the one that defines the code
+export const findContractErrorsInEvents = (events: any[]): ContractErrorInfo[] => {
+  const found: ContractErrorInfo[] = [];
+  events.forEach((raw: any) => {
+    try {
+      const event = typeof raw.event === 'function' ? raw.event() : raw;
+      const body = event.body().v0();
+      const codes: number[] = [];
+      body.topics().forEach((topic: any) => collectCodes(topic, codes));
+      collectCodes(body.data(), codes);
+      if (codes.length === 0) return;
+
+      const rawContractId = event.contractId();
+      const contractId = rawContractId ? StellarSdk.StrKey.encodeContract(Buffer.from(rawContractId)) : undefined;
+      codes.forEach(code => {
+        if (!found.some(f => f.code === code)) {
+          found.push({ code, contractId });
+        }
+      });
+    } catch (e) {
+      // Not a v0 event body
+    }
+  });
+  return found;
+};
+
+// Same as findContractErrorsInEvents, reading the diagnostic events out of v3/v4 transaction meta
+export const findContractErrorsInMeta = (metaXdr: string): ContractErrorInfo[] => {
+  try {
+    const meta = StellarSdk.xdr.TransactionMeta.fromXDR(metaXdr, 'base64');
+    switch (meta.switch()) {
+      case 3: {
+        const sorobanMeta = meta.v3().sorobanMeta();
+        return findContractErrorsInEvents([...(sorobanMeta?.diagnosticEvents() || []), ...(sorobanMeta?.events() || [])]);
+      }
+      case 4: {
+        const v4 = (meta as any).v4();
+        const operationEvents = v4.operations().flatMap((op: any) => op.events());
+        return findContractErrorsInEvents([...v4.diagnosticEvents(), ...operationEvents]);
+      }
+      default:
+        return [];
+    }
+  } catch (e) {
+    return [];
+  }
+};
+
+// Codes mentioned in host error text such as "HostError: Error(Contract, #7)"
+export const findContractErrorsInText = (text: string, contractId?: string): ContractErrorInfo[] => {
+  const codes = Array.from(text.matchAll(/Error\(Contract, #(\d+)\)/g), match => Number(match[1]));
+  return Array.from(new Set(codes)).map(code => ({ code, contractId }));
+};
+
+// Names each error with the spec of the contract that raised it. Specs that fail to load
+// (archived code, Stellar Asset Contracts) leave the error unnamed unless a mapping covers it
+export const resolveContractErrors = async (
+  errors: ContractErrorInfo[],
+  loadSpec?: (contractId: string) => Promise<ContractSpec>
+): Promise<ContractErrorInfo[]> => {
+  const specs = new Map<string, Promise<ContractSpec | null>>();
+  const specFor = (contractId?: string): Promise<ContractSpec | null> => {
+    if (!contractId || !loadSpec) return Promise.resolve(null);
+    if (!specs.has(contractId)) {
+      specs.set(contractId, loadSpec(contractId).catch(() => null));
+    }
+    return specs.get(contractId)!;
+  };
+
+  return Promise.all(errors.map(async error => {
+    const spec = getContractErrorMapping(error.contractId || '')?.[error.code] ? null : await specFor(error.contractId);
+    return resolveContractError(error.code, { contractId: error.contractId, spec });
+  }));
+};
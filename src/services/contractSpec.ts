@@ -0,0 +1,273 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { Buffer } from 'buffer';
+import type {
+  ContractSpec,
+  ContractSpecEnum,
+  ContractSpecField,
+  ContractSpecTypeDef,
+  LabeledArgument
+} from '../types/stellar';
+import type { StellarService } from './stellar';
+
+// WASM is content-addressed, so a spec parsed once is valid for every contract and network using that hash
+const specCache = new Map<string, Promise<ContractSpec>>();
+
+const text = (value: any): string => (value === undefined || value === null ? '' : value.toString());
+const doc = (value: any): string | undefined => text(value) || undefined;
+
+const PRIMITIVE_NAMES: Record<string, string> = {
+  scSpecTypeVal: 'val',
+  scSpecTypeBool: 'bool',
+  scSpecTypeVoid: 'void',
+  scSpecTypeError: 'error',
+  scSpecTypeU32: 'u32',
+  scSpecTypeI32: 'i32',
+  scSpecTypeU64: 'u64',
+  scSpecTypeI64: 'i64',
+  scSpecTypeTimepoint: 'timepoint',
+  scSpecTypeDuration: 'duration',
+  scSpecTypeU128: 'u128',
+  scSpecTypeI128: 'i128',
+  scSpecTypeU256: 'u256',
+  scSpecTypeI256: 'i256',
+  scSpecTypeBytes: 'bytes',
+  scSpecTypeString: 'string',
+  scSpecTypeSymbol: 'symbol',
+  scSpecTypeAddress: 'address',
+  scSpecTypeMuxedAddress: 'muxed_address'
+};
+
+export const toSpecTypeDef = (type: any): ContractSpecTypeDef => {
+  const name = type.switch().name;
+  switch (name) {
+    case 'scSpecTypeOption':
+      return { kind: 'option', value: toSpecTypeDef(type.option().valueType()) };
+    case 'scSpecTypeResult':
+      return { kind: 'result', ok: toSpecTypeDef(type.result().okType()), error: toSpecTypeDef(type.result().errorType()) };
+    case 'scSpecTypeVec':
+      return { kind: 'vec', element: toSpecTypeDef(type.vec().elementType()) };
+    case 'scSpecTypeMap':
+      return { kind: 'map', key: toSpecTypeDef(type.map().keyType()), value: toSpecTypeDef(type.map().valueType()) };
+    case 'scSpecTypeTuple':
+      return { kind: 'tuple', elements: type.tuple().valueTypes().map(toSpecTypeDef) };
+    case 'scSpecTypeBytesN':
+      return { kind: 'bytesN', n: type.bytesN().n() };
+    case 'scSpecTypeUdt':
+      return { kind: 'udt', name: text(type.udt().name()) };
+    default:
+      return { kind: 'primitive', name: PRIMITIVE_NAMES[name] || name };
+  }
+};
+
+// Renders a type the way it is written in the contract source, e.g. Option<Vec<Address>>
+export const formatSpecType = (type: ContractSpecTypeDef): string => {
+  switch (type.kind) {
+    case 'primitive':
+      return type.name;
+    case 'bytesN':
+      return `BytesN<${type.n}>`;
+    case 'option':
+      return `Option<${formatSpecType(type.value)}>`;
+    case 'result':
+      return `Result<${formatSpecType(type.ok)}, ${formatSpecType(type.error)}>`;
+    case 'vec':
+      return `Vec<${formatSpecType(type.element)}>`;
+    case 'map':
+      return `Map<${formatSpecType(type.key)}, ${formatSpecType(type.value)}>`;
+    case 'tuple':
+      return `(${type.elements.map(formatSpecType).join(', ')})`;
+    case 'udt':
+      return type.name;
+  }
+};
+
+const toField = (field: any): ContractSpecField => {
+  const typeDef = toSpecTypeDef(field.type());
+  return { name: text(field.name()), type: formatSpecType(typeDef), typeDef, doc: doc(field.doc()) };
+};
+
+const toEnum = (entry: any): ContractSpecEnum => ({
+  name: text(entry.name()),
+  doc: doc(entry.doc()),
+  cases: entry.cases().map((c: any) => ({ name: text(c.name()), value: c.value(), doc: doc(c.doc()) }))
+});
+
+export const toContractSpec = (wasmHash: string, entries: any[]): ContractSpec => {
+  const spec: ContractSpec = { wasmHash, functions: [], structs: [], unions: [], enums: [], errorEnums: [], entries: [] };
+
+  entries.forEach(entry => {
+    spec.entries.push(entry.toXDR('base64'));
+    switch (entry.switch().name) {
+      case 'scSpecEntryFunctionV0': {
+        const fn = entry.functionV0();
+        spec.functions.push({
+          name: text(fn.name()),
+          doc: doc(fn.doc()),
+          inputs: fn.inputs().map(toField),
+          outputs: fn.outputs().map(toSpecTypeDef)
+        });
+        break;
+      }
+      case 'scSpecEntryUdtStructV0': {
+        const struct = entry.udtStructV0();
+        spec.structs.push({ name: text(struct.name()), doc: doc(struct.doc()), fields: struct.fields().map(toField) });
+        break;
+      }
+      case 'scSpecEntryUdtUnionV0': {
+        const union = entry.udtUnionV0();
+        spec.unions.push({
+          name: text(union.name()),
+          doc: doc(union.doc()),
+          cases: union.cases().map((c: any) => {
+            const unionCase = c.switch().name === 'scSpecUdtUnionCaseTupleV0' ? c.tupleCase() : c.voidCase();
+            return {
+              name: text(unionCase.name()),
+              types: c.switch().name === 'scSpecUdtUnionCaseTupleV0' ? unionCase.type().map(toSpecTypeDef) : [],
+              doc: doc(unionCase.doc())
+            };
+          })
+        });
+        break;
+      }
+      case 'scSpecEntryUdtEnumV0':
+        spec.enums.push(toEnum(entry.udtEnumV0()));
+        break;
+      case 'scSpecEntryUdtErrorEnumV0':
+        spec.errorEnums.push(toEnum(entry.udtErrorEnumV0()));
+        break;
+      default:
+        // Event specs and future entry kinds are kept in entries only
+        break;
+    }
+  });
+
+  return spec;
+};
+
+// Reads the contractspecv0 custom section of a contract WASM binary
+export const parseContractSpec = async (wasm: Uint8Array, wasmHash = ''): Promise<ContractSpec> => {
+  const parsed = await StellarSdk.contract.Spec.fromWasm(Buffer.from(wasm));
+  return toContractSpec(wasmHash, parsed.entries);
+};
+
+const getLedgerEntry = async (service: StellarService, key: any) => {
+  const response = await service.transport.rpc('getLedgerEntries', { keys: [key.toXDR('base64')] });
+  const entry = response?.entries?.[0];
+  return entry ? StellarSdk.xdr.LedgerEntryData.fromXDR(entry.xdr, 'base64') : null;
+};
+
+// Looks up the WASM hash a contract instance currently points to
+export const fetchContractWasmHash = async (service: StellarService, contractId: string): Promise<string> => {
+  const instance = await getLedgerEntry(service, StellarSdk.xdr.LedgerKey.contractData(new StellarSdk.xdr.LedgerKeyContractData({
+    contract: new StellarSdk.Address(contractId).toScAddress(),
+    key: StellarSdk.xdr.ScVal.scvLedgerKeyContractInstance(),
+    durability: StellarSdk.xdr.ContractDataDurability.persistent()
+  })));
+  if (!instance) {
+    throw new Error(`Contract ${contractId} not found on this network`);
+  }
+
+  const executable = instance.contractData().val().instance().executable();
+  if (executable.switch().name !== 'contractExecutableWasm') {
+    throw new Error('Stellar Asset Contracts are built into the network and have no WASM spec');
+  }
+  return executable.wasmHash().toString('hex');
+};
+
+const instanceWasmHash = (entry: any, contractId: string): string | undefined => {
+  const data = entry.data();
+  if (data.switch().name !== 'contractData') return undefined;
+  const contractData = data.contractData();
+  if (contractData.key().switch().name !== 'scvLedgerKeyContractInstance') return undefined;
+  if (StellarSdk.Address.fromScAddress(contractData.contract()).toString() !== contractId) return undefined;
+  const executable = contractData.val().instance().executable();
+  return executable.switch().name === 'contractExecutableWasm' ? executable.wasmHash().toString('hex') : undefined;
+};
+
+// Finds the WASM hash a contract ran with in a ledger transaction, so specs stay right after
+// upgrades: the instance entry's earliest state in the meta, else the footprint when it holds
+// only this contract and one contract code
+export const findRecordedWasmHash = (contractId: string, envelopeXdr?: string, metaXdr?: string): string | undefined => {
+  if (metaXdr) {
+    try {
+      const meta = StellarSdk.xdr.TransactionMeta.fromXDR(metaXdr, 'base64');
+      const version = meta.switch() === 4 ? (meta as any).v4() : meta.switch() === 3 ? meta.v3() : null;
+      const changes = version
+        ? [...version.txChangesBefore(), ...version.operations().flatMap((op: any) => op.changes()), ...version.txChangesAfter()]
+        : [];
+      for (const change of changes) {
+        const kind = change.switch().name;
+        if (kind === 'ledgerEntryRemoved') continue;
+        const entry = kind === 'ledgerEntryCreated' ? change.created()
+          : kind === 'ledgerEntryUpdated' ? change.updated()
+            : kind === 'ledgerEntryState' ? change.state()
+              : change.restored();
+        const wasmHash = instanceWasmHash(entry, contractId);
+        if (wasmHash) return wasmHash;
+      }
+    } catch {
+      // Fall through to the footprint
+    }
+  }
+
+  if (envelopeXdr) {
+    try {
+      const envelope = StellarSdk.xdr.TransactionEnvelope.fromXDR(envelopeXdr, 'base64');
+      const innerEnvelope = envelope.switch().name === 'envelopeTypeTxFeeBump'
+        ? envelope.feeBump().tx().innerTx().v1()
+        : envelope.switch().name === 'envelopeTypeTx' ? envelope.v1() : null;
+      if (!innerEnvelope) return undefined;
+      const txExt = innerEnvelope.tx().ext();
+      if (txExt.switch() !== 1) return undefined;
+      const footprint = txExt.sorobanData().resources().footprint();
+      const keys = [...footprint.readOnly(), ...footprint.readWrite()];
+      const codeHashes = new Set<string>(keys
+        .filter((key: any) => key.switch().name === 'contractCode')
+        .map((key: any) => key.contractCode().hash().toString('hex')));
+      const instances = new Set<string>(keys
+        .filter((key: any) => key.switch().name === 'contractData' && key.contractData().key().switch().name === 'scvLedgerKeyContractInstance')
+        .map((key: any) => StellarSdk.Address.fromScAddress(key.contractData().contract()).toString()));
+      // The footprint does not say which code belongs to which instance, so it only answers when
+      // this contract is the one instance and there is one code entry
+      return codeHashes.size === 1 && instances.size === 1 && instances.has(contractId) ? [...codeHashes][0] : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+};
+
+export const fetchContractSpecForHash = (service: StellarService, wasmHash: string): Promise<ContractSpec> => {
+  const cached = specCache.get(wasmHash);
+  if (cached) return cached;
+
+  const pending = (async () => {
+    const code = await getLedgerEntry(service, StellarSdk.xdr.LedgerKey.contractCode(new StellarSdk.xdr.LedgerKeyContractCode({
+      hash: Buffer.from(wasmHash, 'hex')
+    })));
+    if (!code) {
+      throw new Error(`Contract code ${wasmHash} not found on this network (it may have been archived)`);
+    }
+    return parseContractSpec(code.contractCode().code(), wasmHash);
+  })();
+
+  specCache.set(wasmHash, pending);
+  // Failures are not cached so a later call can retry, e.g. after switching networks
+  pending.catch(() => specCache.delete(wasmHash));
+  return pending;
+};
+
+export const fetchContractSpecForContract = async (service: StellarService, contractId: string): Promise<ContractSpec> => {
+  return fetchContractSpecForHash(service, await fetchContractWasmHash(service, contractId));
+};
+
+// Pairs decoded call arguments with the parameter names and types of the called function.
+// Arguments beyond the spec's inputs (or calls to unknown functions) fall back to arg0, arg1, ...
+export const labelArguments = (spec: ContractSpec | null | undefined, functionName: string, args: any[]): LabeledArgument[] => {
+  const inputs = spec?.functions.find(fn => fn.name === functionName)?.inputs || [];
+  return args.map((value, index) => ({
+    name: inputs[index]?.name || `arg${index}`,
+    type: inputs[index]?.type,
+    value
+  }));
+};
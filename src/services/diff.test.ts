@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { diffInvocationSnapshots, diffTransactions } from './diff';
+import type { ContractEvent, InvocationSnapshot, TransactionDetails } from '../types/stellar';
+
+const transaction = (overrides: Partial<TransactionDetails>): TransactionDetails => ({
+  hash: 'left',
+  sourceAccount: 'GSOURCE',
+  fee: '100',
+  operations: [],
+  status: 'success',
+  ledgerTimestamp: 0,
+  ...overrides
+});
+
+const transfer = (amount: string): ContractEvent => ({ contractId: 'CTOKEN', type: 'contract', topics: ['transfer'], data: amount });
+const burn = (amount: string): ContractEvent => ({ contractId: 'CTOKEN', type: 'contract', topics: ['burn'], data: amount });
+
+const changed = (entries: Array<{ path: string; status: string }>) =>
+  entries.filter(entry => entry.status !== 'unchanged').map(entry => [entry.path, entry.status]);
+
+describe('diffTransactions', () => {
+  it('reports overview and footprint changes by side', () => {
+    const diff = diffTransactions(
+      transaction({ feeCharged: '100', footprint: { readOnly: ['a'], readWrite: ['b'] } }),
+      transaction({ hash: 'right', feeCharged: '120', status: 'failed', footprint: { readOnly: ['a', 'c'], readWrite: [] } })
+    );
+
+    expect(changed(diff.overview)).toEqual([['status', 'changed'], ['feeCharged', 'changed']]);
+    expect(changed(diff.footprint)).toEqual([['readOnly c', 'added'], ['readWrite b', 'removed']]);
+    expect(diff.differenceCount).toBe(4);
+  });
+
+  it('pairs events by signature, so an extra event does not shift later pairs', () => {
+    const diff = diffTransactions(
+      transaction({ events: [transfer('5'), burn('1')] }),
+      transaction({ events: [transfer('5'), transfer('7'), burn('2')] })
+    );
+
+    expect(diff.events.map(entry => [entry.path, entry.status])).toEqual([
+      ['CTOKEN transfer', 'unchanged'],
+      ['CTOKEN burn', 'changed'],
+      ['CTOKEN transfer #2', 'added']
+    ]);
+  });
+
+  // Regression: repeats of a signature all used to get the same path
+  it('numbers repeated signatures on both sides', () => {
+    const diff = diffTransactions(
+      transaction({ events: [transfer('1'), transfer('2'), transfer('3')] }),
+      transaction({ events: [transfer('1'), transfer('2')] })
+    );
+
+    expect(diff.events.map(entry => [entry.path, entry.status])).toEqual([
+      ['CTOKEN transfer', 'unchanged'],
+      ['CTOKEN transfer #2', 'unchanged'],
+      ['CTOKEN transfer #3', 'removed']
+    ]);
+  });
+
+  it('compares decoded values by content', () => {
+    const diff = diffTransactions(
+      transaction({ events: [{ ...transfer(''), data: { amount: 10n, memo: new Uint8Array([1, 2]) } }] }),
+      transaction({ events: [{ ...transfer(''), data: { amount: 10n, memo: new Uint8Array([1, 2]) } }] })
+    );
+
+    expect(diff.events[0].status).toBe('unchanged');
+  });
+});
+
+describe('diffInvocationSnapshots', () => {
+  const resources = { instructions: 1000, diskReadBytes: 0, writeBytes: 100, readOnlyEntries: 2, readWriteEntries: 1, resourceFee: '5000' };
+  const original: InvocationSnapshot = {
+    status: 'success',
+    result: { type: 'u32', value: 1 },
+    events: [transfer('5')],
+    resources
+  };
+
+  it('compares typed results, so the same number with another type differs', () => {
+    const comparison = diffInvocationSnapshots(original, { ...original, result: { type: 'u64', value: '1' } });
+
+    expect(changed(comparison.result)).toEqual([['result', 'changed']]);
+    expect(comparison.differenceCount).toBe(1);
+  });
+
+  it('compares resources field by field', () => {
+    const comparison = diffInvocationSnapshots(original, {
+      ...original,
+      status: 'failed',
+      error: 'Error(Contract, #1)',
+      result: null,
+      events: [],
+      resources: { ...resources, instructions: 1500, resourceFee: '4200' }
+    });
+
+    expect(changed(comparison.result)).toEqual([['status', 'changed'], ['error', 'added'], ['result', 'removed']]);
+    expect(changed(comparison.events)).toEqual([['CTOKEN transfer', 'removed']]);
+    expect(changed(comparison.resources)).toEqual([['instructions', 'changed'], ['resourceFee', 'changed']]);
+  });
+});
@@ -0,0 +1,200 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import type { ContractEvent, DiffEntry, ForkComparison, InvocationSnapshot, StateChange, TransactionDetails, TransactionDiff } from '../types/stellar';
+
+// JSON with BigInt and byte arrays made printable, so decoded values compare by content
+export const toComparable = (value: any): string => {
+  if (value === undefined) return '';
+  return JSON.stringify(value, (_, v) => {
+    if (typeof v === 'bigint') return v.toString();
+    if (v instanceof Uint8Array) return Array.from(v).map(b => b.toString(16).padStart(2, '0')).join('');
+    return v;
+  });
+};
+
+const compare = (path: string, left: any, right: any): DiffEntry => {
+  if (left === undefined && right === undefined) return { path, status: 'unchanged' };
+  if (left === undefined) return { path, status: 'added', right };
+  if (right === undefined) return { path, status: 'removed', left };
+  return { path, status: toComparable(left) === toComparable(right) ? 'unchanged' : 'changed', left, right };
+};
+
+const describeInvocation = (invocation: any): any => {
+  const fn = invocation.function();
+  let call: string = fn.switch().name;
+  if (fn.switch().name === 'sorobanAuthorizedFunctionTypeContractFn') {
+    const args = fn.contractFn();
+    call = `${StellarSdk.Address.fromScAddress(args.contractAddress()).toString()}.${args.functionName().toString()}(${args.args().map((arg: any) => toComparable(StellarSdk.scValToNative(arg))).join(', ')})`;
+  }
+  const subInvocations = invocation.subInvocations().map(describeInvocation);
+  return subInvocations.length > 0 ? { call, subInvocations } : { call };
+};
+
+// Nonces, signatures and expiration ledgers differ between any two submissions, so auth entries
+// are compared by who authorizes which invocation tree
+export const describeAuthEntry = (entry: any): any => {
+  try {
+    const parsed = typeof entry === 'string' ? StellarSdk.xdr.SorobanAuthorizationEntry.fromXDR(entry, 'base64') : entry;
+    const credentials = parsed.credentials();
+    const signer = credentials.switch().name === 'sorobanCredentialsAddress'
+      ? StellarSdk.Address.fromScAddress(credentials.address().address()).toString()
+      : 'transaction source';
+    return { signer, invocation: describeInvocation(parsed.rootInvocation()) };
+  } catch {
+    return entry;
+  }
+};
+
+const stateChangeKey = (change: StateChange) =>
+  [change.contractId || '', change.storageType || change.ledgerEntryType || '', change.keyDisplay || toComparable(change.key)].join(' ');
+
+const diffStateChanges = (left: TransactionDetails, right: TransactionDetails): DiffEntry[] => {
+  const collect = (tx: TransactionDetails) => {
+    const changes = new Map<string, StateChange>();
+    tx.sorobanOperations?.forEach(op => op.stateChanges?.forEach(change => changes.set(stateChangeKey(change), change)));
+    return changes;
+  };
+  const leftChanges = collect(left);
+  const rightChanges = collect(right);
+  const keys = Array.from(new Set([...leftChanges.keys(), ...rightChanges.keys()]));
+
+  return keys.map(key => {
+    const l = leftChanges.get(key);
+    const r = rightChanges.get(key);
+    const entry = compare(key, l && { type: l.type, before: l.before, after: l.after ?? l.value }, r && { type: r.type, before: r.before, after: r.after ?? r.value });
+    return { ...entry, left: l, right: r };
+  });
+};
+
+// Events are paired by contract and first topic in emission order, so one extra event does
+// not shift every later pair. Repeats of a signature (two transfers) get "#2", "#3"... paths
+const diffEvents = (
+  left: ContractEvent[],
+  right: ContractEvent[],
+  describe: (event: ContractEvent) => any = event => ({ topics: event.topics, data: event.data })
+): DiffEntry[] => {
+  const signature = (event: ContractEvent) => `${event.contractId} ${event.topics?.[0] ?? event.type}`;
+  const occurrences = new Map<string, number>();
+  const pathOf = (event: ContractEvent) => {
+    const count = (occurrences.get(signature(event)) || 0) + 1;
+    occurrences.set(signature(event), count);
+    return count > 1 ? `${signature(event)} #${count}` : signature(event);
+  };
+  const unmatched = [...right];
+  const entries: DiffEntry[] = [];
+
+  left.forEach(event => {
+    const matchIndex = unmatched.findIndex(candidate => signature(candidate) === signature(event));
+    const match = matchIndex >= 0 ? unmatched.splice(matchIndex, 1)[0] : undefined;
+    const entry = compare(pathOf(event), describe(event), match && describe(match));
+    entries.push({ ...entry, left: event, right: match });
+  });
+  unmatched.forEach(event => entries.push({ path: pathOf(event), status: 'added', right: event }));
+
+  return entries;
+};
+
+const diffFootprint = (left: TransactionDetails, right: TransactionDetails): DiffEntry[] => {
+  const entries: DiffEntry[] = [];
+  (['readOnly', 'readWrite'] as const).forEach(access => {
+    const l = new Set(left.footprint?.[access] || []);
+    const r = new Set(right.footprint?.[access] || []);
+    Array.from(new Set([...l, ...r])).forEach(key => {
+      entries.push(compare(`${access} ${key}`, l.has(key) ? key : undefined, r.has(key) ? key : undefined));
+    });
+  });
+  return entries;
+};
+
+const RESOURCE_FIELDS = ['cpuInstructions', 'memoryBytes', 'readBytes', 'writeBytes', 'readLedgerEntries', 'writeLedgerEntries'] as const;
+const FEE_FIELDS = ['refundableFee', 'nonRefundableFee', 'rentFee'] as const;
+
+const SNAPSHOT_RESOURCE_FIELDS = ['instructions', 'diskReadBytes', 'writeBytes', 'readOnlyEntries', 'readWriteEntries', 'resourceFee'] as const;
+
+const diffResources = (left: TransactionDetails, right: TransactionDetails): DiffEntry[] => {
+  const leftUsage: any = left.simulationResult?.enhancedDebugInfo?.resourceUsage || {};
+  const rightUsage: any = right.simulationResult?.enhancedDebugInfo?.resourceUsage || {};
+  const entries = RESOURCE_FIELDS.map(field => compare(field, leftUsage[field], rightUsage[field]));
+
+  const operationCount = Math.max(left.sorobanOperations?.length || 0, right.sorobanOperations?.length || 0);
+  for (let i = 0; i < operationCount; i++) {
+    const l: any = left.sorobanOperations?.[i]?.resourceUsage || {};
+    const r: any = right.sorobanOperations?.[i]?.resourceUsage || {};
+    FEE_FIELDS.forEach(field => entries.push(compare(`op[${i}].${field}`, l[field], r[field])));
+  }
+  return entries;
+};
+
+// Compares two transactions section by section. Entries are 'removed' when only the left
+// transaction has them and 'added' when only the right one does
+export const diffTransactions = (left: TransactionDetails, right: TransactionDetails): TransactionDiff => {
+  const overview: DiffEntry[] = [
+    compare('status', left.status, right.status),
+    compare('error', left.errorMessage, right.errorMessage),
+    compare('feeCharged', left.feeCharged, right.feeCharged),
+    compare('maxFee', left.maxFee, right.maxFee),
+    compare('sourceAccount', left.sourceAccount, right.sourceAccount)
+  ];
+  const args: DiffEntry[] = [];
+  const auth: DiffEntry[] = [];
+
+  const operationCount = Math.max(left.sorobanOperations?.length || 0, right.sorobanOperations?.length || 0);
+  for (let i = 0; i < operationCount; i++) {
+    const l = left.sorobanOperations?.[i];
+    const r = right.sorobanOperations?.[i];
+    overview.push(compare(`op[${i}].contract`, l?.contractId, r?.contractId));
+    overview.push(compare(`op[${i}].function`, l?.functionName, r?.functionName));
+    overview.push(compare(`op[${i}].result`, l?.result, r?.result));
+
+    const argCount = Math.max(l?.args.length || 0, r?.args.length || 0);
+    for (let j = 0; j < argCount; j++) {
+      args.push(compare(`op[${i}].args[${j}]`, l?.args[j], r?.args[j]));
+    }
+
+    const authCount = Math.max(l?.auth.length || 0, r?.auth.length || 0);
+    for (let j = 0; j < authCount; j++) {
+      const leftAuth = l?.auth[j];
+      const rightAuth = r?.auth[j];
+      auth.push(compare(
+        `op[${i}].auth[${j}]`,
+        leftAuth === undefined ? undefined : describeAuthEntry(leftAuth),
+        rightAuth === undefined ? undefined : describeAuthEntry(rightAuth)
+      ));
+    }
+  }
+
+  const sections = {
+    overview,
+    args,
+    auth,
+    footprint: diffFootprint(left, right),
+    stateChanges: diffStateChanges(left, right),
+    events: diffEvents(left.events || [], right.events || []),
+    resources: diffResources(left, right)
+  };
+
+  return {
+    leftHash: left.hash,
+    rightHash: right.hash,
+    ...sections,
+    differenceCount: Object.values(sections).reduce((count, entries) => count + entries.filter(entry => entry.status !== 'unchanged').length, 0)
+  };
+};
+
+// Compares a contract call with a re-simulation of it. Values are compared with their ScVal
+// types, and the original's declared resources are set against the simulation's estimate
+export const diffInvocationSnapshots = (left: InvocationSnapshot, right: InvocationSnapshot): ForkComparison => {
+  const sections = {
+    result: [
+      compare('status', left.status, right.status),
+      compare('error', left.error, right.error),
+      compare('result', left.result ?? undefined, right.result ?? undefined)
+    ],
+    events: diffEvents(left.events, right.events, event => ({ topics: event.typedTopics ?? event.topics, data: event.typedData ?? event.data })),
+    resources: SNAPSHOT_RESOURCE_FIELDS.map(field => compare(field, left.resources?.[field], right.resources?.[field]))
+  };
+
+  return {
+    ...sections,
+    differenceCount: Object.values(sections).reduce((count, entries) => count + entries.filter(entry => entry.status !== 'unchanged').length, 0)
+  };
+};
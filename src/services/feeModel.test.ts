@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { Buffer } from 'buffer';
+import {
+  computeRentFee,
+  computeRentFee1Kb,
+  computeSorobanFee,
+  reconcileSorobanFee,
+  sorobanFeeInputsFromXdr
+} from './feeModel';
+import type { SorobanFeeConfig, SorobanFeeResources } from '../types/stellar';
+
+// Expected values below are worked out by hand from the protocol 23 formulas, not read back
+// from the code under test
+const config: SorobanFeeConfig = {
+  feeRates: {
+    feeRatePerInstructionsIncrement: 25,
+    feeDiskReadLedgerEntry: 6250,
+    feeWriteLedgerEntry: 10000,
+    feeDiskRead1Kb: 1786,
+    feeWrite1Kb: 3500,
+    feeHistorical1Kb: 16235,
+    feeTxSize1Kb: 1624,
+    feeContractEvents1Kb: 10000
+  },
+  rent: { feeRent1Kb: 3000, persistentRentRateDenominator: 2103, tempRentRateDenominator: 4206 }
+};
+
+const resources: SorobanFeeResources = {
+  instructions: 1_000_000,
+  diskReadEntries: 1,
+  writeEntries: 2,
+  diskReadBytes: 500,
+  writeBytes: 300,
+  transactionSizeBytes: 400,
+  contractEventsSizeBytes: 200,
+  rentFee: 5000
+};
+
+describe('computeRentFee1Kb', () => {
+  const settings = { targetSizeBytes: 1_000_000, fee1KbLow: 1000, fee1KbHigh: 10000, growthFactor: 2 };
+
+  it('rises linearly up to the target size', () => {
+    // 1,000 + ceil(9,000 × 500,000 / 1,000,000)
+    expect(computeRentFee1Kb(500_000, settings)).toBe(5500);
+    expect(computeRentFee1Kb(1_000_000, settings)).toBe(10000);
+  });
+
+  it('adds the growth term to the high rate past the target size', () => {
+    // 10,000 + ceil(9,000 × 500,000 × 2 / 1,000,000)
+    expect(computeRentFee1Kb(1_500_000, settings)).toBe(19000);
+  });
+
+  it('never goes below the minimum rate', () => {
+    expect(computeRentFee1Kb(0, { ...settings, fee1KbLow: 0 })).toBe(1000);
+  });
+});
+
+describe('computeRentFee', () => {
+  it('charges new ledgers of lifetime and the TTL entry write for a new entry', () => {
+    // ceil(100 × 3,000 × 101 / (1,024 × 2,103)) + 10,000 + ceil(48 × 3,500 / 1,024)
+    expect(computeRentFee(
+      [{ persistent: true, oldSizeBytes: 0, oldLiveUntilLedger: 0, newSizeBytes: 100, newLiveUntilLedger: 1100 }],
+      config,
+      1000
+    )).toBe(15 + 10000 + 165);
+  });
+
+  it('tops up the ledgers already paid for when an entry grows', () => {
+    // ceil(100 × 3,000 × 1,000 / (1,024 × 2,103)), no TTL write
+    expect(computeRentFee(
+      [{ persistent: true, oldSizeBytes: 100, oldLiveUntilLedger: 2000, newSizeBytes: 200, newLiveUntilLedger: 2000 }],
+      config,
+      1001
+    )).toBe(140);
+  });
+
+  it('uses the temporary rent rate for temporary entries', () => {
+    // ceil(100 × 3,000 × 1,000 / (1,024 × 4,206))
+    expect(computeRentFee(
+      [{ persistent: false, oldSizeBytes: 100, oldLiveUntilLedger: 2000, newSizeBytes: 200, newLiveUntilLedger: 2000 }],
+      config,
+      1001
+    )).toBe(70);
+  });
+});
+
+describe('computeSorobanFee', () => {
+  it('prices each resource', () => {
+    const breakdown = computeSorobanFee(resources, config);
+    expect(Object.fromEntries(breakdown.components.map(c => [c.component, c.fee]))).toEqual({
+      instructions: 2500,
+      diskReadEntries: 6250,
+      writeEntries: 20000,
+      diskReadBytes: 873,
+      writeBytes: 1026,
+      historical: 11099,
+      bandwidth: 635,
+      events: 1954,
+      rent: 5000
+    });
+    expect(breakdown.nonRefundableFee).toBe(42383);
+    expect(breakdown.refundableFee).toBe(6954);
+    expect(breakdown.resourceFee).toBe(49337);
+  });
+
+  it('needs the write rate to price written bytes', () => {
+    const { feeWrite1Kb: _, ...feeRates } = config.feeRates;
+    expect(() => computeSorobanFee(resources, { ...config, feeRates })).toThrow();
+  });
+});
+
+describe('reconcileSorobanFee', () => {
+  it('splits the max fee and finds the refund', () => {
+    const reconciliation = reconcileSorobanFee(resources, config, {
+      maxFee: 50100,
+      declaredResourceFee: 50000,
+      feeCharged: 49437
+    });
+    expect(reconciliation.inclusionFeeBid).toBe(100);
+    expect(reconciliation.inclusionFeeCharged).toBe(100);
+    expect(reconciliation.resourceFeeRefund).toBe(663);
+  });
+});
+
+describe('sorobanFeeInputsFromXdr', () => {
+  const source = StellarSdk.Keypair.fromRawEd25519Seed(Buffer.alloc(32, 7));
+  const contract = StellarSdk.StrKey.encodeContract(Buffer.alloc(32, 1));
+  const sorobanData = new StellarSdk.SorobanDataBuilder()
+    .setResources(1_000_000, 500, 300)
+    .setResourceFee(50000)
+    .setReadOnly([StellarSdk.xdr.LedgerKey.account(new StellarSdk.xdr.LedgerKeyAccount({ accountId: source.xdrPublicKey() }))])
+    .setReadWrite([new StellarSdk.Contract(contract).getFootprint()])
+    .build();
+  const transaction = new StellarSdk.TransactionBuilder(new StellarSdk.Account(source.publicKey(), '1'), {
+    fee: '50100',
+    networkPassphrase: StellarSdk.Networks.TESTNET
+  })
+    .addOperation(StellarSdk.Operation.invokeContractFunction({ contract, function: 'run', args: [] }))
+    .setSorobanData(sorobanData)
+    .setTimeout(0)
+    .build();
+
+  // The typings only declare the unions' static constructors, which the runtime does not have
+  const noExtension = () => new (StellarSdk.xdr.ExtensionPoint as any)(0);
+  // 4 (ext) + 36 (contract id) + 4 (type) + 4 (body) + 20 (one "transfer" topic) + 8 (u32 data) = 76
+  const event = new StellarSdk.xdr.ContractEvent({
+    ext: noExtension(),
+    contractId: Buffer.alloc(32, 1) as any,
+    type: StellarSdk.xdr.ContractEventType.contract(),
+    body: new (StellarSdk.xdr.ContractEventBody as any)(0, new StellarSdk.xdr.ContractEventV0({
+      topics: [StellarSdk.xdr.ScVal.scvSymbol('transfer')],
+      data: StellarSdk.xdr.ScVal.scvU32(5)
+    }))
+  });
+  const meta = new (StellarSdk.xdr.TransactionMeta as any)(4, new StellarSdk.xdr.TransactionMetaV4({
+    ext: noExtension(),
+    txChangesBefore: [],
+    operations: [new StellarSdk.xdr.OperationMetaV2({ ext: noExtension(), changes: [], events: [event] })],
+    txChangesAfter: [],
+    sorobanMeta: new StellarSdk.xdr.SorobanTransactionMetaV2({
+      ext: new (StellarSdk.xdr.SorobanTransactionMetaExt as any)(1, new StellarSdk.xdr.SorobanTransactionMetaExtV1({
+        ext: noExtension(),
+        totalNonRefundableResourceFeeCharged: StellarSdk.xdr.Int64.fromString('42383'),
+        totalRefundableResourceFeeCharged: StellarSdk.xdr.Int64.fromString('6954'),
+        rentFeeCharged: StellarSdk.xdr.Int64.fromString('5000')
+      })),
+      returnValue: StellarSdk.xdr.ScVal.scvVoid()
+    }),
+    events: [],
+    diagnosticEvents: []
+  }));
+
+  it('reads declared resources, fees, events and the rent charged', () => {
+    const inputs = sorobanFeeInputsFromXdr(transaction.toXDR(), meta.toXDR('base64'));
+    expect(inputs.maxFee).toBe(50100);
+    expect(inputs.declaredResourceFee).toBe(50000);
+    expect(inputs.resources).toEqual({
+      instructions: 1_000_000,
+      // The account key; contract instances are in-memory state in protocol 23
+      diskReadEntries: 1,
+      writeEntries: 1,
+      diskReadBytes: 500,
+      writeBytes: 300,
+      transactionSizeBytes: transaction.toEnvelope().toXDR().length,
+      // The event plus 4 bytes of void return value
+      contractEventsSizeBytes: 80,
+      rentFee: 5000
+    });
+  });
+});
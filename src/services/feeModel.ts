@@ -0,0 +1,287 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import type {
+  LedgerEntryRentChange,
+  SorobanFeeBreakdown,
+  SorobanFeeComponent,
+  SorobanFeeConfig,
+  SorobanFeeReconciliation,
+  SorobanFeeResources,
+  TransactionDetails
+} from '../types/stellar';
+
+// Constants of the protocol 23 fee model in the Soroban host
+const INSTRUCTIONS_INCREMENT = 10000;
+const DATA_SIZE_1KB_INCREMENT = 1024;
+// Allowance for the result added to the size that history is charged on
+const TX_BASE_RESULT_SIZE = 300;
+// A TTL entry written for each entry whose lifetime is extended
+const TTL_ENTRY_SIZE = 48;
+const MINIMUM_RENT_FEE_PER_1KB = 1000;
+
+const ceilDiv = (numerator: bigint, denominator: bigint): number =>
+  Number(denominator > 0n ? (numerator + denominator - 1n) / denominator : 0n);
+
+const feePerIncrement = (amount: number, rate: number, increment: number) =>
+  ceilDiv(BigInt(amount) * BigInt(rate), BigInt(increment));
+
+const format = (value: number) => value.toLocaleString('en-US');
+
+// The network derives the rent rate from the average size of Soroban state: it rises linearly
+// from fee1KbLow to fee1KbHigh up to the target size, and past it the growth term is added to fee1KbHigh
+export const computeRentFee1Kb = (
+  stateSizeBytes: number,
+  settings: { targetSizeBytes: number; fee1KbLow: number; fee1KbHigh: number; growthFactor: number }
+): number => {
+  const multiplier = BigInt(settings.fee1KbHigh - settings.fee1KbLow);
+  const target = BigInt(Math.max(settings.targetSizeBytes, 1));
+  const size = BigInt(stateSizeBytes);
+
+  let fee = ceilDiv(multiplier * (size < target ? size : target), target) + settings.fee1KbLow;
+  if (stateSizeBytes > settings.targetSizeBytes) {
+    fee += ceilDiv(multiplier * (size - BigInt(settings.targetSizeBytes)) * BigInt(settings.growthFactor), target);
+  }
+  return Math.max(fee, MINIMUM_RENT_FEE_PER_1KB);
+};
+
+const rentForSizeAndLedgers = (config: SorobanFeeConfig, persistent: boolean, sizeBytes: number, ledgers: number) => {
+  const rent = config.rent!;
+  const denominator = persistent ? rent.persistentRentRateDenominator : rent.tempRentRateDenominator;
+  return ceilDiv(
+    BigInt(sizeBytes) * BigInt(rent.feeRent1Kb) * BigInt(ledgers),
+    BigInt(DATA_SIZE_1KB_INCREMENT) * BigInt(denominator)
+  );
+};
+
+// New ledgers of lifetime are paid at the new size; when an entry grows, the ledgers it had
+// already paid for are topped up for the extra bytes. Every extension also writes a TTL entry
+export const computeRentFee = (changes: LedgerEntryRentChange[], config: SorobanFeeConfig, currentLedger: number): number => {
+  if (!config.rent) {
+    throw new Error('Rent settings are needed to work out rent from entry changes');
+  }
+
+  let fee = 0;
+  let extended = 0;
+  changes.forEach(change => {
+    const paidUntil = Math.max(change.oldLiveUntilLedger, currentLedger - 1);
+    if (change.newLiveUntilLedger > paidUntil) {
+      fee += rentForSizeAndLedgers(config, change.persistent, change.newSizeBytes, change.newLiveUntilLedger - paidUntil);
+    }
+    if (change.newSizeBytes > change.oldSizeBytes && change.oldLiveUntilLedger >= currentLedger) {
+      fee += rentForSizeAndLedgers(config, change.persistent, change.newSizeBytes - change.oldSizeBytes, change.oldLiveUntilLedger - currentLedger + 1);
+    }
+    if (change.newLiveUntilLedger > change.oldLiveUntilLedger) {
+      extended++;
+    }
+  });
+
+  return fee + extended * config.feeRates.feeWriteLedgerEntry +
+    feePerIncrement(extended * TTL_ENTRY_SIZE, config.feeRates.feeWrite1Kb ?? 0, DATA_SIZE_1KB_INCREMENT);
+};
+
+export const computeSorobanFee = (
+  resources: SorobanFeeResources,
+  config: SorobanFeeConfig,
+  currentLedger = 0
+): SorobanFeeBreakdown => {
+  const rates = config.feeRates;
+  if (rates.feeWrite1Kb === undefined && resources.writeBytes > 0) {
+    throw new Error('The write fee per 1 KB is needed to price written bytes');
+  }
+  const perKb = (component: SorobanFeeComponent['component'], bytes: number, rate: number, what: string, refundable = false): SorobanFeeComponent => ({
+    component,
+    fee: feePerIncrement(bytes, rate, DATA_SIZE_1KB_INCREMENT),
+    refundable,
+    calculation: `${format(bytes)} ${what} × ${format(rate)} / 1,024`
+  });
+
+  const components: SorobanFeeComponent[] = [
+    {
+      component: 'instructions',
+      fee: feePerIncrement(resources.instructions, rates.feeRatePerInstructionsIncrement, INSTRUCTIONS_INCREMENT),
+      refundable: false,
+      calculation: `${format(resources.instructions)} instructions × ${format(rates.feeRatePerInstructionsIncrement)} / 10,000`
+    },
+    {
+      component: 'diskReadEntries',
+      fee: resources.diskReadEntries * rates.feeDiskReadLedgerEntry,
+      refundable: false,
+      calculation: `${format(resources.diskReadEntries)} entries × ${format(rates.feeDiskReadLedgerEntry)}`
+    },
+    {
+      component: 'writeEntries',
+      fee: resources.writeEntries * rates.feeWriteLedgerEntry,
+      refundable: false,
+      calculation: `${format(resources.writeEntries)} entries × ${format(rates.feeWriteLedgerEntry)}`
+    },
+    perKb('diskReadBytes', resources.diskReadBytes, rates.feeDiskRead1Kb, 'bytes'),
+    perKb('writeBytes', resources.writeBytes, rates.feeWrite1Kb ?? 0, 'bytes'),
+    perKb('historical', resources.transactionSizeBytes + TX_BASE_RESULT_SIZE, rates.feeHistorical1Kb, 'bytes (transaction + 300 for the result)'),
+    perKb('bandwidth', resources.transactionSizeBytes, rates.feeTxSize1Kb, 'bytes'),
+    perKb('events', resources.contractEventsSizeBytes, rates.feeContractEvents1Kb, 'bytes', true)
+  ];
+
+  if (resources.rentFee !== undefined) {
+    components.push({ component: 'rent', fee: resources.rentFee, refundable: true, calculation: 'as charged' });
+  } else if (resources.rentChanges && resources.rentChanges.length > 0) {
+    components.push({
+      component: 'rent',
+      fee: computeRentFee(resources.rentChanges, config, currentLedger),
+      refundable: true,
+      calculation: `${resources.rentChanges.length} entries at ${format(config.rent!.feeRent1Kb)} per 1 KB`
+    });
+  }
+
+  const nonRefundableFee = components.filter(c => !c.refundable).reduce((sum, c) => sum + c.fee, 0);
+  const refundableFee = components.filter(c => c.refundable).reduce((sum, c) => sum + c.fee, 0);
+  return { components, nonRefundableFee, refundableFee, resourceFee: nonRefundableFee + refundableFee };
+};
+
+// Lines the computed fee up against what the transaction offered and what it was charged
+export const reconcileSorobanFee = (
+  resources: SorobanFeeResources,
+  config: SorobanFeeConfig,
+  fees: { maxFee: number; declaredResourceFee: number; feeCharged?: number; currentLedger?: number }
+): SorobanFeeReconciliation => {
+  const breakdown = computeSorobanFee(resources, config, fees.currentLedger);
+  const inclusionFeeBid = fees.maxFee - fees.declaredResourceFee;
+  const resourceFeeRefund = Math.max(0, fees.declaredResourceFee - breakdown.resourceFee);
+  const inclusionFeeCharged = fees.feeCharged !== undefined ? fees.feeCharged - breakdown.resourceFee : undefined;
+  const explanations: string[] = [];
+
+  explanations.push(
+    `Of the ${format(fees.maxFee)} stroop maximum, ${format(fees.declaredResourceFee)} was set aside for resources and ` +
+    `${format(inclusionFeeBid)} bid for inclusion.`
+  );
+  explanations.push(
+    `Resources cost ${format(breakdown.nonRefundableFee)} non-refundable (instructions, reads, writes and size, as declared) ` +
+    `plus ${format(breakdown.refundableFee)} for events and rent.`
+  );
+
+  if (fees.declaredResourceFee < breakdown.resourceFee) {
+    explanations.push(
+      `The declared resource fee is ${format(breakdown.resourceFee - fees.declaredResourceFee)} stroops short of the computed one, ` +
+      'so the settings used here differ from the ones the network applied, or the transaction could not have succeeded.'
+    );
+  } else if (resourceFeeRefund > 0) {
+    explanations.push(
+      `${format(resourceFeeRefund)} stroops of the resource fee were not needed for events and rent and were refunded.`
+    );
+  }
+
+  if (inclusionFeeCharged !== undefined) {
+    if (inclusionFeeCharged < 0 || inclusionFeeCharged > inclusionFeeBid) {
+      explanations.push(
+        `The fee charged does not add up with the computed resource fee (${format(Math.abs(inclusionFeeCharged))} stroops of inclusion fee ` +
+        `${inclusionFeeCharged < 0 ? 'missing' : 'over the bid'}); the resources or settings differ from the ones the network used.`
+      );
+    } else if (inclusionFeeCharged < inclusionFeeBid) {
+      explanations.push(
+        `Inclusion cost ${format(inclusionFeeCharged)} of the ${format(inclusionFeeBid)} bid; the rest was never charged because the ledger's going rate was lower.`
+      );
+    } else {
+      explanations.push(`The whole ${format(inclusionFeeBid)} stroop inclusion bid was charged.`);
+    }
+  }
+
+  return {
+    breakdown,
+    maxFee: fees.maxFee,
+    declaredResourceFee: fees.declaredResourceFee,
+    inclusionFeeBid,
+    feeCharged: fees.feeCharged,
+    inclusionFeeCharged,
+    resourceFeeRefund,
+    explanations
+  };
+};
+
+const contractEventsOfMeta = (meta: any): { events: any[]; returnValue: any; rentFeeCharged?: number } => {
+  switch (meta.switch()) {
+    case 3: {
+      const sorobanMeta = meta.v3().sorobanMeta();
+      const ext = sorobanMeta?.ext();
+      return {
+        events: sorobanMeta?.events() || [],
+        returnValue: sorobanMeta?.returnValue(),
+        rentFeeCharged: ext?.switch() === 1 ? Number(ext.v1().rentFeeCharged()) : undefined
+      };
+    }
+    case 4: {
+      const v4 = meta.v4();
+      const ext = v4.sorobanMeta()?.ext();
+      return {
+        events: v4.operations().flatMap((op: any) => op.events()),
+        returnValue: v4.sorobanMeta()?.returnValue(),
+        rentFeeCharged: ext?.switch() === 1 ? Number(ext.v1().rentFeeCharged()) : undefined
+      };
+    }
+    default:
+      return { events: [], returnValue: null };
+  }
+};
+
+// Reads the fee inputs of a Soroban transaction from its envelope, and from its meta the events
+// it emitted and the rent it was charged
+export const sorobanFeeInputsFromXdr = (
+  envelopeXdr: string,
+  metaXdr?: string
+): { resources: SorobanFeeResources; maxFee: number; declaredResourceFee: number } => {
+  const envelope = StellarSdk.xdr.TransactionEnvelope.fromXDR(envelopeXdr, 'base64');
+  const isFeeBump = envelope.switch().name === 'envelopeTypeTxFeeBump';
+  const tx = isFeeBump ? envelope.feeBump().tx().innerTx().v1().tx() : envelope.v1().tx();
+  if (tx.ext().switch() !== 1) {
+    throw new Error('Not a Soroban transaction: it has no SorobanTransactionData');
+  }
+
+  const sorobanData = tx.ext().sorobanData();
+  const resources = sorobanData.resources();
+  const footprint = resources.footprint();
+  const entries = [...footprint.readOnly(), ...footprint.readWrite()];
+  const archivedEntries = sorobanData.ext().switch() === 1 ? sorobanData.ext().resourceExt().archivedSorobanEntries().length : 0;
+
+  let contractEventsSizeBytes = 0;
+  let rentFee: number | undefined;
+  if (metaXdr) {
+    const { events, returnValue, rentFeeCharged } = contractEventsOfMeta(StellarSdk.xdr.TransactionMeta.fromXDR(metaXdr, 'base64'));
+    contractEventsSizeBytes = events.reduce((sum: number, event: any) => sum + event.toXDR().length, 0) +
+      (returnValue ? returnValue.toXDR().length : 0);
+    rentFee = rentFeeCharged;
+  }
+
+  return {
+    resources: {
+      instructions: resources.instructions(),
+      diskReadEntries: entries.filter(key => !['contractData', 'contractCode'].includes(key.switch().name)).length + archivedEntries,
+      writeEntries: footprint.readWrite().length,
+      diskReadBytes: resources.diskReadBytes(),
+      writeBytes: resources.writeBytes(),
+      transactionSizeBytes: envelope.toXDR().length,
+      contractEventsSizeBytes,
+      rentFee
+    },
+    maxFee: Number(isFeeBump ? envelope.feeBump().tx().fee() : tx.fee()),
+    declaredResourceFee: Number(sorobanData.resourceFee())
+  };
+};
+
+// The same for a fetched or analyzed transaction; null when it is not a Soroban transaction or
+// its XDR is not available
+export const reconcileTransactionFee = (
+  transaction: TransactionDetails,
+  config: SorobanFeeConfig
+): SorobanFeeReconciliation | null => {
+  const envelopeXdr = transaction.debugInfo?.envelopeXdr;
+  if (!envelopeXdr) return null;
+
+  let inputs: ReturnType<typeof sorobanFeeInputsFromXdr>;
+  try {
+    inputs = sorobanFeeInputsFromXdr(envelopeXdr, transaction.debugInfo?.metaXdr);
+  } catch {
+    return null;
+  }
+  return reconcileSorobanFee(inputs.resources, config, {
+    maxFee: inputs.maxFee,
+    declaredResourceFee: inputs.declaredResourceFee,
+    feeCharged: transaction.feeCharged !== undefined ? Number(transaction.feeCharged) : undefined
+  });
+};
@@ -0,0 +1,168 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import type { ContractEvent, ForkSimulationResult, InvocationSnapshot, SimulationFork, TransactionDetails, TypedScVal } from '../types/stellar';
+import type { StellarService } from './stellar';
+import { scValToTypedScVal, typedScValToScVal } from './typedArgs';
+import { diffInvocationSnapshots } from './diff';
+
+const toNative = (scVal: any) => {
+  try {
+    return StellarSdk.scValToNative(scVal);
+  } catch {
+    return scVal.toXDR('base64');
+  }
+};
+
+// Same shape as the events decoded from transaction meta, plus typed values for exact comparison
+const describeContractEvent = (event: any): ContractEvent => {
+  const body = event.body().v0();
+  const contractId = event.contractId();
+  return {
+    contractId: contractId ? StellarSdk.StrKey.encodeContract(contractId) : 'Unknown',
+    type: 'contract',
+    topics: body.topics().map(toNative),
+    data: toNative(body.data()),
+    typedTopics: body.topics().map(scValToTypedScVal),
+    typedData: scValToTypedScVal(body.data())
+  };
+};
+
+const describeResources = (data: any, resourceFee?: string): InvocationSnapshot['resources'] => {
+  const resources = data.resources();
+  return {
+    instructions: resources.instructions(),
+    diskReadBytes: resources.diskReadBytes(),
+    writeBytes: resources.writeBytes(),
+    readOnlyEntries: resources.footprint().readOnly().length,
+    readWriteEntries: resources.footprint().readWrite().length,
+    resourceFee: resourceFee ?? data.resourceFee().toString()
+  };
+};
+
+const innerTransaction = (envelopeXdr: string): any => {
+  const envelope = StellarSdk.xdr.TransactionEnvelope.fromXDR(envelopeXdr, 'base64');
+  switch (envelope.switch().name) {
+    case 'envelopeTypeTxFeeBump':
+      return envelope.feeBump().tx().innerTx().v1().tx();
+    case 'envelopeTypeTx':
+      return envelope.v1().tx();
+    default:
+      return null;
+  }
+};
+
+// Protocol 21+ meta records the resource fee actually charged, after refunds
+const chargedResourceFee = (sorobanMeta: any): string | undefined => {
+  const ext = sorobanMeta?.ext();
+  if (!ext || ext.switch() !== 1) return undefined;
+  const charged = ext.v1();
+  return (BigInt(charged.totalNonRefundableResourceFeeCharged().toString()) +
+    BigInt(charged.totalRefundableResourceFeeCharged().toString())).toString();
+};
+
+const readMetaOutcome = (metaXdr?: string): { result?: TypedScVal | null; events: ContractEvent[]; resourceFeeCharged?: string } => {
+  if (!metaXdr) return { events: [] };
+  try {
+    const meta = StellarSdk.xdr.TransactionMeta.fromXDR(metaXdr, 'base64');
+    switch (meta.switch()) {
+      case 3: {
+        const sorobanMeta = meta.v3().sorobanMeta();
+        if (!sorobanMeta) return { events: [] };
+        return {
+          result: scValToTypedScVal(sorobanMeta.returnValue()),
+          events: sorobanMeta.events().map(describeContractEvent),
+          resourceFeeCharged: chargedResourceFee(sorobanMeta)
+        };
+      }
+      case 4: {
+        const v4 = (meta as any).v4();
+        const returnValue = v4.sorobanMeta()?.returnValue();
+        return {
+          result: returnValue ? scValToTypedScVal(returnValue) : null,
+          events: v4.operations().flatMap((op: any) => op.events()).map(describeContractEvent),
+          resourceFeeCharged: chargedResourceFee(v4.sorobanMeta())
+        };
+      }
+      default:
+        return { events: [] };
+    }
+  } catch {
+    return { events: [] };
+  }
+};
+
+// Takes the contract call out of a ledger transaction, with what it returned, emitted and
+// declared, so it can be simulated again against current state with edited arguments. The
+// declared fee includes the submitter's margin, so the fee actually charged is used when the
+// meta has it, as that is what the simulation's minimum resource fee estimates
+export const forkTransaction = (transaction: TransactionDetails): SimulationFork => {
+  const envelopeXdr = transaction.debugInfo?.envelopeXdr;
+  if (!envelopeXdr) {
+    throw new Error('The transaction envelope is not available');
+  }
+
+  const tx = innerTransaction(envelopeXdr);
+  const operation = tx?.operations().find((op: any) => op.body().switch().name === 'invokeHostFunction');
+  const hostFunction = operation?.body().invokeHostFunctionOp().hostFunction();
+  if (!hostFunction || hostFunction.switch().name !== 'hostFunctionTypeInvokeContract') {
+    throw new Error('Only transactions that call a contract function can be forked');
+  }
+
+  const invocation = hostFunction.invokeContract();
+  const { result, events, resourceFeeCharged } = readMetaOutcome(transaction.debugInfo?.metaXdr);
+  return {
+    transactionHash: transaction.hash,
+    contractId: StellarSdk.Address.fromScAddress(invocation.contractAddress()).toString(),
+    functionName: invocation.functionName().toString(),
+    args: invocation.args().map(scValToTypedScVal),
+    // Muxed sources are simulated as their underlying account
+    sourceAccount: StellarSdk.extractBaseAddress(StellarSdk.encodeMuxedAccountToAddress(operation.sourceAccount() || tx.sourceAccount(), true)),
+    original: {
+      status: transaction.status === 'success' ? 'success' : 'failed',
+      result: transaction.status === 'success' ? result : undefined,
+      error: transaction.errorMessage,
+      events,
+      resources: tx.ext().switch() === 1 ? describeResources(tx.ext().sorobanData(), resourceFeeCharged) : undefined
+    }
+  };
+};
+
+// Events from calls that were rolled back are left out, as they never reach the ledger
+export const snapshotSimulation = (simulation: StellarSdk.rpc.Api.SimulateTransactionResponse): InvocationSnapshot => {
+  const events = (simulation.events || [])
+    .filter(event => event.inSuccessfulContractCall() && event.event().type().name === 'contract')
+    .map(event => describeContractEvent(event.event()));
+
+  if (!StellarSdk.rpc.Api.isSimulationSuccess(simulation)) {
+    return { status: 'failed', error: (simulation as any).error || 'Simulation failed', events };
+  }
+  return {
+    status: 'success',
+    result: simulation.result ? scValToTypedScVal(simulation.result.retval) : null,
+    events,
+    resources: describeResources(simulation.transactionData.build(), simulation.minResourceFee)
+  };
+};
+
+export const resimulateFork = async (
+  service: StellarService,
+  fork: SimulationFork,
+  args: TypedScVal[] = fork.args
+): Promise<ForkSimulationResult> => {
+  const accountRecord = await service.transport.horizon(`/accounts/${fork.sourceAccount}`);
+  const transaction = new StellarSdk.TransactionBuilder(new StellarSdk.Account(accountRecord.account_id, accountRecord.sequence), {
+    fee: StellarSdk.BASE_FEE,
+    networkPassphrase: service.networkConfig.networkPassphrase
+  })
+    .addOperation(new StellarSdk.Contract(fork.contractId).call(
+      fork.functionName,
+      ...args.map((arg, index) => typedScValToScVal(arg, `Argument ${index + 1}`))
+    ))
+    .setTimeout(30)
+    .build();
+
+  const simulation = StellarSdk.rpc.parseRawSimulation(
+    await service.transport.rpc('simulateTransaction', { transaction: transaction.toXDR() })
+  );
+  const snapshot = snapshotSimulation(simulation);
+  return { snapshot, comparison: diffInvocationSnapshots(fork.original, snapshot) };
+};
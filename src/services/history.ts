@@ -0,0 +1,134 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import type {
+  AccountTransactionFilters,
+  AccountTransactionPage,
+  AccountTransactionQuery,
+  AccountTransactionSummary
+} from '../types/stellar';
+import type { StellarService } from './stellar';
+
+const DEFAULT_PAGE_SIZE = 20;
+const HORIZON_PAGE_SIZE = 50;
+// Upper bound on Horizon pages scanned per call, so sparse filters cannot page through an entire history
+const MAX_SCANNED_PAGES = 10;
+
+const SOROBAN_OPERATION_TYPES = ['invoke_host_function', 'extend_footprint_ttl', 'restore_footprint'];
+
+// Horizon names operation types in snake_case; the SDK uses camelCase
+export const toHorizonOperationType = (type: string): string => type.replace(/([A-Z])/g, '_$1').toLowerCase();
+
+export const isAccountAddress = (value: string): boolean =>
+  StellarSdk.StrKey.isValidEd25519PublicKey(value) || StellarSdk.StrKey.isValidMed25519PublicKey(value);
+
+// Horizon indexes history by the underlying G-address, so muxed M-addresses are resolved to it
+export const resolveBaseAccount = (address: string): string => {
+  if (StellarSdk.StrKey.isValidMed25519PublicKey(address)) {
+    return StellarSdk.MuxedAccount.fromAddress(address, '0').baseAccount().accountId();
+  }
+  if (!StellarSdk.StrKey.isValidEd25519PublicKey(address)) {
+    throw new Error(`Invalid account address: ${address}`);
+  }
+  return address;
+};
+
+// Transaction records carry the envelope, so operation types are decoded locally instead of
+// fetching each transaction's operations
+const getOperationTypes = (envelopeXdr: string, networkPassphrase: string): string[] => {
+  try {
+    const parsed = StellarSdk.TransactionBuilder.fromXDR(envelopeXdr, networkPassphrase);
+    const innerTx = parsed instanceof StellarSdk.FeeBumpTransaction ? parsed.innerTransaction : parsed;
+    return innerTx.operations.map((op: any) => toHorizonOperationType(op.type));
+  } catch {
+    return [];
+  }
+};
+
+// Converts a Horizon transaction record into the summary rows shown in history and ledger lists
+export const toTransactionSummary = (record: any, networkPassphrase: string): AccountTransactionSummary => {
+  const operationTypes = getOperationTypes(record.envelope_xdr, networkPassphrase);
+  return {
+    hash: record.hash,
+    ledger: record.ledger,
+    createdAt: new Date(record.created_at).getTime(),
+    sourceAccount: record.account_muxed || record.source_account,
+    successful: record.successful !== false,
+    operationCount: record.operation_count,
+    operationTypes,
+    isSoroban: operationTypes.some(type => SOROBAN_OPERATION_TYPES.includes(type)),
+    feeCharged: String(record.fee_charged ?? '0'),
+    maxFee: String(record.max_fee ?? '0'),
+    feeBump: Boolean(record.fee_bump_transaction),
+    memo: record.memo_type && record.memo_type !== 'none' ? record.memo : undefined,
+    pagingToken: record.paging_token
+  };
+};
+
+const matchesFilters = (summary: AccountTransactionSummary, filters: AccountTransactionFilters): boolean => {
+  if (filters.sorobanOnly && !summary.isSoroban) return false;
+  if (filters.failedOnly && summary.successful) return false;
+  if (filters.operationType && !summary.operationTypes.includes(filters.operationType)) return false;
+  if (filters.dateFrom !== undefined && summary.createdAt < filters.dateFrom) return false;
+  if (filters.dateTo !== undefined && summary.createdAt > filters.dateTo) return false;
+  return true;
+};
+
+// Fetches one page of an account's transactions, newest first. Horizon cannot filter by these
+// criteria, so raw pages are scanned until `limit` matches are found; pass the returned
+// nextCursor back in to continue where the scan stopped
+export const fetchAccountTransactionPage = async (
+  service: StellarService,
+  address: string,
+  query: AccountTransactionQuery = {}
+): Promise<AccountTransactionPage> => {
+  const accountId = resolveBaseAccount(address);
+  const limit = query.limit || DEFAULT_PAGE_SIZE;
+  const filters = query.filters || {};
+  const records: AccountTransactionSummary[] = [];
+
+  let cursor = query.cursor;
+  let nextCursor: string | null = null;
+
+  for (let page = 0; page < MAX_SCANNED_PAGES; page++) {
+    const params = new URLSearchParams({
+      limit: String(HORIZON_PAGE_SIZE),
+      order: 'desc',
+      include_failed: 'true'
+    });
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+
+    const response = await service.transport.horizon(`/accounts/${accountId}/transactions?${params.toString()}`);
+    const rawRecords: any[] = response?._embedded?.records || [];
+
+    let reachedWindowStart = false;
+    let isFull = false;
+    for (const record of rawRecords) {
+      const summary = toTransactionSummary(record, service.networkConfig.networkPassphrase);
+
+      // Records are newest first, so past the start of the date window there is nothing left to find
+      if (filters.dateFrom !== undefined && summary.createdAt < filters.dateFrom) {
+        reachedWindowStart = true;
+        break;
+      }
+      cursor = summary.pagingToken;
+      if (matchesFilters(summary, filters)) {
+        records.push(summary);
+        if (records.length === limit) {
+          isFull = true;
+          break;
+        }
+      }
+    }
+
+    if (reachedWindowStart || (!isFull && rawRecords.length < HORIZON_PAGE_SIZE)) {
+      nextCursor = null;
+      break;
+    }
+    // Either the page is full or the scan budget ran out; both resume from the last scanned record
+    nextCursor = cursor || null;
+    if (isFull) break;
+  }
+
+  return { accountId, records, nextCursor };
+};
@@ -0,0 +1,102 @@
+import type {
+  AccountTransactionSummary,
+  LedgerResourceTotals,
+  LedgerSnapshot,
+  LedgerSorobanUsage,
+  SorobanUsageOptions,
+  TransactionDetails
+} from '../types/stellar';
+import type { StellarService } from './stellar';
+import { toTransactionSummary } from './history';
+
+const HORIZON_PAGE_SIZE = 200;
+// Each Soroban transaction is fully analyzed (Horizon + RPC), so only a few run at once
+const USAGE_CONCURRENCY = 3;
+
+// Fetches a ledger header and every transaction in it, in application order
+export const fetchLedgerSnapshot = async (service: StellarService, ledger: number | 'latest'): Promise<LedgerSnapshot> => {
+  const header = ledger === 'latest'
+    ? (await service.transport.horizon('/ledgers?order=desc&limit=1'))?._embedded?.records?.[0]
+    : await service.transport.horizon(`/ledgers/${ledger}`);
+  if (!header) {
+    throw new Error('No ledgers available on this network');
+  }
+
+  const transactions: AccountTransactionSummary[] = [];
+  let cursor = '';
+  for (;;) {
+    const page = await service.transport.horizon(
+      `/ledgers/${header.sequence}/transactions?include_failed=true&order=asc&limit=${HORIZON_PAGE_SIZE}${cursor ? `&cursor=${cursor}` : ''}`
+    );
+    const records: any[] = page?._embedded?.records || [];
+    records.forEach(record => transactions.push(toTransactionSummary(record, service.networkConfig.networkPassphrase)));
+    if (records.length < HORIZON_PAGE_SIZE) break;
+    cursor = records[records.length - 1].paging_token;
+  }
+
+  return {
+    sequence: header.sequence,
+    closedAt: new Date(header.closed_at).getTime(),
+    protocolVersion: header.protocol_version,
+    baseFee: header.base_fee_in_stroops,
+    maxTxSetSize: header.max_tx_set_size,
+    txSetOperationCount: header.tx_set_operation_count ?? header.operation_count,
+    successfulTransactionCount: header.successful_transaction_count,
+    failedTransactionCount: header.failed_transaction_count ?? 0,
+    transactions
+  };
+};
+
+// Analyzes the Soroban transactions of a ledger and reads their resource usage from the
+// simulation debug info. Transactions without usage data are left out; onResult fires as
+// each one finishes so callers can render progressively and reuse the fetched details.
+// Aborting the signal stops before the next transaction is started
+export const fetchSorobanUsage = async (
+  service: StellarService,
+  transactions: AccountTransactionSummary[],
+  options: SorobanUsageOptions = {}
+): Promise<LedgerSorobanUsage[]> => {
+  const queue = transactions.filter(tx => tx.isSoroban);
+  const results: LedgerSorobanUsage[] = [];
+
+  const worker = async () => {
+    for (let tx = queue.shift(); tx && !options.signal?.aborted; tx = queue.shift()) {
+      let details: TransactionDetails | null = null;
+      let usage: LedgerSorobanUsage | null = null;
+      try {
+        details = await service.fetchTransaction(tx.hash);
+        const resourceUsage = details.simulationResult?.enhancedDebugInfo?.resourceUsage;
+        if (resourceUsage) {
+          usage = {
+            hash: tx.hash,
+            cpuInstructions: resourceUsage.cpuInstructions || 0,
+            memoryBytes: resourceUsage.memoryBytes || 0,
+            readBytes: resourceUsage.readBytes || 0,
+            writeBytes: resourceUsage.writeBytes || 0,
+            feeCharged: tx.feeCharged,
+            isActual: resourceUsage.isActual
+          };
+          results.push(usage);
+        }
+      } catch {
+      }
+      if (!options.signal?.aborted) {
+        options.onResult?.(usage, details, tx.hash);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: USAGE_CONCURRENCY }, worker));
+  return results;
+};
+
+export const sumLedgerResources = (usage: LedgerSorobanUsage[]): LedgerResourceTotals => {
+  return usage.reduce<LedgerResourceTotals>((totals, entry) => ({
+    transactions: totals.transactions + 1,
+    cpuInstructions: totals.cpuInstructions + entry.cpuInstructions,
+    memoryBytes: totals.memoryBytes + entry.memoryBytes,
+    readBytes: totals.readBytes + entry.readBytes,
+    writeBytes: totals.writeBytes + entry.writeBytes,
+    feeCharged: (BigInt(totals.feeCharged) + BigInt(entry.feeCharged)).toString()
+  }), { transactions: 0, cpuInstructions: 0, memoryBytes: 0, readBytes: 0, writeBytes: 0, feeCharged: '0' });
+};
@@ -0,0 +1,173 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import type { HeadroomThresholds, ResourceHeadroom, SorobanNetworkSettings, SorobanResourceAmounts, SorobanTransactionLimits } from '../types/stellar';
+import type { StellarService } from './stellar';
+import { getStorage } from './networks';
+import { computeRentFee1Kb } from './feeModel';
+
+const THRESHOLDS_STORAGE_KEY = 'stellar-visualizer:headroom-thresholds';
+
+export const DEFAULT_HEADROOM_THRESHOLDS: HeadroomThresholds = { warning: 0.75, critical: 0.9 };
+
+const SETTING_IDS = [
+  'configSettingContractComputeV0',
+  'configSettingContractLedgerCostV0',
+  'configSettingContractLedgerCostExtV0',
+  'configSettingContractHistoricalDataV0',
+  'configSettingContractEventsV0',
+  'configSettingContractBandwidthV0',
+  'configSettingStateArchival',
+  'configSettingLiveSorobanStateSizeWindow'
+] as const;
+
+// Settings only change with network upgrades, so they are read once per network
+const settingsCache = new Map<string, Promise<SorobanNetworkSettings>>();
+
+const readSettings = async (service: StellarService): Promise<SorobanNetworkSettings> => {
+  const keys = SETTING_IDS.map(id => StellarSdk.xdr.LedgerKey.configSetting(
+    new StellarSdk.xdr.LedgerKeyConfigSetting({ configSettingId: (StellarSdk.xdr.ConfigSettingId as any)[id]() })
+  ).toXDR('base64'));
+  const response = await service.transport.rpc('getLedgerEntries', { keys });
+
+  const settings: Record<string, any> = {};
+  (response?.entries || []).forEach((entry: any) => {
+    const setting = StellarSdk.xdr.LedgerEntryData.fromXDR(entry.xdr, 'base64').configSetting();
+    settings[setting.switch().name] = setting.value();
+  });
+
+  const compute = settings.configSettingContractComputeV0;
+  const ledgerCost = settings.configSettingContractLedgerCostV0;
+  const ledgerCostExt = settings.configSettingContractLedgerCostExtV0;
+  const historical = settings.configSettingContractHistoricalDataV0;
+  const events = settings.configSettingContractEventsV0;
+  const bandwidth = settings.configSettingContractBandwidthV0;
+  const stateArchival = settings.configSettingStateArchival;
+  const stateSizeWindow: any[] = settings.configSettingLiveSorobanStateSizeWindow || [];
+  if (!compute || !ledgerCost || !historical || !events || !bandwidth) {
+    throw new Error('This network did not return its Soroban settings; check that the RPC server supports Soroban');
+  }
+
+  // Rent is priced on the average Soroban state size over the window
+  const feeRent1Kb = stateSizeWindow.length > 0
+    ? computeRentFee1Kb(
+      Math.floor(stateSizeWindow.reduce((sum, size) => sum + Number(size), 0) / stateSizeWindow.length),
+      {
+        targetSizeBytes: Number(ledgerCost.sorobanStateTargetSizeBytes()),
+        fee1KbLow: Number(ledgerCost.rentFee1KbSorobanStateSizeLow()),
+        fee1KbHigh: Number(ledgerCost.rentFee1KbSorobanStateSizeHigh()),
+        growthFactor: ledgerCost.sorobanStateRentFeeGrowthFactor()
+      }
+    )
+    : undefined;
+
+  return {
+    latestLedger: response.latestLedger,
+    limits: {
+      instructions: Number(compute.txMaxInstructions()),
+      memoryBytes: compute.txMemoryLimit(),
+      diskReadEntries: ledgerCost.txMaxDiskReadEntries(),
+      diskReadBytes: ledgerCost.txMaxDiskReadBytes(),
+      writeEntries: ledgerCost.txMaxWriteLedgerEntries(),
+      writeBytes: ledgerCost.txMaxWriteBytes(),
+      footprintEntries: ledgerCostExt?.txMaxFootprintEntries(),
+      transactionSizeBytes: bandwidth.txMaxSizeBytes(),
+      contractEventsSizeBytes: events.txMaxContractEventsSizeBytes()
+    },
+    feeRates: {
+      feeRatePerInstructionsIncrement: Number(compute.feeRatePerInstructionsIncrement()),
+      feeDiskReadLedgerEntry: Number(ledgerCost.feeDiskReadLedgerEntry()),
+      feeWriteLedgerEntry: Number(ledgerCost.feeWriteLedgerEntry()),
+      feeDiskRead1Kb: Number(ledgerCost.feeDiskRead1Kb()),
+      feeWrite1Kb: ledgerCostExt ? Number(ledgerCostExt.feeWrite1Kb()) : feeRent1Kb,
+      feeHistorical1Kb: Number(historical.feeHistorical1Kb()),
+      feeContractEvents1Kb: Number(events.feeContractEvents1Kb()),
+      feeTxSize1Kb: Number(bandwidth.feeTxSize1Kb())
+    },
+    rent: feeRent1Kb !== undefined && stateArchival
+      ? {
+        feeRent1Kb,
+        persistentRentRateDenominator: Number(stateArchival.persistentRentRateDenominator()),
+        tempRentRateDenominator: Number(stateArchival.tempRentRateDenominator())
+      }
+      : undefined
+  };
+};
+
+export const fetchNetworkSettings = (
+  service: StellarService,
+  options: { refresh?: boolean } = {}
+): Promise<SorobanNetworkSettings> => {
+  const cacheKey = `${service.networkConfig.networkId}|${service.networkConfig.rpcUrl || ''}`;
+  const cached = settingsCache.get(cacheKey);
+  if (cached && !options.refresh) return cached;
+
+  const pending = readSettings(service);
+  settingsCache.set(cacheKey, pending);
+  pending.catch(() => settingsCache.delete(cacheKey));
+  return pending;
+};
+
+// Compares each resource that was used with its per-transaction limit
+export const analyzeResourceHeadroom = (
+  usage: SorobanResourceAmounts,
+  settings: SorobanNetworkSettings,
+  thresholds: HeadroomThresholds = DEFAULT_HEADROOM_THRESHOLDS
+): ResourceHeadroom[] => {
+  return (Object.keys(settings.limits) as Array<keyof SorobanTransactionLimits>)
+    .filter(resource => usage[resource] !== undefined && settings.limits[resource] !== undefined)
+    .map(resource => {
+      const used = usage[resource]!;
+      const limit = settings.limits[resource]!;
+      const ratio = limit > 0 ? used / limit : Infinity;
+      return {
+        resource,
+        used,
+        limit,
+        ratio,
+        level: ratio >= thresholds.critical ? 'critical' : ratio >= thresholds.warning ? 'warning' : 'ok'
+      };
+    });
+};
+
+export const loadHeadroomThresholds = (): HeadroomThresholds => {
+  try {
+    const saved = JSON.parse(getStorage()?.getItem(THRESHOLDS_STORAGE_KEY) || 'null');
+    if (saved && typeof saved.warning === 'number' && typeof saved.critical === 'number') {
+      return { warning: saved.warning, critical: saved.critical };
+    }
+  } catch {
+  }
+  return DEFAULT_HEADROOM_THRESHOLDS;
+};
+
+export const saveHeadroomThresholds = (thresholds: HeadroomThresholds): void => {
+  getStorage()?.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(thresholds));
+};
+
+// Amounts a simulated call will be checked against at submission: the resources declared in
+// its transaction data and the size of the envelope once they are attached
+export const measureSimulatedResources = (
+  transaction: StellarSdk.Transaction,
+  simulation: StellarSdk.rpc.Api.SimulateTransactionSuccessResponse
+): SorobanResourceAmounts => {
+  const resources = simulation.transactionData.build().resources();
+  const footprint = resources.footprint();
+  const entries = [...footprint.readOnly(), ...footprint.readWrite()];
+  // Contract data and code are served from memory; other entries are read from disk
+  const diskReadEntries = entries.filter(key => !['contractData', 'contractCode'].includes(key.switch().name)).length;
+  const contractEvents = (simulation.events || [])
+    .filter(event => event.inSuccessfulContractCall() && event.event().type().name === 'contract');
+
+  return {
+    instructions: resources.instructions(),
+    memoryBytes: (simulation as any).cost?.memBytes !== undefined ? Number((simulation as any).cost.memBytes) : undefined,
+    diskReadEntries,
+    diskReadBytes: resources.diskReadBytes(),
+    writeEntries: footprint.readWrite().length,
+    writeBytes: resources.writeBytes(),
+    footprintEntries: entries.length,
+    transactionSizeBytes: StellarSdk.rpc.assembleTransaction(transaction, simulation).build().toEnvelope().toXDR().length,
+    // The return value counts towards the events limit
+    contractEventsSizeBytes: contractEvents.reduce((sum, event) => sum + event.event().toXDR().length, 0) +
+      (simulation.result ? simulation.result.retval.toXDR().length : 0)
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_NETWORKS, resolveNetworkConfig } from './networks';
+import type { NetworkDefinition } from '../types/stellar';
+
+const custom: NetworkDefinition = {
+  id: 'local',
+  label: 'Local',
+  horizonUrl: 'http://localhost:9000',
+  rpcUrl: 'http://localhost:9000/rpc',
+  networkPassphrase: 'Local Network'
+};
+const networks = [...BUILT_IN_NETWORKS, custom];
+
+describe('resolveNetworkConfig', () => {
+  it('defaults to mainnet', () => {
+    expect(resolveNetworkConfig({}, networks)).toMatchObject({
+      networkId: 'mainnet',
+      networkUrl: 'https://horizon.stellar.org',
+      networkPassphrase: 'Public Global Stellar Network ; September 2015'
+    });
+  });
+
+  it('maps isTestnet to the built-in networks', () => {
+    expect(resolveNetworkConfig({ isTestnet: true }, networks).networkId).toBe('testnet');
+    expect(resolveNetworkConfig({ isTestnet: false }, networks).networkId).toBe('mainnet');
+  });
+
+  it('finds a registry network by its Horizon URL', () => {
+    expect(resolveNetworkConfig({ networkUrl: 'http://localhost:9000' }, networks)).toMatchObject({
+      networkId: 'local',
+      rpcUrl: 'http://localhost:9000/rpc',
+      networkPassphrase: 'Local Network'
+    });
+  });
+
+  it('lets explicit fields win over the registry', () => {
+    const config = resolveNetworkConfig({ networkId: 'testnet', rpcUrl: 'https://rpc.example.com', label: undefined }, networks);
+    expect(config.rpcUrl).toBe('https://rpc.example.com');
+    expect(config.label).toBe('Testnet');
+  });
+
+  it('accepts an unknown network only with a URL and passphrase', () => {
+    expect(() => resolveNetworkConfig({ networkId: 'other' }, networks)).toThrow('Unknown network "other"');
+    expect(resolveNetworkConfig({ networkId: 'other', networkUrl: 'https://h.example.com', networkPassphrase: 'P' }, networks)).toEqual({
+      networkId: 'other',
+      label: 'other',
+      networkUrl: 'https://h.example.com',
+      networkPassphrase: 'P'
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import type { NetworkConfig, NetworkConfigInput, NetworkDefinition } from '../types/stellar';
+
+const NETWORKS_STORAGE_KEY = 'stellar-visualizer:networks';
+const SELECTED_NETWORK_STORAGE_KEY = 'stellar-visualizer:selected-network';
+
+export const DEFAULT_NETWORK_ID = 'mainnet';
+
+export const BUILT_IN_NETWORKS: NetworkDefinition[] = [
+  {
+    id: 'mainnet',
+    label: 'Mainnet',
+    horizonUrl: 'https://horizon.stellar.org',
+    rpcUrl: 'https://mainnet.sorobanrpc.com',
+    networkPassphrase: 'Public Global Stellar Network ; September 2015',
+    builtIn: true
+  },
+  {
+    id: 'testnet',
+    label: 'Testnet',
+    horizonUrl: 'https://horizon-testnet.stellar.org',
+    rpcUrl: 'https://soroban-testnet.stellar.org',
+    networkPassphrase: 'Test SDF Network ; September 2015',
+    friendbotUrl: 'https://friendbot.stellar.org',
+    builtIn: true
+  },
+  {
+    id: 'futurenet',
+    label: 'Futurenet',
+    horizonUrl: 'https://horizon-futurenet.stellar.org',
+    rpcUrl: 'https://rpc-futurenet.stellar.org',
+    networkPassphrase: 'Test SDF Future Network ; October 2022',
+    friendbotUrl: 'https://friendbot-futurenet.stellar.org',
+    builtIn: true
+  },
+  {
+    id: 'standalone',
+    label: 'Standalone (Quickstart)',
+    horizonUrl: 'http://localhost:8000',
+    rpcUrl: 'http://localhost:8000/rpc',
+    networkPassphrase: 'Standalone Network ; February 2017',
+    friendbotUrl: 'http://localhost:8000/friendbot',
+    builtIn: true
+  }
+];
+
+// localStorage is only present in browsers; the SDK also runs under Node
+export const getStorage = (): Storage | null => {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+// Returns the registry: built-in networks (with any saved edits) followed by custom ones
+export const loadNetworks = (): NetworkDefinition[] => {
+  const storage = getStorage();
+  if (!storage) {
+    return [...BUILT_IN_NETWORKS];
+  }
+
+  try {
+    const saved = JSON.parse(storage.getItem(NETWORKS_STORAGE_KEY) || '[]');
+    if (!Array.isArray(saved) || saved.length === 0) {
+      return [...BUILT_IN_NETWORKS];
+    }
+
+    const savedNetworks = saved.filter((network: any) =>
+      network && typeof network.id === 'string' && network.horizonUrl && network.networkPassphrase
+    ) as NetworkDefinition[];
+    const builtIns = BUILT_IN_NETWORKS.map(builtIn => {
+      const override = savedNetworks.find(network => network.id === builtIn.id);
+      return override ? { ...builtIn, ...override, builtIn: true } : builtIn;
+    });
+    const custom = savedNetworks
+      .filter(network => !BUILT_IN_NETWORKS.some(builtIn => builtIn.id === network.id))
+      .map(network => ({ ...network, builtIn: false }));
+
+    return [...builtIns, ...custom];
+  } catch {
+    return [...BUILT_IN_NETWORKS];
+  }
+};
+
+export const saveNetworks = (networks: NetworkDefinition[]): void => {
+  getStorage()?.setItem(NETWORKS_STORAGE_KEY, JSON.stringify(networks));
+};
+
+export const loadSelectedNetworkId = (): string => {
+  return getStorage()?.getItem(SELECTED_NETWORK_STORAGE_KEY) || DEFAULT_NETWORK_ID;
+};
+
+export const saveSelectedNetworkId = (networkId: string): void => {
+  getStorage()?.setItem(SELECTED_NETWORK_STORAGE_KEY, networkId);
+};
+
+export const getNetworkDefinition = (networkId: string, networks: NetworkDefinition[] = loadNetworks()): NetworkDefinition | undefined => {
+  return networks.find(network => network.id === networkId);
+};
+
+export const toNetworkConfig = (network: NetworkDefinition): NetworkConfig => ({
+  networkId: network.id,
+  label: network.label,
+  networkUrl: network.horizonUrl,
+  rpcUrl: network.rpcUrl,
+  networkPassphrase: network.networkPassphrase,
+  friendbotUrl: network.friendbotUrl
+});
+
+// Fills a partial config from the registry. Explicit fields always win over registry values
+export const resolveNetworkConfig = (input: NetworkConfigInput = {}, networks: NetworkDefinition[] = loadNetworks()): NetworkConfig => {
+  const { isTestnet, ...config } = input;
+  const networkId = config.networkId
+    || (isTestnet !== undefined ? (isTestnet ? 'testnet' : 'mainnet') : undefined)
+    || networks.find(network => network.horizonUrl === config.networkUrl)?.id
+    || DEFAULT_NETWORK_ID;
+  const definition = getNetworkDefinition(networkId, networks);
+
+  if (!definition && (!config.networkUrl || !config.networkPassphrase)) {
+    throw new Error(`Unknown network "${networkId}". Provide networkUrl and networkPassphrase or add it to the network registry.`);
+  }
+
+  const defaults = definition ? toNetworkConfig(definition) : { networkId, label: networkId };
+  const resolved: any = { ...defaults };
+  Object.entries(config).forEach(([key, value]) => {
+    if (value !== undefined) {
+      resolved[key] = value;
+    }
+  });
+  return resolved as NetworkConfig;
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { buildRoutePath, parseRoute } from './routing';
+
+const HASH = 'ab'.repeat(32);
+
+describe('parseRoute', () => {
+  it('reads targets with and without a network', () => {
+    expect(parseRoute(`/tx/testnet/${HASH}`, '#events')).toEqual({
+      view: 'search', network: 'testnet', target: { type: 'tx', id: HASH }, tab: 'events'
+    });
+    expect(parseRoute('/ledger/123')).toEqual({
+      view: 'search', network: undefined, target: { type: 'ledger', id: '123' }, tab: undefined
+    });
+  });
+
+  it('reads the simulator and compare views', () => {
+    expect(parseRoute('/simulator/futurenet')).toEqual({ view: 'simulator', network: 'futurenet' });
+    expect(parseRoute('/compare')).toEqual({ view: 'compare', network: undefined });
+  });
+
+  it('falls back to an empty search for unknown paths', () => {
+    expect(parseRoute('/')).toEqual({ view: 'search' });
+    expect(parseRoute('/unknown/thing')).toEqual({ view: 'search' });
+    expect(parseRoute('/tx/a/b/c')).toEqual({ view: 'search' });
+  });
+
+  // Links from before the path routes never named mainnet, the only network they supported
+  it('reads the legacy ?tx= form as mainnet unless it names a network', () => {
+    expect(parseRoute('/', '', `?tx=${HASH}`)).toEqual({
+      view: 'search', network: 'mainnet', target: { type: 'tx', id: HASH }, tab: undefined
+    });
+    expect(parseRoute('/', '', `?tx=${HASH}&network=testnet`).network).toBe('testnet');
+  });
+});
+
+describe('buildRoutePath', () => {
+  it('is the inverse of parseRoute', () => {
+    ['/tx/testnet/' + HASH, '/account/' + 'G'.repeat(56), '/simulator', '/compare/mainnet', '/'].forEach(path => {
+      expect(buildRoutePath(parseRoute(path))).toBe(path);
+    });
+  });
+
+  it('keeps the tab of a transaction but not the default one', () => {
+    expect(buildRoutePath({ view: 'search', target: { type: 'tx', id: HASH }, tab: 'events' })).toBe(`/tx/${HASH}#events`);
+    expect(buildRoutePath({ view: 'search', target: { type: 'tx', id: HASH }, tab: 'details' })).toBe(`/tx/${HASH}`);
+  });
+});
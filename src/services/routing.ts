@@ -0,0 +1,46 @@
+import type { AppRoute } from '../types/stellar';
+
+const TARGET_TYPES = ['tx', 'account', 'contract', 'ledger'];
+
+// Search targets live at /<type>/<network>/<id> or /<type>/<id> (current network), the other
+// views at /simulator and /compare with an optional network. The hash selects the transaction tab.
+// The older ?tx=<hash>&network=<id> embed form is still accepted; without a network it meant mainnet
+export const parseRoute = (pathname: string, hash = '', search = ''): AppRoute => {
+  const [first, ...rest] = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  const params = new URLSearchParams(search);
+  const legacyHash = params.get('tx');
+  if (!first && legacyHash) {
+    return {
+      view: 'search',
+      network: params.get('network') || 'mainnet',
+      target: { type: 'tx', id: legacyHash },
+      tab: hash.replace(/^#/, '') || undefined
+    };
+  }
+
+  if (first === 'simulator' || first === 'compare') {
+    return { view: first, network: rest[0] };
+  }
+
+  if (TARGET_TYPES.includes(first) && (rest.length === 1 || rest.length === 2)) {
+    return {
+      view: 'search',
+      network: rest.length === 2 ? rest[0] : undefined,
+      target: { type: first as NonNullable<AppRoute['target']>['type'], id: rest[rest.length - 1] },
+      tab: hash.replace(/^#/, '') || undefined
+    };
+  }
+
+  return { view: 'search' };
+};
+
+export const buildRoutePath = (route: AppRoute): string => {
+  const segments: string[] = route.view === 'search'
+    ? route.target ? [route.target.type, ...(route.network ? [route.network] : []), route.target.id] : []
+    : [route.view, ...(route.network ? [route.network] : [])];
+  const path = `/${segments.map(encodeURIComponent).join('/')}`;
+  return route.view === 'search' && route.target?.type === 'tx' && route.tab && route.tab !== 'details'
+    ? `${path}#${route.tab}`
+    : path;
+};
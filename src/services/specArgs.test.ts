@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { Buffer } from 'buffer';
+import { buildSpecArguments, defaultSpecValue, validateSpecScalar } from './specArgs';
+import { scValToTypedScVal } from './typedArgs';
+import type { ContractSpec } from '../types/stellar';
+
+const ACCOUNT = StellarSdk.StrKey.encodeEd25519PublicKey(Buffer.alloc(32, 1));
+
+const spec: ContractSpec = {
+  wasmHash: '00'.repeat(32),
+  functions: [{
+    name: 'pay',
+    inputs: [
+      { name: 'to', type: 'Address', typeDef: { kind: 'primitive', name: 'address' } },
+      { name: 'amount', type: 'i128', typeDef: { kind: 'primitive', name: 'i128' } },
+      { name: 'memo', type: 'Option<Symbol>', typeDef: { kind: 'option', value: { kind: 'primitive', name: 'symbol' } } },
+      { name: 'terms', type: 'Terms', typeDef: { kind: 'udt', name: 'Terms' } },
+      { name: 'kind', type: 'Kind', typeDef: { kind: 'udt', name: 'Kind' } },
+      { name: 'hash', type: 'BytesN<32>', typeDef: { kind: 'bytesN', n: 32 } }
+    ],
+    outputs: []
+  }],
+  structs: [{
+    name: 'Terms',
+    fields: [
+      { name: 'until', type: 'u64', typeDef: { kind: 'primitive', name: 'u64' } },
+      { name: 'fee', type: 'u32', typeDef: { kind: 'primitive', name: 'u32' } }
+    ]
+  }],
+  unions: [{ name: 'Kind', cases: [{ name: 'Once', types: [] }, { name: 'Every', types: [{ kind: 'primitive', name: 'u32' }] }] }],
+  enums: [],
+  errorEnums: [],
+  entries: []
+};
+
+describe('validateSpecScalar', () => {
+  it('checks integer ranges', () => {
+    expect(validateSpecScalar({ kind: 'primitive', name: 'u32' }, '4294967295')).toBeNull();
+    expect(validateSpecScalar({ kind: 'primitive', name: 'u32' }, '4294967296')).toBe('Out of range for u32 (0 to 4294967295)');
+    expect(validateSpecScalar({ kind: 'primitive', name: 'i64' }, '1.5')).toBe('Expected a whole number');
+  });
+
+  it('checks the length of BytesN', () => {
+    expect(validateSpecScalar({ kind: 'bytesN', n: 4 }, '0x0011aabb')).toBeNull();
+    expect(validateSpecScalar({ kind: 'bytesN', n: 4 }, '0011aa')).toBe('Expected exactly 4 bytes (8 hex characters)');
+    expect(validateSpecScalar({ kind: 'primitive', name: 'bytes' }, 'xyz')).toBe('Expected hex bytes');
+  });
+
+  it('checks addresses and symbols', () => {
+    expect(validateSpecScalar({ kind: 'primitive', name: 'address' }, ACCOUNT)).toBeNull();
+    expect(validateSpecScalar({ kind: 'primitive', name: 'address' }, 'GABC')).toBe('Expected an account (G...) or contract (C...) address');
+    expect(validateSpecScalar({ kind: 'primitive', name: 'symbol' }, 'not a symbol')).not.toBeNull();
+  });
+});
+
+describe('buildSpecArguments', () => {
+  it('encodes form values in parameter order', () => {
+    const args = buildSpecArguments(spec, 'pay', {
+      to: ACCOUNT,
+      amount: '-5',
+      memo: { some: true, value: 'rent' },
+      terms: { fields: { until: '1704067200', fee: '3' } },
+      kind: { tag: 'Every', values: ['7'] },
+      hash: 'ab'.repeat(32)
+    });
+
+    expect(args.map(scValToTypedScVal)).toEqual([
+      { type: 'address', value: ACCOUNT },
+      { type: 'i128', value: '-5' },
+      { type: 'symbol', value: 'rent' },
+      // Struct fields are a map sorted by name
+      {
+        type: 'map',
+        value: [
+          { key: { type: 'symbol', value: 'fee' }, value: { type: 'u32', value: 3 } },
+          { key: { type: 'symbol', value: 'until' }, value: { type: 'u64', value: '1704067200' } }
+        ]
+      },
+      { type: 'vec', value: [{ type: 'symbol', value: 'Every' }, { type: 'u32', value: 7 }] },
+      { type: 'bytes', value: 'ab'.repeat(32), encoding: 'hex' }
+    ]);
+  });
+
+  it('names the field that fails', () => {
+    const values = {
+      to: ACCOUNT,
+      amount: '1',
+      memo: { some: false, value: '' },
+      terms: { fields: { until: '1', fee: '-1' } },
+      kind: { tag: 'Once', values: [] },
+      hash: 'ab'.repeat(32)
+    };
+    expect(() => buildSpecArguments(spec, 'pay', values)).toThrow('terms.fee: Out of range for u32 (0 to 4294967295)');
+    expect(() => buildSpecArguments(spec, 'missing', values)).toThrow("Function 'missing' is not in the contract spec");
+  });
+
+  it('starts unions at their first case', () => {
+    expect(defaultSpecValue(spec, { kind: 'udt', name: 'Kind' })).toEqual({ tag: 'Once', values: [] });
+  });
+});
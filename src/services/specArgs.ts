@@ -0,0 +1,285 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { Buffer } from 'buffer';
+import type { ContractSpec, ContractSpecTypeDef, SpecFormValue } from '../types/stellar';
+
+const INTEGER_RANGES: Record<string, [bigint, bigint]> = {
+  u32: [0n, 2n ** 32n - 1n],
+  i32: [-(2n ** 31n), 2n ** 31n - 1n],
+  u64: [0n, 2n ** 64n - 1n],
+  i64: [-(2n ** 63n), 2n ** 63n - 1n],
+  timepoint: [0n, 2n ** 64n - 1n],
+  duration: [0n, 2n ** 64n - 1n],
+  u128: [0n, 2n ** 128n - 1n],
+  i128: [-(2n ** 127n), 2n ** 127n - 1n],
+  u256: [0n, 2n ** 256n - 1n],
+  i256: [-(2n ** 255n), 2n ** 255n - 1n]
+};
+
+export const isIntegerType = (name: string) => name in INTEGER_RANGES;
+
+export const integerRange = (name: string): [bigint, bigint] | undefined => INTEGER_RANGES[name];
+
+const findUdt = (spec: ContractSpec, name: string) => {
+  const struct = spec.structs.find(s => s.name === name);
+  if (struct) return { kind: 'struct' as const, struct };
+  const union = spec.unions.find(u => u.name === name);
+  if (union) return { kind: 'union' as const, union };
+  const enumDef = spec.enums.find(e => e.name === name) || spec.errorEnums.find(e => e.name === name);
+  if (enumDef) return { kind: 'enum' as const, enumDef };
+  return null;
+};
+
+// Checks the text of a scalar field; returns a message for the form, or null when it converts
+export const validateSpecScalar = (type: ContractSpecTypeDef, text: string): string | null => {
+  if (type.kind === 'bytesN' || (type.kind === 'primitive' && type.name === 'bytes')) {
+    const hex = text.replace(/^0x/, '');
+    if (!/^([0-9a-fA-F]{2})*$/.test(hex)) return 'Expected hex bytes';
+    if (type.kind === 'bytesN' && hex.length !== type.n * 2) return `Expected exactly ${type.n} bytes (${type.n * 2} hex characters)`;
+    return null;
+  }
+  if (type.kind !== 'primitive') return null;
+
+  const range = INTEGER_RANGES[type.name];
+  if (range) {
+    if (!/^-?\d+$/.test(text.trim())) return 'Expected a whole number';
+    const value = BigInt(text.trim());
+    if (value < range[0] || value > range[1]) return `Out of range for ${type.name} (${range[0]} to ${range[1]})`;
+    return null;
+  }
+
+  switch (type.name) {
+    case 'address':
+      return StellarSdk.StrKey.isValidEd25519PublicKey(text) || StellarSdk.StrKey.isValidContract(text)
+        ? null
+        : 'Expected an account (G...) or contract (C...) address';
+    case 'muxed_address':
+      return StellarSdk.StrKey.isValidEd25519PublicKey(text) || StellarSdk.StrKey.isValidMed25519PublicKey(text) || StellarSdk.StrKey.isValidContract(text)
+        ? null
+        : 'Expected a G..., M... or C... address';
+    case 'symbol':
+      return /^[a-zA-Z0-9_]{0,32}$/.test(text) ? null : 'Symbols are up to 32 characters of a-z, A-Z, 0-9 and _';
+    case 'val':
+    case 'error':
+      try {
+        JSON.parse(text);
+        return null;
+      } catch {
+        return 'Expected a JSON value';
+      }
+    default:
+      return null;
+  }
+};
+
+// Starting value for a field of the given type, e.g. an empty list for Vec or the first case of an enum
+export const defaultSpecValue = (spec: ContractSpec, type: ContractSpecTypeDef): SpecFormValue => {
+  switch (type.kind) {
+    case 'primitive':
+      return type.name === 'bool' ? false : type.name === 'void' ? null : '';
+    case 'bytesN':
+      return '';
+    case 'option':
+      return { some: false, value: defaultSpecValue(spec, type.value) };
+    case 'result':
+      return defaultSpecValue(spec, type.ok);
+    case 'vec':
+      return [];
+    case 'map':
+      return { entries: [] };
+    case 'tuple':
+      return type.elements.map(element => defaultSpecValue(spec, element));
+    case 'udt': {
+      const udt = findUdt(spec, type.name);
+      if (udt?.kind === 'struct') {
+        return { fields: Object.fromEntries(udt.struct.fields.map(field => [field.name, defaultSpecValue(spec, field.typeDef)])) };
+      }
+      if (udt?.kind === 'union') {
+        const first = udt.union.cases[0];
+        return { tag: first?.name || '', values: (first?.types || []).map(t => defaultSpecValue(spec, t)) };
+      }
+      if (udt?.kind === 'enum') {
+        return String(udt.enumDef.cases[0]?.value ?? '');
+      }
+      return '';
+    }
+  }
+};
+
+const scValBytes = (value: any): Buffer => {
+  switch (value.switch().name) {
+    case 'scvBytes':
+      return Buffer.from(value.bytes());
+    case 'scvString':
+      return Buffer.from(value.str());
+    case 'scvSymbol':
+      return Buffer.from(value.sym());
+    default:
+      return value.toXDR();
+  }
+};
+
+// Orders ScVals the way the host does (by type, then by value), which ScMap keys must follow
+export const compareScVal = (a: any, b: any): number => {
+  const typeOrder = a.switch().value - b.switch().value;
+  if (typeOrder !== 0) return typeOrder;
+
+  switch (a.switch().name) {
+    case 'scvBool':
+      return Number(a.b()) - Number(b.b());
+    case 'scvU32':
+    case 'scvI32':
+    case 'scvU64':
+    case 'scvI64':
+    case 'scvTimepoint':
+    case 'scvDuration':
+    case 'scvU128':
+    case 'scvI128':
+    case 'scvU256':
+    case 'scvI256': {
+      const left = BigInt(StellarSdk.scValToNative(a));
+      const right = BigInt(StellarSdk.scValToNative(b));
+      return left < right ? -1 : left > right ? 1 : 0;
+    }
+    case 'scvVec': {
+      const left = a.vec() || [];
+      const right = b.vec() || [];
+      for (let i = 0; i < Math.min(left.length, right.length); i++) {
+        const order = compareScVal(left[i], right[i]);
+        if (order !== 0) return order;
+      }
+      return left.length - right.length;
+    }
+    case 'scvAddress':
+      return Buffer.compare(a.address().toXDR(), b.address().toXDR());
+    default:
+      return Buffer.compare(scValBytes(a), scValBytes(b));
+  }
+};
+
+const convertScalar = (name: string, text: string) => {
+  switch (name) {
+    case 'bool':
+      return StellarSdk.xdr.ScVal.scvBool(!!text);
+    case 'void':
+      return StellarSdk.xdr.ScVal.scvVoid();
+    case 'u32':
+      return StellarSdk.xdr.ScVal.scvU32(Number(text));
+    case 'i32':
+      return StellarSdk.xdr.ScVal.scvI32(Number(text));
+    case 'timepoint':
+      return StellarSdk.xdr.ScVal.scvTimepoint(StellarSdk.xdr.Uint64.fromString(text.trim()));
+    case 'duration':
+      return StellarSdk.xdr.ScVal.scvDuration(StellarSdk.xdr.Uint64.fromString(text.trim()));
+    case 'u64':
+    case 'i64':
+    case 'u128':
+    case 'i128':
+    case 'u256':
+    case 'i256':
+      return StellarSdk.nativeToScVal(BigInt(text.trim()), { type: name });
+    case 'bytes':
+      return StellarSdk.xdr.ScVal.scvBytes(Buffer.from(text.replace(/^0x/, ''), 'hex'));
+    case 'string':
+      return StellarSdk.xdr.ScVal.scvString(text);
+    case 'symbol':
+      return StellarSdk.xdr.ScVal.scvSymbol(text);
+    case 'address':
+    case 'muxed_address':
+      return StellarSdk.Address.fromString(text).toScVal();
+    default:
+      // val, error and unknown types take free-form JSON
+      return StellarSdk.nativeToScVal(JSON.parse(text));
+  }
+};
+
+// Converts a form value to the ScVal the contract expects for the given spec type. Errors name
+// the offending field path, e.g. "recipients[2].amount"
+export const specValueToScVal = (spec: ContractSpec, type: ContractSpecTypeDef, value: SpecFormValue, path: string): any => {
+  const fail = (message: string): never => {
+    throw new Error(`${path}: ${message}`);
+  };
+
+  switch (type.kind) {
+    case 'primitive': {
+      if (type.name === 'bool') return convertScalar('bool', value ? 'true' : '');
+      if (type.name === 'void') return convertScalar('void', '');
+      const text = typeof value === 'string' ? value : '';
+      const problem = validateSpecScalar(type, text);
+      if (problem) fail(problem);
+      return convertScalar(type.name, text);
+    }
+    case 'bytesN': {
+      const text = typeof value === 'string' ? value : '';
+      const problem = validateSpecScalar(type, text);
+      if (problem) fail(problem);
+      return convertScalar('bytes', text);
+    }
+    case 'option': {
+      const option = value as { some: boolean; value: SpecFormValue };
+      return option?.some ? specValueToScVal(spec, type.value, option.value, path) : StellarSdk.xdr.ScVal.scvVoid();
+    }
+    case 'result':
+      return specValueToScVal(spec, type.ok, value, path);
+    case 'vec':
+      return StellarSdk.xdr.ScVal.scvVec(((value as SpecFormValue[]) || []).map((item, index) =>
+        specValueToScVal(spec, type.element, item, `${path}[${index}]`)
+      ));
+    case 'tuple':
+      return StellarSdk.xdr.ScVal.scvVec(type.elements.map((element, index) =>
+        specValueToScVal(spec, element, ((value as SpecFormValue[]) || [])[index], `${path}.${index}`)
+      ));
+    case 'map': {
+      const entries = ((value as { entries: Array<{ key: SpecFormValue; value: SpecFormValue }> })?.entries || []).map((entry, index) =>
+        new StellarSdk.xdr.ScMapEntry({
+          key: specValueToScVal(spec, type.key, entry.key, `${path}{${index}}.key`),
+          val: specValueToScVal(spec, type.value, entry.value, `${path}{${index}}.value`)
+        })
+      );
+      entries.sort((a, b) => compareScVal(a.key(), b.key()));
+      return StellarSdk.xdr.ScVal.scvMap(entries);
+    }
+    case 'udt': {
+      const udt = findUdt(spec, type.name);
+      if (!udt) return fail(`Type ${type.name} is not defined in the contract spec`);
+
+      if (udt.kind === 'enum') {
+        const text = typeof value === 'string' ? value : '';
+        if (!udt.enumDef.cases.some(c => String(c.value) === text)) fail(`Choose a ${type.name} case`);
+        return StellarSdk.xdr.ScVal.scvU32(Number(text));
+      }
+
+      if (udt.kind === 'union') {
+        const union = value as { tag: string; values: SpecFormValue[] };
+        const unionCase = udt.union.cases.find(c => c.name === union?.tag);
+        if (!unionCase) return fail(`Choose a ${type.name} variant`);
+        return StellarSdk.xdr.ScVal.scvVec([
+          StellarSdk.xdr.ScVal.scvSymbol(unionCase.name),
+          ...unionCase.types.map((caseType, index) => specValueToScVal(spec, caseType, union.values?.[index], `${path}.${unionCase.name}.${index}`))
+        ]);
+      }
+
+      const fields = (value as { fields: Record<string, SpecFormValue> })?.fields || {};
+      // Tuple structs (fields named 0, 1, ...) are encoded as a vec, named structs as a map sorted by field name
+      if (udt.struct.fields.every((field, index) => field.name === String(index))) {
+        return StellarSdk.xdr.ScVal.scvVec(udt.struct.fields.map(field =>
+          specValueToScVal(spec, field.typeDef, fields[field.name], `${path}.${field.name}`)
+        ));
+      }
+      return StellarSdk.xdr.ScVal.scvMap([...udt.struct.fields]
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+        .map(field => new StellarSdk.xdr.ScMapEntry({
+          key: StellarSdk.xdr.ScVal.scvSymbol(field.name),
+          val: specValueToScVal(spec, field.typeDef, fields[field.name], `${path}.${field.name}`)
+        })));
+    }
+  }
+};
+
+// Builds the argument list for a call from form values keyed by parameter name
+export const buildSpecArguments = (spec: ContractSpec, functionName: string, values: Record<string, SpecFormValue>): any[] => {
+  const fn = spec.functions.find(f => f.name === functionName);
+  if (!fn) {
+    throw new Error(`Function '${functionName}' is not in the contract spec`);
+  }
+  return fn.inputs.map(input => specValueToScVal(spec, input.typeDef, values[input.name], input.name));
+};
@@ -1,29 +1,147 @@
-import { Horizon } from '@stellar/stellar-sdk';
 import * as StellarSdk from '@stellar/stellar-sdk';
 import { Buffer } from 'buffer';
 import type {
   TransactionDetails,
   NetworkConfig,
+  NetworkConfigInput,
   SorobanOperation,
   ContractEvent,
-  SimulationResult
+  SimulationResult,
+  TransactionXdrInput,
+  Transport,
+  AccountTransactionQuery,
+  AccountTransactionPage,
+  ContractActivityQuery,
+  ContractActivityPage,
+  AccountTransactionSummary,
+  LedgerSnapshot,
+  LedgerSorobanUsage,
+  SorobanUsageOptions,
+  TransactionStream,
+  TransactionStreamOptions,
+  TransactionStreamTarget,
+  ContractSpec,
+  SorobanNetworkSettings,
+  ContractErrorInfo,
+  TypedScVal,
+  TransactionSigner,
+  SubmitTransactionOptions,
+  SubmittedTransaction,
+  ExportTransactionOptions,
+  UnsignedTransactionExport,
+  SimulationFork,
+  ForkSimulationResult
 } from '../types/stellar';
 import { Node, Edge } from 'reactflow';
+import { resolveTransport } from './transport';
+import { resolveNetworkConfig, DEFAULT_NETWORK_ID } from './networks';
+import { fetchAccountTransactionPage, toHorizonOperationType } from './history';
+import { fetchContractActivityPage } from './contractActivity';
+import { fetchLedgerSnapshot, fetchSorobanUsage } from './ledger';
+import { watchTransactionStream } from './stream';
+import { fetchContractSpecForContract, fetchContractSpecForHash, findRecordedWasmHash } from './contractSpec';
+import { fetchNetworkSettings } from './networkSettings';
+import { scValToTypedScVal } from './typedArgs';
+import { signSimulatedInvocation, submitSignedTransaction, exportSimulatedInvocation } from './submit';
+import { findContractErrorsInMeta, resolveContractErrors, formatContractError } from './contractErrors';
+import { resimulateFork } from './fork';
+import { extractCallTree, recordCallWasmHashes } from './callTree';
+
+// Each instance owns its network config and transport (Horizon URL, RPC endpoint, passphrase),
+// so several instances can analyze transactions on different networks concurrently
+export class StellarService {
+  readonly networkConfig: NetworkConfig;
+  readonly transport: Transport;
+
+  constructor(config: NetworkConfigInput = {}) {
+    this.networkConfig = resolveNetworkConfig(config);
+    this.transport = resolveTransport(this.networkConfig);
+  }
 
-let server: Horizon.Server;
-let networkConfig: NetworkConfig = {
-  isTestnet: false,
-  networkUrl: 'https://horizon.stellar.org',
-  networkPassphrase: 'Public Global Stellar Network ; September 2015',
-};
+  fetchTransaction(hash: string): Promise<TransactionDetails> {
+    return fetchTransactionDetails(this, hash);
+  }
+
+  analyzeTransactionXdr(input: TransactionXdrInput): Promise<TransactionDetails> {
+    return analyzeXdr(this, input);
+  }
+
+  simulateTransactionWithDebugger(hash: string, horizonTx?: any) {
+    return simulateWithDebugger(this, hash, horizonTx);
+  }
+
+  fetchAccountTransactions(address: string, query?: AccountTransactionQuery): Promise<AccountTransactionPage> {
+    return fetchAccountTransactionPage(this, address, query);
+  }
+
+  fetchContractActivity(contractId: string, query?: ContractActivityQuery): Promise<ContractActivityPage> {
+    return fetchContractActivityPage(this, contractId, query);
+  }
+
+  fetchLedger(ledger: number | 'latest'): Promise<LedgerSnapshot> {
+    return fetchLedgerSnapshot(this, ledger);
+  }
+
+  fetchSorobanUsage(transactions: AccountTransactionSummary[], options?: SorobanUsageOptions): Promise<LedgerSorobanUsage[]> {
+    return fetchSorobanUsage(this, transactions, options);
+  }
+
+  watchTransactions(target: TransactionStreamTarget, options: TransactionStreamOptions): TransactionStream {
+    return watchTransactionStream(this, target, options);
+  }
+
+  fetchContractSpec(contractId: string): Promise<ContractSpec> {
+    return fetchContractSpecForContract(this, contractId);
+  }
+
+  fetchContractSpecByHash(wasmHash: string): Promise<ContractSpec> {
+    return fetchContractSpecForHash(this, wasmHash);
+  }
+
+  fetchSorobanSettings(options?: { refresh?: boolean }): Promise<SorobanNetworkSettings> {
+    return fetchNetworkSettings(this, options);
+  }
+
+  signSimulatedTransaction(
+    transaction: StellarSdk.Transaction,
+    simulation: StellarSdk.rpc.Api.SimulateTransactionSuccessResponse,
+    signer: TransactionSigner,
+    options?: SubmitTransactionOptions
+  ): Promise<string> {
+    return signSimulatedInvocation(this, transaction, simulation, signer, options);
+  }
+
+  submitTransaction(signedXdr: string, options?: SubmitTransactionOptions): Promise<SubmittedTransaction> {
+    return submitSignedTransaction(this, signedXdr, options);
+  }
+
+  exportSimulatedTransaction(
+    transaction: StellarSdk.Transaction,
+    simulation: StellarSdk.rpc.Api.SimulateTransactionSuccessResponse,
+    options?: ExportTransactionOptions
+  ): Promise<UnsignedTransactionExport> {
+    return exportSimulatedInvocation(this, transaction, simulation, options);
+  }
+
+  resimulateFork(fork: SimulationFork, args?: TypedScVal[]): Promise<ForkSimulationResult> {
+    return resimulateFork(this, fork, args);
+  }
+}
+
+// Default instance behind the standalone exports
+let defaultService = new StellarService({ networkId: DEFAULT_NETWORK_ID });
 
-export const setNetwork = (config: NetworkConfig) => {
-  networkConfig = config;
-  server = new Horizon.Server(config.networkUrl);
+export const getDefaultService = (): StellarService => defaultService;
+
+export const setNetwork = (config: NetworkConfigInput) => {
+  defaultService = new StellarService(config);
 };
 
-// Initialize with testnet by default
-setNetwork(networkConfig);
+// Horizon collection endpoints wrap their items in _embedded.records
+const fetchHorizonRecords = async (service: StellarService, path: string): Promise<any[]> => {
+  const page = await service.transport.horizon(path);
+  return page?._embedded?.records || [];
+};
 
 // Helper function to safely extract account address from source_account field
 // The Horizon API sometimes returns source_account as an array [0, "address"] instead of a string
@@ -69,13 +187,23 @@ function serializedBufferToUint8Array(obj: any): Uint8Array {
   return bytes;
 }
 
-// Helper function to decode ScVal (Stellar Contract Value) to human-readable format
-export function decodeScVal(scVal: any): any {
+// Helper function to decode ScVal (Stellar Contract Value) to human-readable format.
+// With { typed: true } it returns a TypedScVal tree instead, which keeps every ScVal type
+// (or null when the input is not an ScVal)
+export function decodeScVal(scVal: any, options: { typed?: boolean } = {}): any {
   // Handle null/undefined values
   if (scVal === null || scVal === undefined) {
     return null;
   }
 
+  if (options.typed) {
+    try {
+      return scValToTypedScVal(scVal);
+    } catch {
+      return null;
+    }
+  }
+
   // CRITICAL: If value is already a primitive (string/number/boolean), return it directly
   // This handles cases where RPC returns already-decoded event topics/data
   if (typeof scVal === 'string' || typeof scVal === 'number' || typeof scVal === 'boolean') {
@@ -400,21 +528,82 @@ function formatAddress(address: string): string {
   return address;
 }
 
-export const fetchTransaction = async (hash: string): Promise<TransactionDetails> => {
+// Helper to describe a ledger key as a single comparable line
+function describeLedgerKey(key: any): string {
+  const type = key.switch().name;
   try {
-
-    if (!server) {
-      throw new Error('Horizon server not initialized. Please refresh the page.');
+    switch (type) {
+      case 'account':
+        return `account ${StellarSdk.StrKey.encodeEd25519PublicKey(key.account().accountId().ed25519())}`;
+      case 'trustline': {
+        const trustline = key.trustLine();
+        const asset = trustline.asset();
+        const assetName = asset.switch().name === 'assetTypePoolShare'
+          ? `pool ${asset.liquidityPoolId().toString('hex')}`
+          : asset.switch().name === 'assetTypeNative'
+            ? 'XLM'
+            : StellarSdk.Asset.fromOperation(asset).toString();
+        return `trustline ${StellarSdk.StrKey.encodeEd25519PublicKey(trustline.accountId().ed25519())} ${assetName}`;
+      }
+      case 'contractData': {
+        const contractData = key.contractData();
+        const contractId = StellarSdk.Address.fromScAddress(contractData.contract()).toString();
+        const dataKey = contractData.key().switch().name === 'scvLedgerKeyContractInstance'
+          ? 'instance'
+          : JSON.stringify(decodeScVal(contractData.key()), (_, value) => (typeof value === 'bigint' ? value.toString() : value));
+        return `contractData ${contractId} ${contractData.durability().name} ${dataKey}`;
+      }
+      case 'contractCode':
+        return `contractCode ${key.contractCode().hash().toString('hex')}`;
+      default:
+        return type;
     }
-    const tx = await server.transactions().transaction(hash).call();
+  } catch {
+    return type;
+  }
+}
+
+// Footprint and auth entries only exist in the envelope; Horizon and RPC responses do not list them
+const extractEnvelopeSorobanDetails = (envelopeXdr: string) => {
+  const envelope = StellarSdk.xdr.TransactionEnvelope.fromXDR(envelopeXdr, 'base64');
+  const innerEnvelope = envelope.switch().name === 'envelopeTypeTxFeeBump'
+    ? envelope.feeBump().tx().innerTx().v1()
+    : envelope.switch().name === 'envelopeTypeTx' ? envelope.v1() : null;
+  if (!innerEnvelope) {
+    return null;
+  }
+
+  const tx = innerEnvelope.tx();
+  let footprint: { readOnly: string[]; readWrite: string[] } | undefined;
+  if (tx.ext().switch() === 1) {
+    const ledgerFootprint = tx.ext().sorobanData().resources().footprint();
+    footprint = {
+      readOnly: ledgerFootprint.readOnly().map(describeLedgerKey),
+      readWrite: ledgerFootprint.readWrite().map(describeLedgerKey)
+    };
+  }
+
+  const authByOperation: string[][] = tx.operations()
+    .filter((op: any) => op.body().switch().name === 'invokeHostFunction')
+    .map((op: any) => op.body().invokeHostFunctionOp().auth().map((entry: any) => entry.toXDR('base64')));
+
+  return { footprint, authByOperation };
+};
+
+export const fetchTransaction = (hash: string): Promise<TransactionDetails> => {
+  return defaultService.fetchTransaction(hash);
+};
+
+const fetchTransactionDetails = async (service: StellarService, hash: string): Promise<TransactionDetails> => {
+  const { transport } = service;
+  try {
+    const tx = await transport.horizon(`/transactions/${hash}`);
 
     // Fetch full transaction data from Horizon to get XDR fields
     let resultMetaXdr = null;
     let sorobanMetaXdr = null;
     try {
-      const horizonUrl = `${networkConfig.networkUrl}/transactions/${hash}`;
-      const response = await fetch(horizonUrl);
-      const txData = await response.json();
+      const txData = tx;
 
       const xdrFields = Object.keys(txData).filter(k => k.includes('xdr') || k.includes('meta'));
 
@@ -452,10 +641,8 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
               const innerHash = txData.inner_transaction.hash;
 
               // Fetch the inner transaction to get soroban_meta_xdr
-              const innerUrl = `${networkConfig.networkUrl}/transactions/${innerHash}`;
               try {
-                const innerResponse = await fetch(innerUrl);
-                const innerTxData = await innerResponse.json();
+                const innerTxData = await transport.horizon(`/transactions/${innerHash}`);
                 const innerXdrFields = Object.keys(innerTxData).filter(k => k.includes('xdr') || k.includes('meta'));
                 innerXdrFields.forEach(field => {
                 });
@@ -571,19 +758,16 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
       }
     } catch (err) {
     }
-    const operations = await server.operations()
-      .forTransaction(hash)
-      .limit(200)
-      .call();
+    const operations = { records: await fetchHorizonRecords(service, `/transactions/${hash}/operations?limit=200`) };
 
     // Normalize source_account fields immediately - Horizon sometimes returns arrays
-    operations.records = operations.records.map(op => ({
+    operations.records = operations.records.map((op: any) => ({
       ...op,
       source_account: extractAccountAddress(op.source_account)
     }));
     
     // Log each operation in detail
-    operations.records.forEach((op, index) => {
+    operations.records.forEach((op: any, index: number) => {
       
       if (op.type === 'invoke_host_function') {
         
@@ -621,7 +805,7 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
     // Try to get Soroban details for both testnet and mainnet
     let sorobanData = null;
     try {
-      sorobanData = await querySorobanRpc(hash);
+      sorobanData = await querySorobanRpc(service, hash);
 
       // CRITICAL: Add resultMetaXdr from RPC to tx object for state changes extraction
       if (sorobanData && sorobanData.resultMetaXdr) {
@@ -629,26 +813,14 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
       } else if (sorobanData && sorobanData.status === 'NOT_FOUND') {
         // Transaction not found in primary RPC, try alternative endpoints
 
-        const alternativeRpcUrls = networkConfig.isTestnet
-          ? ['https://soroban-testnet.stellar.org', 'https://rpc-futurenet.stellar.org']
-          : ['https://mainnet.sorobanrpc.com', 'https://soroban-rpc.mainnet.stellarchain.io'];
+        const alternativeRpcUrls = transport.fallbackRpcUrls.filter(rpcUrl => rpcUrl !== transport.rpcUrl);
 
         for (const rpcUrl of alternativeRpcUrls) {
           try {
-            const altResponse = await fetch(rpcUrl, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                jsonrpc: '2.0',
-                id: '1',
-                method: 'getTransaction',
-                params: { hash }
-              })
-            });
-            const altData = await altResponse.json();
-            if (altData.result && altData.result.status === 'SUCCESS' && altData.result.resultMetaXdr) {
-              sorobanData = altData.result;
-              (tx as any).result_meta_xdr = altData.result.resultMetaXdr;
+            const altResult = await transport.rpc('getTransaction', { hash }, rpcUrl);
+            if (altResult && altResult.status === 'SUCCESS' && altResult.resultMetaXdr) {
+              sorobanData = altResult;
+              (tx as any).result_meta_xdr = altResult.resultMetaXdr;
               break;
             }
           } catch (altError) {
@@ -667,7 +839,7 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
       if (op.type === 'invoke_host_function') {
 
         // Try multiple extraction methods - pass transaction envelope XDR directly
-        const contractId = await extractContractId(op, sorobanData, i, tx.hash, tx.envelope_xdr);
+        const contractId = await extractContractId(op, sorobanData, i, tx.hash, tx.envelope_xdr, service.networkConfig.networkId);
 
         if (contractId && contractId !== 'Unknown') {
           contractIds.set(i, contractId);
@@ -676,8 +848,7 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
           let opEffects: any[] = [];
           let opEvents: any[] = [];
           try {
-            const effectsResponse = await server.effects().forOperation(op.id).limit(200).call();
-            opEffects = effectsResponse.records || [];
+            opEffects = await fetchHorizonRecords(service, `/operations/${op.id}/effects?limit=200`);
 
             // Convert effects to events format for display
             opEvents = opEffects
@@ -726,13 +897,17 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
             });
           }
 
+          const wasmHash = findRecordedWasmHash(contractId, tx.envelope_xdr, tx.result_meta_xdr);
+
           sorobanOperations.push({
             type: 'soroban',
             contractId,
             functionName: functionDetails.functionName,
             args: functionDetails.args,
+            typedArgs: functionDetails.typedArgs,
             auth: functionDetails.auth,
             result: functionDetails.result,
+            typedResult: functionDetails.typedResult,
             error: functionDetails.error,
             events: allEvents,
             effects: ledgerEffects,
@@ -743,7 +918,7 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
             ...(functionDetails.instanceStorage && { instanceStorage: functionDetails.instanceStorage }),
             ...(functionDetails.persistentStorage && { persistentStorage: functionDetails.persistentStorage }),
             ...(functionDetails.temporaryStorage && { temporaryStorage: functionDetails.temporaryStorage }),
-            ...(functionDetails.wasmHash && { wasmHash: functionDetails.wasmHash }),
+            ...(wasmHash && { wasmHash }),
             ...(functionDetails.contractExecutable && { contractExecutable: functionDetails.contractExecutable }),
             ...(functionDetails.hostFunctionType && { hostFunctionType: functionDetails.hostFunctionType })
           } as any);
@@ -785,6 +960,8 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
                   type: event.type,
                   topics: decodedTopics,
                   data: decodedData,
+                  typedTopics: event.typedTopics,
+                  typedData: event.typedData,
                   inSuccessfulContractCall: event.inSuccessfulContractCall
                 };
               });
@@ -808,8 +985,7 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
     // Fetch transaction effects
     let effects: any[] = [];
     try {
-      const effectsResponse = await tx.effects({ limit: 200 });
-      effects = effectsResponse.records || [];
+      effects = await fetchHorizonRecords(service, `/transactions/${hash}/effects?limit=200`);
     } catch (effectsError: any) {
     }
     const sourceAccount = extractAccountAddress(tx.source_account);
@@ -828,6 +1004,21 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
       ledgerTimestamp: new Date(tx.created_at).getTime()
     };
 
+    if ((tx as any).envelope_xdr) {
+      try {
+        const envelopeDetails = extractEnvelopeSorobanDetails((tx as any).envelope_xdr);
+        if (envelopeDetails) {
+          result.footprint = envelopeDetails.footprint;
+          sorobanOperations.forEach((sorobanOp, index) => {
+            if ((!sorobanOp.auth || sorobanOp.auth.length === 0) && envelopeDetails.authByOperation[index]) {
+              sorobanOp.auth = envelopeDetails.authByOperation[index];
+            }
+          });
+        }
+      } catch (envelopeErr) {
+      }
+    }
+
     // Add error information for failed transactions
     if (!tx.successful) {
       result.errorMessage = (tx as any).result_codes?.transaction;
@@ -836,11 +1027,32 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
 
       // Try to decode XDR for better error analysis
       try {
-        result.debugInfo = await decodeTransactionXdr(tx);
+        result.debugInfo = await decodeTransactionXdr(tx, service);
       } catch (xdrError) {
       }
     }
 
+    // Successful transactions keep their raw XDR too, e.g. for forking their contract call
+    if (!result.debugInfo && (tx as any).envelope_xdr) {
+      result.debugInfo = {
+        resultXdr: (tx as any).result_xdr,
+        envelopeXdr: (tx as any).envelope_xdr,
+        metaXdr: (tx as any).result_meta_xdr
+      };
+    }
+
+    if (sorobanOperations.length > 0) {
+      const diagnosticEventsXdr = sorobanData?.diagnosticEventsXdr;
+      const callTree = extractCallTree(
+        sourceAccount,
+        (tx as any).result_meta_xdr,
+        diagnosticEventsXdr && (Array.isArray(diagnosticEventsXdr) ? diagnosticEventsXdr : [diagnosticEventsXdr])
+      );
+      recordCallWasmHashes(callTree.calls, sorobanOperations, (tx as any).envelope_xdr, (tx as any).result_meta_xdr);
+      result.callTree = callTree.calls;
+      result.callTreeResources = callTree.resources;
+    }
+
     // Add simulation result for Soroban transactions
     if (sorobanOperations.length > 0) {
       try {
@@ -850,7 +1062,7 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
           result_meta_xdr: resultMetaXdr,
           soroban_meta_xdr: sorobanMetaXdr
         };
-        const simResult = await simulateTransactionWithDebugger(hash, txWithMeta);
+        const simResult = await simulateWithDebugger(service, hash, txWithMeta);
         result.simulationResult = {
           ...simResult.simulation,
           enhancedDebugInfo: simResult.debugInfo
@@ -865,6 +1077,253 @@ export const fetchTransaction = async (hash: string): Promise<TransactionDetails
   }
 };
 
+export const fetchAccountTransactions = (address: string, query?: AccountTransactionQuery): Promise<AccountTransactionPage> => {
+  return defaultService.fetchAccountTransactions(address, query);
+};
+
+export const fetchContractActivity = (contractId: string, query?: ContractActivityQuery): Promise<ContractActivityPage> => {
+  return defaultService.fetchContractActivity(contractId, query);
+};
+
+export const fetchLedger = (ledger: number | 'latest'): Promise<LedgerSnapshot> => {
+  return defaultService.fetchLedger(ledger);
+};
+
+export const fetchLedgerSorobanUsage = (
+  transactions: AccountTransactionSummary[],
+  options?: SorobanUsageOptions
+): Promise<LedgerSorobanUsage[]> => {
+  return defaultService.fetchSorobanUsage(transactions, options);
+};
+
+// Subscribes on the current default network; switching networks does not move a running stream
+export const watchTransactions = (target: TransactionStreamTarget, options: TransactionStreamOptions): TransactionStream => {
+  return defaultService.watchTransactions(target, options);
+};
+
+export const fetchContractSpec = (contractId: string): Promise<ContractSpec> => {
+  return defaultService.fetchContractSpec(contractId);
+};
+
+export const fetchContractSpecByHash = (wasmHash: string): Promise<ContractSpec> => {
+  return defaultService.fetchContractSpecByHash(wasmHash);
+};
+
+export const fetchSorobanSettings = (options?: { refresh?: boolean }): Promise<SorobanNetworkSettings> => {
+  return defaultService.fetchSorobanSettings(options);
+};
+
+export const signSimulatedTransaction = (
+  transaction: StellarSdk.Transaction,
+  simulation: StellarSdk.rpc.Api.SimulateTransactionSuccessResponse,
+  signer: TransactionSigner,
+  options?: SubmitTransactionOptions
+): Promise<string> => {
+  return defaultService.signSimulatedTransaction(transaction, simulation, signer, options);
+};
+
+export const submitTransaction = (signedXdr: string, options?: SubmitTransactionOptions): Promise<SubmittedTransaction> => {
+  return defaultService.submitTransaction(signedXdr, options);
+};
+
+export const exportSimulatedTransaction = (
+  transaction: StellarSdk.Transaction,
+  simulation: StellarSdk.rpc.Api.SimulateTransactionSuccessResponse,
+  options?: ExportTransactionOptions
+): Promise<UnsignedTransactionExport> => {
+  return defaultService.exportSimulatedTransaction(transaction, simulation, options);
+};
+
+export const resimulateTransaction = (fork: SimulationFork, args?: TypedScVal[]): Promise<ForkSimulationResult> => {
+  return defaultService.resimulateFork(fork, args);
+};
+
+// Offline counterpart of fetchTransaction: builds TransactionDetails purely from
+// envelope/result/meta XDR (e.g. from an indexer) without touching Horizon or Soroban RPC
+export const analyzeTransactionXdr = (input: TransactionXdrInput): Promise<TransactionDetails> => {
+  return defaultService.analyzeTransactionXdr(input);
+};
+
+const analyzeXdr = async (service: StellarService, input: TransactionXdrInput): Promise<TransactionDetails> => {
+  try {
+    const networkPassphrase = input.networkPassphrase || service.networkConfig.networkPassphrase;
+    const parsed = StellarSdk.TransactionBuilder.fromXDR(input.envelopeXdr, networkPassphrase);
+    const innerTx = parsed instanceof StellarSdk.FeeBumpTransaction ? parsed.innerTransaction : parsed;
+    const hash = input.hash || parsed.hash().toString('hex');
+    const sourceAccount = extractAccountAddress(innerTx.source);
+
+    // Parts that did not decode; the rest of the analysis goes ahead without them
+    const decodeErrors: string[] = [];
+    let transactionResult: any = null;
+    let succeeded: boolean | null = null;
+    let feeCharged = '0';
+    if (input.resultXdr) {
+      try {
+        transactionResult = StellarSdk.xdr.TransactionResult.fromXDR(input.resultXdr, 'base64');
+        const resultCode = transactionResult.result().switch().name;
+        succeeded = resultCode === 'txSuccess' || resultCode === 'txFeeBumpInnerSuccess';
+        feeCharged = transactionResult.feeCharged().toString();
+      } catch (resultErr: any) {
+        decodeErrors.push(`Result XDR: ${resultErr.message}`);
+      }
+    }
+
+    let meta: any = null;
+    let returnValue: any = null;
+    let typedReturnValue: TypedScVal | null = null;
+    if (input.resultMetaXdr) {
+      try {
+        meta = StellarSdk.xdr.TransactionMeta.fromXDR(input.resultMetaXdr, 'base64');
+        const metaVersion = meta.switch() === 4 ? meta.v4() : meta.switch() === 3 ? meta.v3() : null;
+        // stellar-core only records operation meta for transactions that succeeded
+        if (succeeded === null && metaVersion) {
+          succeeded = innerTx.operations.length > 0 && metaVersion.operations().length === innerTx.operations.length;
+        }
+        const sorobanMeta = metaVersion?.sorobanMeta();
+        if (sorobanMeta && sorobanMeta.returnValue()) {
+          returnValue = decodeScVal(sorobanMeta.returnValue());
+          typedReturnValue = decodeScVal(sorobanMeta.returnValue(), { typed: true });
+        }
+      } catch (metaErr: any) {
+        decodeErrors.push(`Result meta XDR: ${metaErr.message}`);
+      }
+    }
+
+    const debugInfo = await decodeTransactionXdr({
+      result_xdr: input.resultXdr,
+      envelope_xdr: input.envelopeXdr,
+      result_meta_xdr: input.resultMetaXdr
+    });
+    const operationErrors = debugInfo?.errorAnalysis?.operationErrors || [];
+
+    // Shape operations like Horizon records so the existing flow builders can render them
+    const operations = innerTx.operations.map((op: any, index: number) => {
+      const record: any = {
+        id: `${hash}-${index}`,
+        type: toHorizonOperationType(op.type),
+        source_account: extractAccountAddress(op.source || sourceAccount),
+        transaction_hash: hash,
+        transaction_successful: succeeded === true
+      };
+      if (op.type === 'invokeHostFunction') {
+        record.function = `HostFunctionType${op.func.switch().name.charAt(0).toUpperCase()}${op.func.switch().name.slice(1)}`;
+        record.host_function_xdr = op.func.toXDR('base64');
+      } else {
+        Object.keys(op).forEach(key => {
+          if (key !== 'type' && key !== 'source') {
+            record[key] = typeof op[key] === 'object' && op[key] !== null ? op[key].toString() : op[key];
+          }
+        });
+      }
+      return record;
+    });
+
+    const sorobanOperations: SorobanOperation[] = [];
+    const events: ContractEvent[] = [];
+
+    innerTx.operations.forEach((op: any, index: number) => {
+      if (op.type !== 'invokeHostFunction') return;
+
+      let contractId = 'Unknown Contract';
+      let functionName = 'invoke';
+      let args: any[] = [];
+      let typedArgs: TypedScVal[] = [];
+      if (op.func.switch().name === 'hostFunctionTypeInvokeContract') {
+        const invokeContract = op.func.invokeContract();
+        try {
+          contractId = StellarSdk.Address.fromScAddress(invokeContract.contractAddress()).toString();
+        } catch (addrErr) {
+        }
+        functionName = invokeContract.functionName().toString();
+        args = invokeContract.args().map((arg: any) => {
+          try {
+            return decodeScVal(arg);
+          } catch (e) {
+            return arg.toString();
+          }
+        });
+        typedArgs = invokeContract.args().map((arg: any) => decodeScVal(arg, { typed: true }));
+      }
+
+      const metaDetails = meta ? extractMetaDetails(meta, index, contractId) : null;
+      const opEvents = (metaDetails?.events || []).map((event: any) => ({
+        contractId: event.contractId,
+        type: event.type,
+        topics: event.topics,
+        data: event.data,
+        typedTopics: event.typedTopics,
+        typedData: event.typedData,
+        inSuccessfulContractCall: event.inSuccessfulContractCall
+      }));
+      const opError = operationErrors.find((err: any) => err.operation === index);
+
+      sorobanOperations.push({
+        type: 'soroban',
+        contractId,
+        functionName,
+        args,
+        typedArgs,
+        auth: (op.auth || []).map((entry: any) => entry.toXDR('base64')),
+        result: returnValue,
+        typedResult: typedReturnValue,
+        error: opError ? opError.error : undefined,
+        events: opEvents,
+        stateChanges: metaDetails?.stateChanges || [],
+        ttlExtensions: metaDetails?.ttlExtensions || [],
+        resourceUsage: metaDetails?.resourceUsage || undefined,
+        crossContractCalls: metaDetails?.crossContractCalls || [],
+        wasmHash: findRecordedWasmHash(contractId, input.envelopeXdr, input.resultMetaXdr),
+        ...(metaDetails?.hostFunctionType && { hostFunctionType: metaDetails.hostFunctionType })
+      } as any);
+
+      events.push(...opEvents.filter((event: any) => {
+        const firstTopic = event.topics && event.topics.length > 0 ? String(event.topics[0]).toLowerCase() : '';
+        return firstTopic !== 'diagnostic_event';
+      }));
+    });
+
+    const result: TransactionDetails = {
+      hash,
+      sourceAccount,
+      fee: feeCharged,
+      feeCharged,
+      maxFee: String(parsed.fee),
+      operations,
+      status: succeeded === null ? 'unknown' : succeeded ? 'success' : 'failed',
+      sorobanOperations,
+      events,
+      effects: [],
+      ledgerTimestamp: input.ledgerTimestamp ?? 0
+    };
+
+    try {
+      result.footprint = extractEnvelopeSorobanDetails(input.envelopeXdr)?.footprint;
+    } catch (envelopeErr: any) {
+      decodeErrors.push(`Soroban footprint: ${envelopeErr.message}`);
+    }
+
+    if (sorobanOperations.length > 0) {
+      const callTree = extractCallTree(sourceAccount, input.resultMetaXdr);
+      recordCallWasmHashes(callTree.calls, sorobanOperations, input.envelopeXdr, input.resultMetaXdr);
+      result.callTree = callTree.calls;
+      result.callTreeResources = callTree.resources;
+    }
+
+    if (debugInfo || decodeErrors.length > 0) {
+      result.debugInfo = { ...debugInfo, ...(decodeErrors.length > 0 && { decodeErrors }) };
+    }
+
+    if (succeeded === false) {
+      result.errorMessage = debugInfo?.errorAnalysis?.outerError || debugInfo?.errorAnalysis?.innerError || undefined;
+      result.operationErrors = operationErrors.map((err: any) => err.error);
+    }
+
+    return result;
+  } catch (error: any) {
+    throw new Error(`Failed to analyze transaction XDR: ${error.message}`);
+  }
+};
+
 const scValToNative = (scVal: any): any => {
   try {
     const valType = scVal.switch().name || String(scVal.switch());
@@ -930,55 +1389,11 @@ const scValToNative = (scVal: any): any => {
   }
 };
 
-const querySorobanRpc = async (hash: string) => {
-  const rpcUrl = networkConfig.isTestnet
-    ? 'https://soroban-testnet.stellar.org'
-    : 'https://mainnet.sorobanrpc.com';
-
-  const response = await fetch(rpcUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      jsonrpc: '2.0',
-      id: '1',
-      method: 'getTransaction',
-      params: {
-        hash: hash
-      }
-    })
-  });
-
-  if (!response.ok) {
-    throw new Error(`Soroban RPC HTTP error: ${response.status}`);
-  }
-
-  const data = await response.json();
-
-  if (data.error) {
-    throw new Error(`Soroban RPC error: ${data.error.message}`);
-  }
-
-  // Log all field names to find the meta XDR
-  if (data.result) {
-    Object.keys(data.result).forEach(key => {
-      const value = data.result[key];
-      const type = typeof value;
-      const preview = type === 'string' ? (value.length > 50 ? `${value.substring(0, 50)}...` : value) : type;
-    });
-
-    // Check if status is SUCCESS and resultMetaXdr exists
-    if (data.result.status === 'SUCCESS' && data.result.resultMetaXdr) {
-    } else if (data.result.status === 'NOT_FOUND') {
-    } else if (data.result.status === 'FAILED') {
-    }
-  }
-
-  return data.result;
+const querySorobanRpc = async (service: StellarService, hash: string) => {
+  return service.transport.rpc('getTransaction', { hash });
 };
 
-const extractContractId = async (operation: any, sorobanData: any, operationIndex: number, transactionHash?: string, envelopeXdr?: string): Promise<string> => {
+const extractContractId = async (operation: any, sorobanData: any, operationIndex: number, transactionHash?: string, envelopeXdr?: string, networkId?: string): Promise<string> => {
   
   if (operation.type !== 'invoke_host_function') {
     return `Non_Contract_Op${operationIndex + 1}`;
@@ -1124,7 +1539,7 @@ const extractContractId = async (operation: any, sorobanData: any, operationInde
   } catch (xdrError) {
   }
   
-  if (!networkConfig.isTestnet) {
+  if (networkId === 'mainnet') {
     return `Mainnet_Contract_Op${operationIndex + 1}`;
   }
   
@@ -1276,6 +1691,8 @@ const extractFunctionDetails = (operation: any, sorobanData: any, operationIndex
                 type: 'contract',
                 topics,
                 data: eventData,
+                typedTopics: event.body().v0().topics().map((topic: any) => decodeScVal(topic, { typed: true })),
+                typedData: decodeScVal(event.body().v0().data(), { typed: true }),
                 inSuccessfulContractCall: diagnosticEvent.inSuccessfulContractCall()
               });
             } catch (err) {
@@ -1312,6 +1729,7 @@ const extractFunctionDetails = (operation: any, sorobanData: any, operationIndex
             return arg.toString();
           }
         });
+        details.typedArgs = args.map((arg: any) => decodeScVal(arg, { typed: true }));
       }
     }
   } catch (error) {
@@ -1348,6 +1766,7 @@ const extractFunctionDetails = (operation: any, sorobanData: any, operationIndex
       // details.events = [...details.events, ...metaDetails.events];
       details.stateChanges = metaDetails.stateChanges;
       details.ttlExtensions = metaDetails.ttlExtensions;
+      details.typedResult = metaDetails.typedResult;
       details.resourceUsage = metaDetails.resourceUsage;
       details.crossContractCalls = metaDetails.crossContractCalls;
     } catch (error) {
@@ -1455,12 +1874,22 @@ const extractSingleEntryData = (ledgerEntry: any) => {
       keyDisplay = `["${String(decodedKey)}"]`;
     }
 
+    let typedVal: TypedScVal | null = null;
+    try {
+      typedVal = decodeScVal(contractData.val(), { typed: true });
+    } catch (e) {
+      // Value might not be present
+    }
+
     return {
       type: 'contractData',
       contractId,
       storageType,
       key: decodedKey,
       data: decodedVal,
+      typedKey: decodeScVal(keyScVal, { typed: true }) as TypedScVal | null,
+      typedData: typedVal,
+      typedBefore: undefined as TypedScVal | null | undefined,
       keyDisplay,
       before: undefined
     };
@@ -1531,6 +1960,9 @@ const extractLedgerEntryData = (change: any, changeType: string) => {
       const beforeInfo = extractSingleEntryData(beforeEntry);
       if (beforeInfo && beforeInfo.data !== undefined) {
         entryInfo.before = beforeInfo.data;
+        if (entryInfo.type === 'contractData' && beforeInfo.type === 'contractData') {
+          entryInfo.typedBefore = beforeInfo.typedData;
+        }
       }
     }
 
@@ -1540,6 +1972,30 @@ const extractLedgerEntryData = (change: any, changeType: string) => {
   }
 };
 
+// Collect diagnostic events from v3/v4 meta. v3 keeps them under sorobanMeta, v4 at the top level.
+// When the node did not record diagnostics, fall back to the operation's contract events
+// (wrapped so they expose the same event()/inSuccessfulContractCall() accessors)
+const getMetaDiagnosticEvents = (metaVersion: any, operationIndex: number, isV4: boolean): any[] => {
+  try {
+    const diagnosticEvents = isV4
+      ? metaVersion.diagnosticEvents()
+      : metaVersion.sorobanMeta()?.diagnosticEvents();
+    if (diagnosticEvents && diagnosticEvents.length > 0) {
+      return diagnosticEvents;
+    }
+
+    const contractEvents = isV4
+      ? metaVersion.operations()[operationIndex]?.events()
+      : metaVersion.sorobanMeta()?.events();
+    return (contractEvents || []).map((event: any) => ({
+      event: () => event,
+      inSuccessfulContractCall: () => true
+    }));
+  } catch (e) {
+    return [];
+  }
+};
+
 const extractMetaDetails = (meta: any, operationIndex: number, knownContractId?: string) => {
   const details: any = {
     events: [] as any[],
@@ -1606,19 +2062,26 @@ const extractMetaDetails = (meta: any, operationIndex: number, knownContractId?:
                       storageType: ledgerEntry.storageType,
                       key: ledgerEntry.key,
                       keyDisplay: ledgerEntry.keyDisplay,
+                      ...(ledgerEntry.type === 'contractData' && { typedKey: ledgerEntry.typedKey }),
                       description: `${actionType} ${ledgerEntry.storageType || ledgerEntry.type} data ${ledgerEntry.keyDisplay || ''}`
                     };
 
                     // Add before/after values
+                    const typedData = ledgerEntry.type === 'contractData' ? ledgerEntry.typedData : undefined;
                     if (isUpdated) {
                       stateChange.before = ledgerEntry.before;
                       stateChange.after = ledgerEntry.data;
+                      stateChange.typedBefore = ledgerEntry.type === 'contractData' ? ledgerEntry.typedBefore : undefined;
+                      stateChange.typedAfter = typedData;
                     } else if (isCreated) {
                       stateChange.after = ledgerEntry.data;
+                      stateChange.typedAfter = typedData;
                     } else if (isRemoval) {
                       stateChange.before = ledgerEntry.data;
+                      stateChange.typedBefore = typedData;
                     } else {
                       stateChange.value = ledgerEntry.data;
+                      stateChange.typedValue = typedData;
                     }
 
                     details.stateChanges.push(stateChange);
@@ -1696,6 +2159,7 @@ const extractMetaDetails = (meta: any, operationIndex: number, knownContractId?:
           try {
             const returnVal = sorobanMeta.returnValue();
             const decodedReturn = decodeScVal(returnVal);
+            details.typedResult = decodeScVal(returnVal, { typed: true });
 
             // If return value is a map/object, treat as storage
             if (typeof decodedReturn === 'object' && !Array.isArray(decodedReturn)) {
@@ -1722,9 +2186,10 @@ const extractMetaDetails = (meta: any, operationIndex: number, knownContractId?:
       }
 
       // Extract diagnostic events with detailed data
+      const metaEvents = getMetaDiagnosticEvents(v3, operationIndex, isV4);
 
-      if (v3.diagnosticEvents && v3.diagnosticEvents()) {
-        const events = v3.diagnosticEvents();
+      if (metaEvents.length > 0) {
+        const events = metaEvents;
         events.forEach((diagnosticEvent: any, eventIdx: number) => {
           try {
             const event = diagnosticEvent.event();
@@ -1735,6 +2200,7 @@ const extractMetaDetails = (meta: any, operationIndex: number, knownContractId?:
 
             // Extract topics FIRST - we need them to determine contractId for fn_call events
             const topics: any[] = [];
+            const typedTopics: TypedScVal[] = [];
             if (body.v0 && body.v0().topics) {
               const topicsArray = body.v0().topics();
               topicsArray.forEach((topic: any) => {
@@ -1743,6 +2209,7 @@ const extractMetaDetails = (meta: any, operationIndex: number, knownContractId?:
                     const decoded = decodeScVal(topic);
                     if (decoded !== null) {
                       topics.push(decoded);
+                      typedTopics.push(decodeScVal(topic, { typed: true }));
                     }
                   }
                 } catch (e) {
@@ -1767,11 +2234,13 @@ const extractMetaDetails = (meta: any, operationIndex: number, knownContractId?:
 
             // Extract data payload
             let eventData: any = null;
+            let typedData: TypedScVal | null = null;
             try {
               if (body.v0 && body.v0().data) {
                 const data = body.v0().data();
                 if (data !== null && data !== undefined) {
                   eventData = decodeScVal(data);
+                  typedData = decodeScVal(data, { typed: true });
                 }
               }
             } catch (e) {
@@ -1794,6 +2263,8 @@ const extractMetaDetails = (meta: any, operationIndex: number, knownContractId?:
               contractId,
               topics,
               data: eventData,
+              typedTopics,
+              typedData,
               inSuccessfulContractCall: diagnosticEvent.inSuccessfulContractCall()
             };
 
@@ -1831,7 +2302,8 @@ const extractMetaDetails = (meta: any, operationIndex: number, knownContractId?:
   return details;
 };
 
-const decodeTransactionXdr = async (tx: any) => {
+// Without a service, contract error codes are only named from registered mappings (no spec lookups)
+const decodeTransactionXdr = async (tx: any, service?: StellarService) => {
   try {
     const debugInfo: any = {
       resultXdr: tx.result_xdr,
@@ -1873,7 +2345,13 @@ const decodeTransactionXdr = async (tx: any) => {
         const transactionResult = StellarSdk.xdr.TransactionResult.fromXDR(tx.result_xdr, 'base64');
         debugInfo.decodedResult = transactionResult;
 
-        const errorAnalysis = analyzeTransactionErrors(transactionResult, isFeeBump);
+        const contractErrors = tx.result_meta_xdr
+          ? await resolveContractErrors(
+              findContractErrorsInMeta(tx.result_meta_xdr),
+              service && (contractId => fetchContractSpecForContract(service, contractId))
+            )
+          : [];
+        const errorAnalysis = analyzeTransactionErrors(transactionResult, isFeeBump, contractErrors);
         if (errorAnalysis && (errorAnalysis.outerError || errorAnalysis.innerError || errorAnalysis.operationErrors?.length > 0)) {
           debugInfo.errorAnalysis = errorAnalysis;
         } else {
@@ -1888,7 +2366,9 @@ const decodeTransactionXdr = async (tx: any) => {
   }
 };
 
-const analyzeTransactionErrors = (transactionResult: any, isFeeBump: boolean = false) => {
+// contractErrors are the Error(Contract, #n) codes raised during a failed host function call;
+// they are attached to the invokeHostFunction operation error as extra layers
+const analyzeTransactionErrors = (transactionResult: any, isFeeBump: boolean = false, contractErrors: ContractErrorInfo[] = []) => {
   try {
     const analysis: any = {
       outerError: null,
@@ -2077,12 +2557,16 @@ const analyzeTransactionErrors = (transactionResult: any, isFeeBump: boolean = f
 
             // Check if it's a success code (ends with "Success")
             if (resultCode && !resultCode.endsWith('Success')) {
-              const errorInfo = {
+              const raisedErrors = operationType === 'invokeHostFunction' ? contractErrors : [];
+              const errorInfo: any = {
                 operation: index,
                 error: resultCode,
                 operationType,
                 description: getOperationErrorDescription(resultCode)
               };
+              if (raisedErrors.length > 0) {
+                errorInfo.contractErrors = raisedErrors;
+              }
               analysis.operationErrors.push(errorInfo);
               analysis.layers.push({
                 level: `Operation ${index}`,
@@ -2092,6 +2576,21 @@ const analyzeTransactionErrors = (transactionResult: any, isFeeBump: boolean = f
                 envelopeType: 'operation',
                 explanation: `The ${operationType} operation failed with a specific error code.`
               });
+              for (const contractError of raisedErrors) {
+                analysis.layers.push({
+                  level: 'Contract',
+                  code: `Error(Contract, #${contractError.code})`,
+                  meaning: contractError.name
+                    ? `${contractError.enumName ? `${contractError.enumName}::` : ''}${contractError.name}`
+                    : 'Contract-defined error (no name in the contract spec)',
+                  operationType,
+                  envelopeType: 'contract',
+                  explanation: contractError.doc || (contractError.contractId
+                    ? `Error code returned by contract ${contractError.contractId}.`
+                    : 'Error code returned by the invoked contract.'),
+                  contractError
+                });
+              }
             } else {
             }
           } catch (e) {
@@ -2274,8 +2773,10 @@ export const createOperationNodes = (transaction: TransactionDetails): Node[] =>
         contractId: sorobanOp?.contractId,
         functionName: sorobanOp?.functionName,
         args: sorobanOp?.args,
+        typedArgs: sorobanOp?.typedArgs,
         auth: sorobanOp?.auth,
         result: sorobanOp?.result,
+        typedResult: sorobanOp?.typedResult,
         error: sorobanOp?.error,
         events: sorobanOp?.events || transaction.events?.filter(e => e.contractId === sorobanOp?.contractId),
         resourceUsage: sorobanOp?.resourceUsage,
@@ -2575,37 +3076,46 @@ export const createOperationEdges = (transaction: TransactionDetails): Edge[] =>
   return edges;
 };
 
-export const simulateTransactionWithDebugger = async (hash: string, horizonTx?: any) => {
+export const simulateTransactionWithDebugger = (hash: string, horizonTx?: any) => {
+  return defaultService.simulateTransactionWithDebugger(hash, horizonTx);
+};
 
+const simulateWithDebugger = async (service: StellarService, hash: string, horizonTx?: any) => {
+  const { transport, networkConfig } = service;
   try {
-    const tx = horizonTx || await server.transactions().transaction(hash).call();
-    const operations = await server.operations().forTransaction(hash).limit(200).call();
+    const tx = horizonTx || await transport.horizon(`/transactions/${hash}`);
+    const operations = { records: await fetchHorizonRecords(service, `/transactions/${hash}/operations?limit=200`) };
 
     // Normalize source_account fields immediately - Horizon sometimes returns arrays
-    operations.records = operations.records.map(op => ({
+    operations.records = operations.records.map((op: any) => ({
       ...op,
       source_account: extractAccountAddress(op.source_account)
     }));
 
+    // Contract error codes raised by a failed invocation, named from the raising contract's spec
+    const contractErrors = !tx.successful && tx.result_meta_xdr
+      ? await resolveContractErrors(findContractErrorsInMeta(tx.result_meta_xdr), contractId => fetchContractSpecForContract(service, contractId))
+      : [];
+
     // Decode result XDR to get proper error codes
     let errorAnalysis: any = null;
     if (tx.result_xdr) {
       try {
         const transactionResult = StellarSdk.xdr.TransactionResult.fromXDR(tx.result_xdr, 'base64');
-        errorAnalysis = analyzeTransactionErrors(transactionResult);
+        errorAnalysis = analyzeTransactionErrors(transactionResult, false, contractErrors);
       } catch (error) {
       }
     }
 
     // Check if Soroban transaction
-    const hasSorobanOps = operations.records.some(op => op.type === 'invoke_host_function');
+    const hasSorobanOps = operations.records.some((op: any) => op.type === 'invoke_host_function');
 
     // Query Soroban RPC for real resource usage
     let sorobanData = null;
     let simulationData = null;
     if (hasSorobanOps) {
       try {
-        sorobanData = await querySorobanRpc(hash);
+        sorobanData = await querySorobanRpc(service, hash);
 
         // Extract actual consumed resources directly from RPC response
         // Stellar RPC returns CPU and memory in the transaction result
@@ -2631,13 +3141,8 @@ export const simulateTransactionWithDebugger = async (hash: string, horizonTx?:
           try {
             const transaction = StellarSdk.TransactionBuilder.fromXDR(tx.envelope_xdr, networkConfig.networkPassphrase) as StellarSdk.Transaction;
 
-            // Use official Stellar RPC to simulate (free public endpoint)
-            const rpcUrl = networkConfig.isTestnet
-              ? 'https://soroban-testnet.stellar.org'
-              : 'https://mainnet.sorobanrpc.com';
-
-            const rpcServer = new StellarSdk.rpc.Server(rpcUrl, { allowHttp: false });
-            const simResult = await rpcServer.simulateTransaction(transaction);
+            const rawSimulation = await transport.rpc('simulateTransaction', { transaction: transaction.toXDR() });
+            const simResult = StellarSdk.rpc.parseRawSimulation(rawSimulation);
 
             simulationData = simResult;
           } catch (simError: any) {
@@ -3197,7 +3702,7 @@ export const simulateTransactionWithDebugger = async (hash: string, horizonTx?:
 
     const logs: string[] = [
       `📊 Transaction Analysis: ${hash.substring(0, 12)}...`,
-      `🌐 Network: ${networkConfig.isTestnet ? 'Testnet' : 'Mainnet'}`,
+      `🌐 Network: ${networkConfig.label || networkConfig.networkId}`,
       `${tx.successful ? '✅' : '❌'} Status: ${tx.successful ? 'Success' : 'Failed'}`,
       `📦 Operations: ${tx.operation_count}`,
       `💰 Fee charged: ${feePaid.toLocaleString()} stroops (${(feePaid / 10000000).toFixed(7)} XLM)`,
@@ -3533,7 +4038,7 @@ export const simulateTransactionWithDebugger = async (hash: string, horizonTx?:
     logs.push('✅ Analysis completed');
 
     // Extract real stack traces from failed transactions
-    const stackTrace: Array<{ phase: string; error: string; stack: string }> = [];
+    const stackTrace: Array<{ phase: string; error: string; stack: string; contractError?: ContractErrorInfo }> = [];
 
     if (!tx.successful) {
       logs.push('');
@@ -3566,6 +4071,20 @@ export const simulateTransactionWithDebugger = async (hash: string, horizonTx?:
         }
       }
 
+      contractErrors.forEach(contractError => {
+        const label = formatContractError(contractError);
+        stackTrace.push({
+          phase: 'contract_error',
+          error: label,
+          stack: [
+            `Contract ${contractError.contractId || '(unknown)'} returned ${label}`,
+            contractError.doc
+          ].filter(Boolean).join('\n'),
+          contractError
+        });
+        logs.push(`❌ Contract Error: ${label}${contractError.doc ? ` - ${contractError.doc}` : ''}`);
+      });
+
       // Extract Soroban-specific error details
       if (tx.result_meta_xdr) {
         try {
@@ -3720,7 +4239,7 @@ export const simulateTransactionWithDebugger = async (hash: string, horizonTx?:
     };
 
     // Add operation breakdown with real detailed logs
-    simulation.enhancedDebugInfo!.operationBreakdown = operations.records.map((op, index) => {
+    simulation.enhancedDebugInfo!.operationBreakdown = operations.records.map((op: any, index: number) => {
       const opLogs = [
         `╔═══ Operation ${index + 1} ═══`,
         `║ Type: ${op.type}`,
@@ -0,0 +1,152 @@
+import type {
+  TransactionDetails,
+  TransactionStream,
+  TransactionStreamOptions,
+  TransactionStreamTarget
+} from '../types/stellar';
+import type { StellarService } from './stellar';
+import { resolveBaseAccount } from './history';
+import { extractInvocations } from './contractActivity';
+
+// Ledgers close roughly every 5 seconds, so polling faster only repeats empty requests
+const DEFAULT_INTERVAL_MS = 5000;
+const HORIZON_PAGE_SIZE = 200;
+const RPC_PAGE_SIZE = 200;
+
+// Returns a poll function that yields the hashes of transactions that appeared since the
+// previous call. The first call only establishes the starting point
+const createAccountPoller = (service: StellarService, address: string) => {
+  const accountId = resolveBaseAccount(address);
+  let cursor: string | null = null;
+
+  return async (): Promise<string[]> => {
+    if (cursor === null) {
+      const latest = await service.transport.horizon(`/accounts/${accountId}/transactions?order=desc&limit=1&include_failed=true`);
+      cursor = latest?._embedded?.records?.[0]?.paging_token || '0';
+      return [];
+    }
+
+    const hashes: string[] = [];
+    for (;;) {
+      const page = await service.transport.horizon(
+        `/accounts/${accountId}/transactions?order=asc&limit=${HORIZON_PAGE_SIZE}&include_failed=true&cursor=${cursor}`
+      );
+      const records: any[] = page?._embedded?.records || [];
+      records.forEach(record => hashes.push(record.hash));
+      if (records.length > 0) {
+        cursor = records[records.length - 1].paging_token;
+      }
+      if (records.length < HORIZON_PAGE_SIZE) break;
+    }
+    return hashes;
+  };
+};
+
+const createContractPoller = (service: StellarService, contractId: string) => {
+  // First ledger that has not been scanned yet
+  let nextLedger: number | null = null;
+
+  return async (): Promise<string[]> => {
+    const health = await service.transport.rpc('getHealth');
+    if (nextLedger === null) {
+      nextLedger = health.latestLedger + 1;
+      return [];
+    }
+    if (health.latestLedger < nextLedger) {
+      return [];
+    }
+
+    const hashes: string[] = [];
+    let params: any = { startLedger: Math.max(nextLedger, health.oldestLedger), pagination: { limit: RPC_PAGE_SIZE } };
+    let latestLedger = health.latestLedger;
+    for (;;) {
+      const response = await service.transport.rpc('getTransactions', params);
+      latestLedger = Math.max(latestLedger, response.latestLedger || 0);
+      (response.transactions || []).forEach((tx: any) => {
+        if (extractInvocations(tx, contractId, service.networkConfig.networkPassphrase).length > 0 && !hashes.includes(tx.txHash)) {
+          hashes.push(tx.txHash);
+        }
+      });
+      if (!response.transactions || response.transactions.length < RPC_PAGE_SIZE) break;
+      params = { pagination: { cursor: response.cursor, limit: RPC_PAGE_SIZE } };
+    }
+
+    nextLedger = latestLedger + 1;
+    return hashes;
+  };
+};
+
+// Polls for new transactions of an account (Horizon) or contract (Soroban RPC) and decodes each
+// one with fetchTransaction, oldest first. Only transactions after the subscription started are
+// reported. Errors are passed to onError and polling carries on until stop() is called. pause()
+// keeps the poller's position, so resume() catches up on what landed in between
+export const watchTransactionStream = (
+  service: StellarService,
+  target: TransactionStreamTarget,
+  options: TransactionStreamOptions
+): TransactionStream => {
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const poll = target.type === 'contract'
+    ? createContractPoller(service, target.address)
+    : createAccountPoller(service, target.address);
+
+  let stopped = false;
+  let paused = false;
+  let polling = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const tick = async () => {
+    timer = null;
+    polling = true;
+    try {
+      const hashes = await poll();
+      for (const hash of hashes) {
+        if (stopped) return;
+        let details: TransactionDetails;
+        try {
+          details = await service.fetchTransaction(hash);
+        } catch (error: any) {
+          options.onError?.(error);
+          continue;
+        }
+        if (!stopped) {
+          options.onTransaction(details);
+        }
+      }
+    } catch (error: any) {
+      if (!stopped) {
+        options.onError?.(error);
+      }
+    } finally {
+      polling = false;
+    }
+
+    if (!stopped && !paused) {
+      timer = setTimeout(tick, intervalMs);
+    }
+  };
+
+  tick();
+
+  return {
+    stop() {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    },
+    pause() {
+      paused = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+    resume() {
+      if (stopped || !paused) return;
+      paused = false;
+      // A poll still running when paused schedules the next one itself
+      if (!polling) tick();
+    }
+  };
+};
@@ -0,0 +1,242 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import type {
+  ExportTransactionOptions,
+  SubmitTransactionOptions,
+  SubmittedTransaction,
+  TransactionMemoType,
+  TransactionSigner,
+  UnsignedTransactionExport
+} from '../types/stellar';
+import type { StellarService } from './stellar';
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 60000;
+// Signed auth entries stay valid for about five minutes of ledgers
+const AUTH_VALIDITY_LEDGERS = 60;
+// Counted from signing, not from simulation, and long enough for a wallet to prompt for it
+const SIGNED_TRANSACTION_TIMEOUT_SECONDS = 300;
+// SEP-7 limits the message shown to the signer
+const SEP7_MAX_MESSAGE_LENGTH = 300;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const keypairSigner = (secretKey: string): TransactionSigner => {
+  const keypair = StellarSdk.Keypair.fromSecret(secretKey.trim());
+  return {
+    publicKey: keypair.publicKey(),
+    signTransaction: async (envelopeXdr, { networkPassphrase }) => {
+      const transaction = StellarSdk.TransactionBuilder.fromXDR(envelopeXdr, networkPassphrase);
+      transaction.sign(keypair);
+      return transaction.toXDR();
+    },
+    signAuthEntry: async (entryXdr, { networkPassphrase, validUntilLedger }) => {
+      const entry = StellarSdk.xdr.SorobanAuthorizationEntry.fromXDR(entryXdr, 'base64');
+      const signed = await StellarSdk.authorizeEntry(entry, keypair, validUntilLedger, networkPassphrase);
+      return signed.toXDR('base64');
+    }
+  };
+};
+
+const transactionResultCode = (resultXdr: string): string => {
+  try {
+    return StellarSdk.xdr.TransactionResult.fromXDR(resultXdr, 'base64').result().switch().name;
+  } catch {
+    return 'unknown error';
+  }
+};
+
+const simulateAgain = async (
+  service: StellarService,
+  transaction: StellarSdk.Transaction,
+  context: string
+): Promise<StellarSdk.rpc.Api.SimulateTransactionSuccessResponse> => {
+  const simulation = StellarSdk.rpc.parseRawSimulation(
+    await service.transport.rpc('simulateTransaction', { transaction: transaction.toXDR() })
+  );
+  if (!StellarSdk.rpc.Api.isSimulationSuccess(simulation)) {
+    throw new Error(`Simulation ${context} failed: ${(simulation as any).error || 'unknown error'}`);
+  }
+  return simulation;
+};
+
+const buildMemo = (type: TransactionMemoType, value: string): StellarSdk.Memo => {
+  try {
+    switch (type) {
+      case 'text':
+        return StellarSdk.Memo.text(value);
+      case 'id':
+        return StellarSdk.Memo.id(value.trim());
+      case 'hash':
+        return StellarSdk.Memo.hash(value.trim());
+      case 'return':
+        return StellarSdk.Memo.return(value.trim());
+    }
+  } catch (error: any) {
+    throw new Error(`Invalid ${type} memo: ${error.message}`);
+  }
+};
+
+// web+stellar:tx URI (SEP-7) asking a wallet to sign the envelope. The passphrase is left out
+// for the public network, which is what wallets assume by default
+export const sep7TransactionUri = (
+  envelopeXdr: string,
+  networkPassphrase: string,
+  options: { pubkey?: string; message?: string } = {}
+): string => {
+  if (options.message && options.message.length > SEP7_MAX_MESSAGE_LENGTH) {
+    throw new Error(`SEP-7 messages are limited to ${SEP7_MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  // encodeURIComponent rather than URLSearchParams, which writes spaces as '+'
+  const params: Array<[string, string]> = [['xdr', envelopeXdr]];
+  if (networkPassphrase !== StellarSdk.Networks.PUBLIC) params.push(['network_passphrase', networkPassphrase]);
+  if (options.pubkey) params.push(['pubkey', options.pubkey]);
+  if (options.message) params.push(['msg', options.message]);
+  return `web+stellar:tx?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&')}`;
+};
+
+// Turns a successful simulation of a single invokeHostFunction transaction into a signed envelope.
+// Address auth entries belonging to the signer are signed and the call is simulated again so
+// the resources include signature verification; entries for any other address are an error,
+// since they can only be signed by their owner
+export const signSimulatedInvocation = async (
+  service: StellarService,
+  transaction: StellarSdk.Transaction,
+  simulation: StellarSdk.rpc.Api.SimulateTransactionSuccessResponse,
+  signer: TransactionSigner,
+  options: SubmitTransactionOptions = {}
+): Promise<string> => {
+  const { networkPassphrase } = service.networkConfig;
+  if (transaction.source !== signer.publicKey) {
+    throw new Error(`The transaction source is ${transaction.source}, but the signer is ${signer.publicKey}`);
+  }
+
+  const auth = simulation.result?.auth || [];
+  const addressEntries = auth.filter(entry => entry.credentials().switch().name === 'sorobanCredentialsAddress');
+  const foreignSigners = addressEntries
+    .map(entry => StellarSdk.Address.fromScAddress(entry.credentials().address().address()).toString())
+    .filter(address => address !== signer.publicKey);
+  if (foreignSigners.length > 0) {
+    throw new Error(`Authorization from ${Array.from(new Set(foreignSigners)).join(', ')} is also required. ` +
+      'Export the unsigned transaction and collect their signatures instead.');
+  }
+
+  // The simulated transaction's time bounds start running when it is simulated
+  const fresh = StellarSdk.TransactionBuilder.cloneFrom(transaction, {
+    fee: transaction.fee,
+    timebounds: { minTime: 0, maxTime: Math.floor(Date.now() / 1000) + SIGNED_TRANSACTION_TIMEOUT_SECONDS }
+  }).build();
+
+  let assembled: StellarSdk.Transaction;
+  if (addressEntries.length > 0) {
+    if (!signer.signAuthEntry) {
+      throw new Error('This signer cannot sign authorization entries');
+    }
+    options.onStatus?.('signing');
+    const validUntilLedger = simulation.latestLedger + AUTH_VALIDITY_LEDGERS;
+    const signedAuth = await Promise.all(auth.map(async entry => {
+      if (entry.credentials().switch().name !== 'sorobanCredentialsAddress') return entry;
+      const signed = await signer.signAuthEntry!(entry.toXDR('base64'), { networkPassphrase, validUntilLedger });
+      return StellarSdk.xdr.SorobanAuthorizationEntry.fromXDR(signed, 'base64');
+    }));
+
+    const operation = fresh.operations[0] as StellarSdk.Operation.InvokeHostFunction;
+    const withAuth = StellarSdk.TransactionBuilder.cloneFrom(fresh, { fee: fresh.fee })
+      .clearOperations()
+      .addOperation(StellarSdk.Operation.invokeHostFunction({ func: operation.func, auth: signedAuth, source: operation.source }))
+      .build();
+
+    options.onStatus?.('resimulating');
+    const resimulation = await simulateAgain(service, withAuth, 'with signed authorization');
+    assembled = StellarSdk.rpc.assembleTransaction(withAuth, resimulation).build();
+  } else {
+    assembled = StellarSdk.rpc.assembleTransaction(fresh, simulation).build();
+  }
+
+  options.onStatus?.('signing');
+  return signer.signTransaction(assembled.toXDR(), { networkPassphrase });
+};
+
+// Assembles a successful simulation into the unsigned envelope that external signers (hardware
+// wallets, multisig tooling) need, with the chosen inclusion fee, time bounds and memo. A memo
+// changes the envelope size the resource fee is charged on, so that case is simulated again
+export const exportSimulatedInvocation = async (
+  service: StellarService,
+  transaction: StellarSdk.Transaction,
+  simulation: StellarSdk.rpc.Api.SimulateTransactionSuccessResponse,
+  options: ExportTransactionOptions = {}
+): Promise<UnsignedTransactionExport> => {
+  const fee = options.fee?.trim() || transaction.fee;
+  if (!/^\d+$/.test(fee) || BigInt(fee) < BigInt(StellarSdk.BASE_FEE)) {
+    throw new Error(`The inclusion fee must be a whole number of stroops, at least ${StellarSdk.BASE_FEE}`);
+  }
+
+  let timebounds: { minTime: number | string; maxTime: number | string } | undefined = transaction.timeBounds;
+  if (options.timeBounds) {
+    const { minTime, maxTime } = options.timeBounds;
+    if (minTime < 0 || maxTime < 0 || (maxTime !== 0 && maxTime <= minTime)) {
+      throw new Error('The time bounds must end after they start');
+    }
+    timebounds = options.timeBounds;
+  } else if (options.timeoutSeconds !== undefined) {
+    if (options.timeoutSeconds < 0) {
+      throw new Error('The timeout cannot be negative');
+    }
+    timebounds = {
+      minTime: 0,
+      maxTime: options.timeoutSeconds > 0 ? Math.floor(Date.now() / 1000) + options.timeoutSeconds : 0
+    };
+  }
+
+  const memo = options.memo ? buildMemo(options.memo.type, options.memo.value) : undefined;
+  const raw = StellarSdk.TransactionBuilder.cloneFrom(transaction, { fee, timebounds, ...(memo ? { memo } : {}) }).build();
+  const resources = memo ? await simulateAgain(service, raw, 'with the memo') : simulation;
+  const assembled = StellarSdk.rpc.assembleTransaction(raw, resources).build();
+
+  const xdr = assembled.toXDR();
+  return {
+    xdr,
+    hash: assembled.hash().toString('hex'),
+    fee: assembled.fee,
+    inclusionFee: fee,
+    resourceFee: resources.minResourceFee,
+    timeBounds: assembled.timeBounds,
+    sep7Uri: sep7TransactionUri(xdr, service.networkConfig.networkPassphrase, {
+      pubkey: transaction.source,
+      message: options.message
+    })
+  };
+};
+
+// Sends a signed envelope through RPC sendTransaction and polls getTransaction until it is
+// included in a ledger. Rejections by the node (bad sequence, insufficient fee...) throw
+export const submitSignedTransaction = async (
+  service: StellarService,
+  signedXdr: string,
+  options: SubmitTransactionOptions = {}
+): Promise<SubmittedTransaction> => {
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  options.onStatus?.('sending');
+  const sent = await service.transport.rpc('sendTransaction', { transaction: signedXdr });
+  if (sent.status === 'ERROR') {
+    throw new Error(`Transaction rejected: ${sent.errorResultXdr ? transactionResultCode(sent.errorResultXdr) : 'unknown error'}`);
+  }
+  if (sent.status === 'TRY_AGAIN_LATER') {
+    throw new Error('The RPC server is busy and did not accept the transaction; try again shortly');
+  }
+
+  options.onStatus?.('pending');
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    await sleep(pollIntervalMs);
+    const tx = await service.transport.rpc('getTransaction', { hash: sent.hash });
+    if (tx.status === 'SUCCESS' || tx.status === 'FAILED') {
+      options.onStatus?.(tx.status === 'SUCCESS' ? 'success' : 'failed');
+      return { hash: sent.hash, status: tx.status, ledger: tx.ledger, resultXdr: tx.resultXdr };
+    }
+  }
+
+  throw new Error(`Transaction ${sent.hash} was not included within ${Math.round(timeoutMs / 1000)}s`);
+};
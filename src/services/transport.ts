@@ -0,0 +1,140 @@
+import type { NetworkConfig, Transport, TransportOptions } from '../types/stellar';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+// Public RPC endpoints used when the network config does not name its own
+const PUBLIC_RPC_URLS: Record<string, string[]> = {
+  testnet: ['https://soroban-testnet.stellar.org'],
+  mainnet: ['https://mainnet.sorobanrpc.com', 'https://soroban-rpc.mainnet.stellarchain.io'],
+  futurenet: ['https://rpc-futurenet.stellar.org'],
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rejects once the signal aborts, for work that does not watch the signal itself
+const whenAborted = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+  signal.addEventListener('abort', () => reject(new DOMException('The request was aborted', 'AbortError')));
+});
+
+// 429 and 5xx are worth another attempt; anything else is the server's final answer
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+export const createTransport = (options: TransportOptions): Transport => {
+  const baseFetch = options.fetch || ((url: string, init?: RequestInit) => fetch(url, init));
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const horizonUrl = options.horizonUrl.replace(/\/+$/, '');
+
+  // The timeout covers reading the body as well, so `read` runs inside each attempt. A caller's
+  // signal aborts the attempt in flight and stops any further retries
+  const fetchWithRetry = async <T>(url: string, init: RequestInit, read: (response: Response) => Promise<T>): Promise<T> => {
+    const headers = { ...options.headers, ...(init.headers as Record<string, string> | undefined) };
+    const callerSignal = init.signal;
+    let lastError: any = null;
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        await sleep(retryDelayMs * attempt);
+      }
+      if (callerSignal?.aborted) {
+        throw callerSignal.reason ?? new DOMException('The request was aborted', 'AbortError');
+      }
+
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      callerSignal?.addEventListener('abort', abort);
+      const timer = setTimeout(abort, timeoutMs);
+      let response: Response | null = null;
+      try {
+        response = await baseFetch(url, { ...init, headers, signal: controller.signal });
+        if (!isRetryableStatus(response.status) || attempt === retries) {
+          return await Promise.race([read(response), whenAborted(controller.signal)]);
+        }
+        lastError = new Error(`HTTP error: ${response.status}`);
+      } catch (error: any) {
+        if (callerSignal?.aborted) throw error;
+        if (error.name !== 'AbortError' && response) {
+          // The body arrived but could not be read; another attempt would get the same answer
+          throw error;
+        }
+        lastError = error.name === 'AbortError'
+          ? new Error(`Request to ${url} timed out after ${timeoutMs}ms`)
+          : error;
+      } finally {
+        clearTimeout(timer);
+        callerSignal?.removeEventListener('abort', abort);
+      }
+    }
+
+    throw lastError;
+  };
+
+  // Responses handed out as is are buffered first, for the timeout to cover their body
+  const bufferResponse = async (response: Response) =>
+    new Response(await response.arrayBuffer(), { status: response.status, statusText: response.statusText, headers: response.headers });
+
+  return {
+    horizonUrl,
+    rpcUrl: options.rpcUrl,
+    fallbackRpcUrls: options.fallbackRpcUrls || [],
+    fetch: (url: string, init: RequestInit = {}) => fetchWithRetry(url, init, bufferResponse),
+
+    async horizon(path: string) {
+      return fetchWithRetry(`${horizonUrl}${path.startsWith('/') ? path : `/${path}`}`, {
+        headers: { Accept: 'application/json' }
+      }, response => {
+        if (!response.ok) {
+          throw new Error(`Horizon HTTP error: ${response.status}`);
+        }
+        return response.json();
+      });
+    },
+
+    async rpc(method: string, params?: any, rpcUrl?: string) {
+      const data = await fetchWithRetry(rpcUrl || options.rpcUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: '1',
+          method,
+          params
+        })
+      }, response => {
+        if (!response.ok) {
+          throw new Error(`Soroban RPC HTTP error: ${response.status}`);
+        }
+        return response.json();
+      });
+
+      if (data.error) {
+        throw new Error(`Soroban RPC error: ${data.error.message}`);
+      }
+      return data.result;
+    }
+  };
+};
+
+// Resolves the transport for a network config: an injected transport wins, otherwise one is
+// built from the config's URLs. Public fallback RPCs are only used with public endpoints, so
+// private provider credentials in headers never reach a third-party RPC
+export const resolveTransport = (config: NetworkConfig): Transport => {
+  if (config.transport) {
+    return config.transport;
+  }
+
+  const publicRpcUrls = PUBLIC_RPC_URLS[config.networkId] || [];
+  if (!config.rpcUrl && publicRpcUrls.length === 0) {
+    throw new Error(`No Soroban RPC URL configured for network "${config.networkId}"`);
+  }
+
+  return createTransport({
+    horizonUrl: config.networkUrl,
+    rpcUrl: config.rpcUrl || publicRpcUrls[0],
+    fallbackRpcUrls: !config.rpcUrl || publicRpcUrls.includes(config.rpcUrl) ? publicRpcUrls : [],
+    ...config.transportOptions
+  });
+};
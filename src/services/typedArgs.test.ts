@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { Buffer } from 'buffer';
+import { formatTypedScVal, scValToTypedScVal, typedScValToScVal } from './typedArgs';
+import type { TypedScVal } from '../types/stellar';
+
+const HASH = 'ab'.repeat(32);
+const ACCOUNT = StellarSdk.StrKey.encodeEd25519PublicKey(Buffer.alloc(32, 1));
+
+const encode = (typed: TypedScVal) => typedScValToScVal(typed).toXDR('base64');
+
+describe('typedScValToScVal / scValToTypedScVal', () => {
+  const values: TypedScVal[] = [
+    { type: 'u32', value: 7 },
+    { type: 'i128', value: '-170141183460469231731687303715884105728' },
+    { type: 'u256', value: '115792089237316195423570985008687907853269984665640564039457584007913129639935' },
+    { type: 'timepoint', value: '1704067200' },
+    { type: 'bool', value: true },
+    { type: 'void' },
+    { type: 'bytes', value: '00ff10', encoding: 'hex' },
+    { type: 'string', value: 'héllo' },
+    { type: 'symbol', value: 'transfer' },
+    { type: 'address', value: ACCOUNT },
+    { type: 'vec', value: [{ type: 'u32', value: 1 }, { type: 'symbol', value: 'a' }] },
+    { type: 'map', value: [{ key: { type: 'symbol', value: 'a' }, value: { type: 'i64', value: '-1' } }] },
+    { type: 'error', value: { type: 'contract', code: 7 } },
+    { type: 'error', value: { type: 'auth', code: 'invalidAction' } },
+    { type: 'ledgerKeyContractInstance' },
+    { type: 'ledgerKeyNonce', value: '42' }
+  ];
+
+  it.each(values.map(typed => [typed.type, typed]))('round-trips %s', (_, typed) => {
+    const decoded = scValToTypedScVal(encode(typed as TypedScVal));
+    expect(decoded).toEqual(typed);
+    expect(encode(decoded)).toBe(encode(typed as TypedScVal));
+  });
+
+  it('sorts map and struct keys the way the host expects', () => {
+    const map = typedScValToScVal({ type: 'struct', value: { b: { type: 'u32', value: 2 }, a: { type: 'u32', value: 1 } } });
+    expect(map.map().map((entry: any) => entry.key().sym().toString())).toEqual(['a', 'b']);
+  });
+
+  it('names the path of a nested failure', () => {
+    expect(() => typedScValToScVal({ type: 'vec', value: [{ type: 'u32', value: 1 }, { type: 'u32', value: -1 }] }, 'args[0]'))
+      .toThrow('args[0][1]: Out of range for u32');
+  });
+});
+
+describe('bytes encoding', () => {
+  it('reads a 0x prefix as hex', () => {
+    expect(typedScValToScVal({ type: 'bytes', value: '0xABCD' }).bytes().toString('hex')).toBe('abcd');
+  });
+
+  it('reads base64 when the encoding says so', () => {
+    expect(typedScValToScVal({ type: 'bytes', value: 'ABCD', encoding: 'base64' }).bytes().toString('hex')).toBe('001083');
+  });
+
+  // Regression: "ABCD" is valid hex and valid base64, and used to be read as one of them silently
+  it('rejects text that reads as both hex and base64', () => {
+    expect(() => typedScValToScVal({ type: 'bytes', value: 'ABCD' }))
+      .toThrow('value: Bytes could be hex or base64; write them as 0x... or set encoding');
+  });
+
+  it('reads unprefixed hex of a BytesN length as hex, as the simulator form does', () => {
+    expect(typedScValToScVal({ type: 'bytesN', n: 32, value: HASH }).bytes().toString('hex')).toBe(HASH);
+  });
+
+  it('checks the length of BytesN', () => {
+    expect(() => typedScValToScVal({ type: 'bytesN', n: 32, value: `0x${'ab'.repeat(31)}` }))
+      .toThrow('value: Expected exactly 32 bytes, got 31');
+  });
+});
+
+describe('formatTypedScVal', () => {
+  it('suffixes scalars with their type', () => {
+    expect(formatTypedScVal({ type: 'vec', value: [{ type: 'i128', value: '100' }, { type: 'symbol', value: 'transfer' }] }))
+      .toBe('[100i128, "transfer"sym]');
+  });
+});
@@ -0,0 +1,298 @@
+import * as StellarSdk from '@stellar/stellar-sdk';
+import { Buffer } from 'buffer';
+import { compareScVal } from './specArgs';
+import type { TypedScVal } from '../types/stellar';
+
+const INTEGER_TYPES = ['u32', 'i32', 'u64', 'i64', 'u128', 'i128', 'u256', 'i256', 'timepoint', 'duration'];
+
+const TYPED_SCVAL_TYPES = new Set([
+  ...INTEGER_TYPES,
+  'bool', 'void', 'bytes', 'bytesN', 'string', 'symbol', 'address', 'vec', 'tuple', 'map', 'struct',
+  'union', 'option', 'error', 'ledgerKeyContractInstance', 'ledgerKeyNonce', 'xdr'
+]);
+
+// True for objects written in the typed syntax; plain JSON values are left to heuristic conversion
+export const isTypedScVal = (value: any): value is TypedScVal =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && typeof value.type === 'string' && TYPED_SCVAL_TYPES.has(value.type);
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Text is read as hex when it has a 0x prefix or encoding says so, and as base64 with
+// encoding: 'base64'. Without either, text that reads both ways (e.g. "ABCD") is an error
+// rather than a guess, since the base64 decodeScVal shows for bytes often looks like hex. For
+// BytesN, hex of exactly the fixed length wins, as in the simulator's form: hashes are typed bare
+const parseBytes = (text: string, encoding?: 'hex' | 'base64', fixedLength?: number): Buffer => {
+  const prefixed = text.startsWith('0x');
+  const hex = prefixed ? text.substring(2) : text;
+  const isHex = /^([0-9a-fA-F]{2})*$/.test(hex);
+  const isBase64 = !prefixed && text.length % 4 === 0 && /^[A-Za-z0-9+/]*={0,2}$/.test(text);
+
+  if (encoding === 'hex' || (encoding === undefined && prefixed)) {
+    if (!isHex) throw new Error('Expected hex bytes');
+    return Buffer.from(hex, 'hex');
+  }
+  if (encoding === 'base64') {
+    if (!isBase64) throw new Error('Expected base64 bytes');
+    return Buffer.from(text, 'base64');
+  }
+  if (isHex && fixedLength !== undefined && hex.length === fixedLength * 2) {
+    return Buffer.from(hex, 'hex');
+  }
+  if (isHex && isBase64 && text.length > 0) {
+    throw new Error('Bytes could be hex or base64; write them as 0x... or set encoding');
+  }
+  if (isHex) return Buffer.from(hex, 'hex');
+  if (isBase64) return Buffer.from(text, 'base64');
+  throw new Error('Expected hex or base64 bytes');
+};
+
+// Accepts the display forms decodeScVal produces for these types, "2024-01-01T00:00:00.000Z (1704067200)" and "30s"
+const parseInteger = (type: string, value: string | number): bigint => {
+  let text = String(value).trim();
+  if (type === 'timepoint') text = text.match(/\((\d+)\)$/)?.[1] ?? text;
+  if (type === 'duration') text = text.replace(/s$/, '');
+  if (!/^-?\d+$/.test(text)) {
+    throw new Error(`Expected a whole number for ${type}`);
+  }
+  return BigInt(text);
+};
+
+const encodeInteger = (type: string, value: bigint) => {
+  switch (type) {
+    case 'u32':
+      if (value < 0n || value > 0xffffffffn) throw new Error('Out of range for u32');
+      return StellarSdk.xdr.ScVal.scvU32(Number(value));
+    case 'i32':
+      if (value < -(2n ** 31n) || value >= 2n ** 31n) throw new Error('Out of range for i32');
+      return StellarSdk.xdr.ScVal.scvI32(Number(value));
+    case 'timepoint':
+    case 'duration':
+      if (value < 0n || value >= 2n ** 64n) throw new Error(`Out of range for ${type}`);
+      return type === 'timepoint'
+        ? StellarSdk.xdr.ScVal.scvTimepoint(StellarSdk.xdr.Uint64.fromString(value.toString()))
+        : StellarSdk.xdr.ScVal.scvDuration(StellarSdk.xdr.Uint64.fromString(value.toString()));
+    default:
+      // nativeToScVal range-checks the 64, 128 and 256-bit types
+      return StellarSdk.nativeToScVal(value, { type });
+  }
+};
+
+const encodeError = (error: { type: string; code: number | string }) => {
+  const errorType = `sce${error.type.charAt(0).toUpperCase()}${error.type.slice(1)}`;
+  const factory = (StellarSdk.xdr.ScError as any)[errorType];
+  if (typeof factory !== 'function') {
+    throw new Error(`Unknown error type '${error.type}'`);
+  }
+  if (error.type === 'contract') {
+    return StellarSdk.xdr.ScVal.scvError(factory(Number(error.code)));
+  }
+  const codeName = `scec${String(error.code).charAt(0).toUpperCase()}${String(error.code).slice(1)}`;
+  const code = (StellarSdk.xdr.ScErrorCode as any)[codeName];
+  if (typeof code !== 'function') {
+    throw new Error(`Unknown error code '${error.code}'`);
+  }
+  return StellarSdk.xdr.ScVal.scvError(factory(code()));
+};
+
+const sortedMap = (entries: any[]) => {
+  entries.sort((a, b) => compareScVal(a.key(), b.key()));
+  return StellarSdk.xdr.ScVal.scvMap(entries);
+};
+
+// Encodes a typed value, e.g. { type: 'vec', value: [{ type: 'symbol', value: 'a' }] }. Every
+// nested value must be typed as well. Errors name the offending path, e.g. "args[1][0]"
+export const typedScValToScVal = (typed: TypedScVal, path = 'value'): any => {
+  if (!isTypedScVal(typed)) {
+    throw new Error(`${path}: expected { "type": ..., "value": ... }`);
+  }
+  const value: any = (typed as any).value;
+
+  try {
+    if (INTEGER_TYPES.includes(typed.type)) {
+      return encodeInteger(typed.type, parseInteger(typed.type, value));
+    }
+
+    switch (typed.type) {
+      case 'bool':
+        if (typeof value !== 'boolean') throw new Error('Expected true or false');
+        return StellarSdk.xdr.ScVal.scvBool(value);
+      case 'void':
+        return StellarSdk.xdr.ScVal.scvVoid();
+      case 'bytes':
+        return StellarSdk.xdr.ScVal.scvBytes(parseBytes(String(value), typed.encoding));
+      case 'bytesN': {
+        const bytes = parseBytes(String(value), typed.encoding, typed.n);
+        if (typed.n !== undefined && bytes.length !== typed.n) {
+          throw new Error(`Expected exactly ${typed.n} bytes, got ${bytes.length}`);
+        }
+        return StellarSdk.xdr.ScVal.scvBytes(bytes);
+      }
+      case 'string':
+        return StellarSdk.xdr.ScVal.scvString(String(value));
+      case 'symbol':
+        if (!/^[a-zA-Z0-9_]{0,32}$/.test(String(value))) {
+          throw new Error('Symbols are up to 32 characters of a-z, A-Z, 0-9 and _');
+        }
+        return StellarSdk.xdr.ScVal.scvSymbol(String(value));
+      case 'address':
+        return StellarSdk.Address.fromString(String(value)).toScVal();
+      case 'vec':
+      case 'tuple':
+        if (!Array.isArray(value)) throw new Error(`Expected an array for ${typed.type}`);
+        return StellarSdk.xdr.ScVal.scvVec(value.map((item: TypedScVal, index: number) => typedScValToScVal(item, `${path}[${index}]`)));
+      case 'map':
+        if (!Array.isArray(value)) throw new Error('Expected an array of { key, value } entries for map');
+        return sortedMap(value.map((entry: { key: TypedScVal; value: TypedScVal }, index: number) => new StellarSdk.xdr.ScMapEntry({
+          key: typedScValToScVal(entry?.key, `${path}[${index}].key`),
+          val: typedScValToScVal(entry?.value, `${path}[${index}].value`)
+        })));
+      case 'struct':
+        if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('Expected an object of fields for struct');
+        return sortedMap(Object.entries(value as Record<string, TypedScVal>).map(([field, fieldValue]) => new StellarSdk.xdr.ScMapEntry({
+          key: StellarSdk.xdr.ScVal.scvSymbol(field),
+          val: typedScValToScVal(fieldValue, `${path}.${field}`)
+        })));
+      case 'union':
+        return StellarSdk.xdr.ScVal.scvVec([
+          StellarSdk.xdr.ScVal.scvSymbol(String(value)),
+          ...(typed.values || []).map((item, index) => typedScValToScVal(item, `${path}.values[${index}]`))
+        ]);
+      case 'option':
+        return value === null || value === undefined ? StellarSdk.xdr.ScVal.scvVoid() : typedScValToScVal(value, path);
+      case 'error':
+        return encodeError(value);
+      case 'ledgerKeyContractInstance':
+        return StellarSdk.xdr.ScVal.scvLedgerKeyContractInstance();
+      case 'ledgerKeyNonce':
+        return StellarSdk.xdr.ScVal.scvLedgerKeyNonce(new StellarSdk.xdr.ScNonceKey({
+          nonce: StellarSdk.xdr.Int64.fromString(parseInteger('i64', value).toString())
+        }));
+      case 'xdr':
+        return StellarSdk.xdr.ScVal.fromXDR(String(value), 'base64');
+    }
+  } catch (error: any) {
+    // Nested failures already carry their own path
+    if (error.message?.startsWith(path)) throw error;
+    throw new Error(`${path}: ${error.message}`);
+  }
+  throw new Error(`${path}: unsupported type '${(typed as any).type}'`);
+};
+
+const integerTypeOf: Record<string, string> = {
+  scvU32: 'u32', scvI32: 'i32', scvU64: 'u64', scvI64: 'i64', scvU128: 'u128', scvI128: 'i128',
+  scvU256: 'u256', scvI256: 'i256', scvTimepoint: 'timepoint', scvDuration: 'duration'
+};
+
+const lowerFirst = (text: string) => `${text.charAt(0).toLowerCase()}${text.slice(1)}`;
+
+// The inverse of typedScValToScVal: spells out the type of every value, so the result can be
+// edited and encoded back to exactly the same ScVal. Where decodeScVal shows a value for
+// reading, this keeps what is needed to rebuild it
+export const scValToTypedScVal = (input: any): TypedScVal => {
+  const scVal = typeof input === 'string' ? StellarSdk.xdr.ScVal.fromXDR(input, 'base64') : input;
+  const kind = scVal.switch().name;
+
+  if (integerTypeOf[kind]) {
+    const type = integerTypeOf[kind] as 'u32';
+    const native = StellarSdk.scValToNative(scVal);
+    return { type, value: type === 'u32' || type === 'i32' ? Number(native) : BigInt(native).toString() };
+  }
+
+  switch (kind) {
+    case 'scvBool':
+      return { type: 'bool', value: scVal.b() };
+    case 'scvVoid':
+      return { type: 'void' };
+    case 'scvBytes':
+      return { type: 'bytes', value: toHex(scVal.bytes()), encoding: 'hex' };
+    case 'scvString':
+      return { type: 'string', value: Buffer.from(scVal.str()).toString('utf8') };
+    case 'scvSymbol':
+      return { type: 'symbol', value: Buffer.from(scVal.sym()).toString('utf8') };
+    case 'scvAddress':
+      return { type: 'address', value: StellarSdk.Address.fromScAddress(scVal.address()).toString() };
+    case 'scvVec':
+      return { type: 'vec', value: (scVal.vec() || []).map(scValToTypedScVal) };
+    case 'scvMap':
+      return {
+        type: 'map',
+        value: (scVal.map() || []).map((entry: any) => ({ key: scValToTypedScVal(entry.key()), value: scValToTypedScVal(entry.val()) }))
+      };
+    case 'scvError': {
+      const error = scVal.error();
+      const errorType = lowerFirst(error.switch().name.replace(/^sce/, ''));
+      return {
+        type: 'error',
+        value: errorType === 'contract'
+          ? { type: errorType, code: error.contractCode() }
+          : { type: errorType, code: lowerFirst(error.code().name.replace(/^scec/, '')) }
+      };
+    }
+    case 'scvLedgerKeyContractInstance':
+      return { type: 'ledgerKeyContractInstance' };
+    case 'scvLedgerKeyNonce':
+      return { type: 'ledgerKeyNonce', value: scVal.nonceKey().nonce().toString() };
+    default:
+      // Contract instances have no editable form; keep them as raw XDR
+      return { type: 'xdr', value: scVal.toXDR('base64') };
+  }
+};
+
+const abbreviate = (text: string, head: number, tail: number) =>
+  text.length > head + tail + 1 ? `${text.slice(0, head)}…${text.slice(-tail)}` : text;
+
+// One-line rendering with type suffixes, e.g. `100i128`, `"transfer"sym`, `[5u32, GABC…WXYZ]`.
+// Every component shows decoded values this way, so a u64 never passes for a u32
+export const formatTypedScVal = (typed: TypedScVal | null | undefined, maxLength = 60): string => {
+  if (!typed) return 'null';
+  const value: any = (typed as any).value;
+
+  if (INTEGER_TYPES.includes(typed.type)) {
+    return `${value}${typed.type}`;
+  }
+
+  switch (typed.type) {
+    case 'bool':
+      return String(value);
+    case 'void':
+      return 'void';
+    case 'symbol':
+      return `"${value}"sym`;
+    case 'string':
+      return `"${value}"`;
+    case 'address':
+      return abbreviate(String(value), 4, 4);
+    case 'bytes':
+    case 'bytesN':
+      return `0x${abbreviate(String(value), 8, 8)}`;
+    case 'vec':
+    case 'tuple': {
+      const items = (value as TypedScVal[]).map(item => formatTypedScVal(item, 30)).join(', ');
+      return items.length > maxLength ? `[${items.substring(0, maxLength - 3)}…]` : `[${items}]`;
+    }
+    case 'map': {
+      const entries = value as Array<{ key: TypedScVal; value: TypedScVal }>;
+      const shown = entries.slice(0, 5).map(entry => `${formatTypedScVal(entry.key, 25)}: ${formatTypedScVal(entry.value, 25)}`);
+      return `{${shown.join(', ')}${entries.length > 5 ? ', …' : ''}}`;
+    }
+    case 'struct':
+      return `{${Object.entries(value as Record<string, TypedScVal>).map(([field, fieldValue]) => `${field}: ${formatTypedScVal(fieldValue, 25)}`).join(', ')}}`;
+    case 'union':
+      return typed.values?.length ? `${value}(${typed.values.map(item => formatTypedScVal(item, 25)).join(', ')})` : String(value);
+    case 'option':
+      return value ? formatTypedScVal(value, maxLength) : 'None';
+    case 'error':
+      return `Error(${value.type}, ${value.code})`;
+    case 'ledgerKeyContractInstance':
+      return '<LedgerKeyContractInstance>';
+    case 'ledgerKeyNonce':
+      return `Nonce(${value})`;
+    case 'xdr':
+      try {
+        return `<${StellarSdk.xdr.ScVal.fromXDR(String(value), 'base64').switch().name.replace(/^scv/, '')}>`;
+      } catch {
+        return '<xdr>';
+      }
+  }
+  return String(value);
+};
@@ -5,7 +5,8 @@ export interface TransactionDetails {
   feeCharged?: string;
   maxFee?: string;
   operations: any[];
-  status: 'success' | 'failed' | 'pending';
+  // 'unknown' for offline analysis without a result or meta XDR to tell
+  status: 'success' | 'failed' | 'pending' | 'unknown';
   errorMessage?: string;
   operationErrors?: string[];
   resultCodes?: {
@@ -19,6 +20,465 @@ export interface TransactionDetails {
   ledgerTimestamp: number;
   debugInfo?: TransactionDebugInfo;
   crossContractCalls?: CrossContractCall[];
+  // Contract calls reconstructed from fn_call/fn_return diagnostic events; empty when the
+  // node did not record diagnostics
+  callTree?: ContractInvocation[];
+  // Transaction-wide core_metrics totals, when the node reported them
+  callTreeResources?: CallResourceUsage;
+  footprint?: {
+    readOnly: string[];
+    readWrite: string[];
+  };
+}
+
+export interface ContractInvocation {
+  // 'call-0', 'call-1', ... in call order
+  id: string;
+  // 0 for calls made by the transaction itself
+  depth: number;
+  // Calling contract, or the transaction source account for top-level calls
+  caller: string;
+  contractId: string;
+  functionName: string;
+  args: TypedScVal[];
+  // Absent when the call did not return
+  result?: TypedScVal;
+  success: boolean;
+  children: ContractInvocation[];
+  // WASM the contract ran with, when the transaction records it (see SorobanOperation.wasmHash)
+  wasmHash?: string;
+}
+
+export interface ContractCallTree {
+  calls: ContractInvocation[];
+  // core_metrics by name (cpu_insn, mem_byte, ...). stellar-core reports them once for the whole
+  // transaction, so there are no per-call figures
+  metrics?: Record<string, number>;
+  resources?: CallResourceUsage;
+}
+
+export interface CallResourceUsage {
+  cpuInstructions: number;
+  memoryBytes: number;
+  readEntries: number;
+  writeEntries: number;
+  readBytes: number;
+  writeBytes: number;
+  eventBytes: number;
+}
+
+export interface TransactionXdrInput {
+  envelopeXdr: string;
+  resultXdr?: string;
+  resultMetaXdr?: string;
+  hash?: string;
+  networkPassphrase?: string;
+  ledgerTimestamp?: number;
+}
+
+export interface AccountTransactionFilters {
+  sorobanOnly?: boolean;
+  failedOnly?: boolean;
+  operationType?: string;
+  dateFrom?: number;
+  dateTo?: number;
+}
+
+export interface AccountTransactionQuery {
+  cursor?: string;
+  limit?: number;
+  filters?: AccountTransactionFilters;
+}
+
+export interface AccountTransactionSummary {
+  hash: string;
+  ledger: number;
+  createdAt: number;
+  sourceAccount: string;
+  successful: boolean;
+  operationCount: number;
+  operationTypes: string[];
+  isSoroban: boolean;
+  feeCharged: string;
+  maxFee: string;
+  feeBump: boolean;
+  memo?: string;
+  pagingToken: string;
+}
+
+export interface AccountTransactionPage {
+  accountId: string;
+  records: AccountTransactionSummary[];
+  nextCursor: string | null;
+}
+
+export interface ContractActivityQuery {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ContractInvocationSummary {
+  hash: string;
+  ledger: number;
+  createdAt: number;
+  operationIndex: number;
+  functionName: string;
+  caller: string;
+  direct: boolean;
+  successful: boolean;
+  feeCharged: string;
+  error?: string;
+}
+
+export interface ContractActivityPage {
+  contractId: string;
+  invocations: ContractInvocationSummary[];
+  nextCursor: string | null;
+  scannedFromLedger: number;
+  scannedToLedger: number;
+}
+
+export interface ContractFunctionStats {
+  functionName: string;
+  calls: number;
+  failures: number;
+  failureRate: number;
+  totalFeeCharged: string;
+}
+
+export interface LedgerSnapshot {
+  sequence: number;
+  closedAt: number;
+  protocolVersion: number;
+  baseFee: number;
+  maxTxSetSize: number;
+  txSetOperationCount: number;
+  successfulTransactionCount: number;
+  failedTransactionCount: number;
+  transactions: AccountTransactionSummary[];
+}
+
+export interface LedgerSorobanUsage {
+  hash: string;
+  cpuInstructions: number;
+  memoryBytes: number;
+  readBytes: number;
+  writeBytes: number;
+  feeCharged: string;
+  isActual: boolean;
+}
+
+export interface SorobanUsageOptions {
+  onResult?: (usage: LedgerSorobanUsage | null, details: TransactionDetails | null, hash: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LedgerResourceTotals {
+  transactions: number;
+  cpuInstructions: number;
+  memoryBytes: number;
+  readBytes: number;
+  writeBytes: number;
+  feeCharged: string;
+}
+
+export interface TransactionStreamTarget {
+  type: 'account' | 'contract';
+  address: string;
+}
+
+export interface TransactionStreamOptions {
+  onTransaction: (transaction: TransactionDetails) => void;
+  onError?: (error: Error) => void;
+  intervalMs?: number;
+}
+
+export interface TransactionStream {
+  stop(): void;
+  // Stops polling but keeps the position; resume() reports what landed in the meantime
+  pause(): void;
+  resume(): void;
+}
+
+// Signs on behalf of one account: a locally held keypair (see keypairSigner) or a wallet's
+// injected API adapted to this shape
+export interface TransactionSigner {
+  publicKey: string;
+  // Returns the signed envelope as base64 XDR
+  signTransaction(envelopeXdr: string, options: { networkPassphrase: string }): Promise<string>;
+  // Signs a SorobanAuthorizationEntry with address credentials for publicKey; returns the signed entry XDR
+  signAuthEntry?(entryXdr: string, options: { networkPassphrase: string; validUntilLedger: number }): Promise<string>;
+}
+
+export type SubmissionStatus = 'signing' | 'resimulating' | 'sending' | 'pending' | 'success' | 'failed';
+
+export interface SubmitTransactionOptions {
+  onStatus?: (status: SubmissionStatus) => void;
+  // How often getTransaction is polled while the transaction is pending (default 1000ms)
+  pollIntervalMs?: number;
+  // Give up waiting for inclusion after this long (default 60000ms)
+  timeoutMs?: number;
+}
+
+export interface SubmittedTransaction {
+  hash: string;
+  status: 'SUCCESS' | 'FAILED';
+  ledger?: number;
+  resultXdr?: string;
+}
+
+export type TransactionMemoType = 'text' | 'id' | 'hash' | 'return';
+
+export interface ExportTransactionOptions {
+  // Inclusion fee in stroops; the simulated resource fee is added on top
+  fee?: string;
+  // Seconds from now until the transaction expires, 0 for no expiry. Ignored when timeBounds is set
+  timeoutSeconds?: number;
+  // Unix timestamps in seconds; maxTime 0 means no upper bound
+  timeBounds?: { minTime: number; maxTime: number };
+  memo?: { type: TransactionMemoType; value: string };
+  // Shown to the signer by SEP-7 wallets (the `msg` parameter, at most 300 characters)
+  message?: string;
+}
+
+export interface UnsignedTransactionExport {
+  xdr: string;
+  hash: string;
+  // Total fee = inclusion fee + resource fee, in stroops
+  fee: string;
+  inclusionFee: string;
+  resourceFee: string;
+  timeBounds?: { minTime: string; maxTime: string };
+  // web+stellar:tx URI for SEP-7 capable wallets
+  sep7Uri: string;
+}
+
+export interface DiffEntry {
+  path: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  left?: any;
+  right?: any;
+}
+
+// What one contract invocation produced, from a ledger transaction or from a simulation
+export interface InvocationSnapshot {
+  status: 'success' | 'failed';
+  result?: TypedScVal | null;
+  error?: string;
+  // Contract events only; diagnostic events differ with every RPC configuration
+  events: ContractEvent[];
+  // Resource limits declared in the transaction, or estimated by the simulation. resourceFee is
+  // the fee charged when the meta records it, else the declared maximum, or the simulation's minimum
+  resources?: {
+    instructions: number;
+    diskReadBytes: number;
+    writeBytes: number;
+    readOnlyEntries: number;
+    readWriteEntries: number;
+    resourceFee: string;
+  };
+}
+
+// A ledger transaction's contract call, ready to be edited and simulated again
+export interface SimulationFork {
+  transactionHash: string;
+  contractId: string;
+  functionName: string;
+  args: TypedScVal[];
+  sourceAccount: string;
+  original: InvocationSnapshot;
+}
+
+export interface ForkComparison {
+  result: DiffEntry[];
+  events: DiffEntry[];
+  resources: DiffEntry[];
+  differenceCount: number;
+}
+
+export interface ForkSimulationResult {
+  snapshot: InvocationSnapshot;
+  comparison: ForkComparison;
+}
+
+export interface TransactionDiff {
+  leftHash: string;
+  rightHash: string;
+  overview: DiffEntry[];
+  args: DiffEntry[];
+  auth: DiffEntry[];
+  footprint: DiffEntry[];
+  stateChanges: DiffEntry[];
+  events: DiffEntry[];
+  resources: DiffEntry[];
+  differenceCount: number;
+}
+
+// Parameter and field types from a contract spec. Primitive names follow the Rust SDK
+// (u32, i128, address, symbol, ...), user-defined types are referenced by name
+export type ContractSpecTypeDef =
+  | { kind: 'primitive'; name: string }
+  | { kind: 'bytesN'; n: number }
+  | { kind: 'option'; value: ContractSpecTypeDef }
+  | { kind: 'result'; ok: ContractSpecTypeDef; error: ContractSpecTypeDef }
+  | { kind: 'vec'; element: ContractSpecTypeDef }
+  | { kind: 'map'; key: ContractSpecTypeDef; value: ContractSpecTypeDef }
+  | { kind: 'tuple'; elements: ContractSpecTypeDef[] }
+  | { kind: 'udt'; name: string };
+
+export interface ContractSpecField {
+  name: string;
+  type: string;
+  typeDef: ContractSpecTypeDef;
+  doc?: string;
+}
+
+export interface ContractSpecFunction {
+  name: string;
+  doc?: string;
+  inputs: ContractSpecField[];
+  outputs: ContractSpecTypeDef[];
+}
+
+export interface ContractSpecStruct {
+  name: string;
+  doc?: string;
+  fields: ContractSpecField[];
+}
+
+export interface ContractSpecUnion {
+  name: string;
+  doc?: string;
+  cases: Array<{ name: string; types: ContractSpecTypeDef[]; doc?: string }>;
+}
+
+export interface ContractSpecEnum {
+  name: string;
+  doc?: string;
+  cases: Array<{ name: string; value: number; doc?: string }>;
+}
+
+export interface ContractSpec {
+  wasmHash: string;
+  functions: ContractSpecFunction[];
+  structs: ContractSpecStruct[];
+  unions: ContractSpecUnion[];
+  enums: ContractSpecEnum[];
+  errorEnums: ContractSpecEnum[];
+  // Raw base64 ScSpecEntry XDR, accepted by the SDK's contract.Spec for native <-> ScVal conversion
+  entries: string[];
+}
+
+// Editable value of one spec-typed argument. Scalars stay as the text the user typed and are
+// only parsed when the call is built, so half-typed numbers do not get lost
+export type SpecFormValue =
+  | string
+  | boolean
+  | null
+  | SpecFormValue[]
+  | { some: boolean; value: SpecFormValue }
+  | { entries: Array<{ key: SpecFormValue; value: SpecFormValue }> }
+  | { fields: Record<string, SpecFormValue> }
+  | { tag: string; values: SpecFormValue[] };
+
+// An ScVal with its type spelled out, e.g. { type: 'i128', value: '-5' }. Integers are decimal
+// strings (or numbers), bytes are hex, addresses are strkeys
+export type TypedScVal =
+  | { type: 'bool'; value: boolean }
+  | { type: 'void' }
+  | { type: 'u32' | 'i32' | 'u64' | 'i64' | 'u128' | 'i128' | 'u256' | 'i256' | 'timepoint' | 'duration'; value: string | number }
+  | { type: 'bytes'; value: string; encoding?: 'hex' | 'base64' }
+  | { type: 'bytesN'; value: string; n?: number; encoding?: 'hex' | 'base64' }
+  | { type: 'string' | 'symbol' | 'address'; value: string }
+  | { type: 'vec' | 'tuple'; value: TypedScVal[] }
+  | { type: 'map'; value: Array<{ key: TypedScVal; value: TypedScVal }> }
+  | { type: 'struct'; value: Record<string, TypedScVal> }
+  | { type: 'union'; value: string; values?: TypedScVal[] }
+  | { type: 'option'; value: TypedScVal | null }
+  | { type: 'error'; value: { type: string; code: number | string } }
+  | { type: 'ledgerKeyContractInstance' }
+  | { type: 'ledgerKeyNonce'; value: string | number }
+  | { type: 'xdr'; value: string };
+
+// Names for a contract's error codes when its spec is unavailable or unhelpful,
+// e.g. { 7: 'InsufficientBalance', 8: { name: 'Expired', doc: 'Offer has expired' } }
+export type ContractErrorMapping = Record<number, string | { name: string; doc?: string }>;
+
+// A contract error code, Error(Contract, #code), resolved against the contract's error enums
+export interface ContractErrorInfo {
+  code: number;
+  // Contract that raised the error, when the diagnostic events recorded it
+  contractId?: string;
+  name?: string;
+  doc?: string;
+  // Error enum the case belongs to; unset for names from a user-supplied mapping
+  enumName?: string;
+  source?: 'spec' | 'mapping';
+}
+
+// One node of a SorobanAuthorizedInvocation tree: the call being authorized and the calls it
+// makes on the signer's behalf
+export interface AuthorizedInvocation {
+  type: 'contractFn' | 'createContract';
+  // Called contract, or for createContract the address of the contract being deployed when known
+  contractId?: string;
+  functionName?: string;
+  args: TypedScVal[];
+  // createContract only: WASM hash (hex) or 'stellar_asset', and the deployer address and salt
+  executable?: string;
+  deployer?: string;
+  salt?: string;
+  subInvocations: AuthorizedInvocation[];
+}
+
+// A SorobanAuthorizationEntry with its credentials spelled out
+export interface DecodedAuthorization {
+  // 'sourceAccount' entries are covered by the transaction signature and carry no nonce
+  credentialType: 'sourceAccount' | 'address';
+  signer?: string;
+  nonce?: string;
+  signatureExpirationLedger?: number;
+  // False for entries still waiting for a signature, e.g. straight out of simulation
+  signed: boolean;
+  signature?: TypedScVal;
+  // Keys in a standard account signature: a vec of { public_key, signature } maps
+  signaturePublicKeys?: string[];
+  rootInvocation: AuthorizedInvocation;
+  xdr: string;
+}
+
+// Who has to sign what before a simulated invocation can be submitted
+export interface AuthSignerRequirement {
+  // Address whose authorization is required; for sourceAccount entries, the simulation's source
+  signer: string;
+  credentialType: 'sourceAccount' | 'address';
+  // Contract accounts authorize through their __check_auth implementation
+  isContract: boolean;
+  entries: DecodedAuthorization[];
+  nonces: string[];
+}
+
+export interface AuthRequirementReport {
+  entries: DecodedAuthorization[];
+  signers: AuthSignerRequirement[];
+  // Ways the recording-mode entries from simulation differ from what the final transaction needs
+  warnings: Array<{ signer?: string; message: string }>;
+}
+
+export interface LabeledArgument {
+  name: string;
+  type?: string;
+  value: any;
+}
+
+export interface AppRoute {
+  view: 'search' | 'simulator' | 'compare';
+  network?: string;
+  target?: {
+    type: 'tx' | 'account' | 'contract' | 'ledger';
+    id: string;
+  };
+  tab?: string;
 }
 
 export interface OperationNode {
@@ -71,6 +531,126 @@ export interface SimulationResult {
   };
 }
 
+// Per-transaction Soroban limits, as set by the network's ConfigSetting ledger entries
+export interface SorobanTransactionLimits {
+  instructions: number;
+  memoryBytes: number;
+  diskReadEntries: number;
+  diskReadBytes: number;
+  writeEntries: number;
+  writeBytes: number;
+  // Protocol 23 and later
+  footprintEntries?: number;
+  transactionSizeBytes: number;
+  contractEventsSizeBytes: number;
+}
+
+// What a transaction used of each limited resource; resources left out are not compared
+export type SorobanResourceAmounts = Partial<SorobanTransactionLimits>;
+
+// Fee rates in stroops, named as in the ConfigSetting entries
+export interface SorobanFeeRates {
+  feeRatePerInstructionsIncrement: number;
+  feeDiskReadLedgerEntry: number;
+  feeWriteLedgerEntry: number;
+  feeDiskRead1Kb: number;
+  // A setting from protocol 23; before that it followed the size of Soroban state, like rent
+  feeWrite1Kb?: number;
+  feeHistorical1Kb: number;
+  feeContractEvents1Kb: number;
+  feeTxSize1Kb: number;
+}
+
+export interface SorobanRentSettings {
+  // Follows the average size of Soroban state over the recent window
+  feeRent1Kb: number;
+  persistentRentRateDenominator: number;
+  tempRentRateDenominator: number;
+}
+
+export interface SorobanNetworkSettings {
+  // Ledger the settings were read at
+  latestLedger: number;
+  limits: SorobanTransactionLimits;
+  feeRates: SorobanFeeRates;
+  rent?: SorobanRentSettings;
+}
+
+// Everything fees are computed from; a saved SorobanNetworkSettings works as a snapshot
+export type SorobanFeeConfig = Pick<SorobanNetworkSettings, 'feeRates' | 'rent'>;
+
+// Instructions, entries, bytes and size are charged as declared in the transaction's
+// SorobanTransactionData; events and rent as they turned out
+export interface SorobanFeeResources {
+  instructions: number;
+  // Classic entries in the footprint plus archived entries being restored
+  diskReadEntries: number;
+  writeEntries: number;
+  diskReadBytes: number;
+  writeBytes: number;
+  transactionSizeBytes: number;
+  // Contract events plus the return value
+  contractEventsSizeBytes: number;
+  rentChanges?: LedgerEntryRentChange[];
+  // Rent already known, e.g. rentFeeCharged from the meta; takes precedence over rentChanges
+  rentFee?: number;
+}
+
+export interface LedgerEntryRentChange {
+  persistent: boolean;
+  // Both 0 for entries the transaction created
+  oldSizeBytes: number;
+  oldLiveUntilLedger: number;
+  newSizeBytes: number;
+  newLiveUntilLedger: number;
+}
+
+export interface SorobanFeeComponent {
+  component: 'instructions' | 'diskReadEntries' | 'writeEntries' | 'diskReadBytes' | 'writeBytes' | 'historical' | 'bandwidth' | 'events' | 'rent';
+  fee: number;
+  refundable: boolean;
+  // How it was worked out, e.g. "1,200,000 instructions × 25 / 10,000"
+  calculation: string;
+}
+
+export interface SorobanFeeBreakdown {
+  components: SorobanFeeComponent[];
+  nonRefundableFee: number;
+  refundableFee: number;
+  resourceFee: number;
+}
+
+export interface SorobanFeeReconciliation {
+  breakdown: SorobanFeeBreakdown;
+  maxFee: number;
+  // SorobanTransactionData.resourceFee: the most the transaction allowed for resources
+  declaredResourceFee: number;
+  // maxFee less the declared resource fee
+  inclusionFeeBid: number;
+  feeCharged?: number;
+  // feeCharged less the computed resource fee
+  inclusionFeeCharged?: number;
+  // Declared resource fee that was not needed and returned after execution
+  resourceFeeRefund: number;
+  // Plain-language account of where the difference between maxFee and feeCharged went
+  explanations: string[];
+}
+
+// Fractions of a limit at which usage is flagged
+export interface HeadroomThresholds {
+  warning: number;
+  critical: number;
+}
+
+export interface ResourceHeadroom {
+  resource: keyof SorobanTransactionLimits;
+  used: number;
+  limit: number;
+  // used / limit
+  ratio: number;
+  level: 'ok' | 'warning' | 'critical';
+}
+
 export interface ContractInteraction {
   contractId: string;
   functionName: string;
@@ -80,9 +660,50 @@ export interface ContractInteraction {
 }
 
 export interface NetworkConfig {
-  isTestnet: boolean;
+  networkId: string;
+  label?: string;
   networkUrl: string;
   networkPassphrase: string;
+  rpcUrl?: string;
+  friendbotUrl?: string;
+  transport?: Transport;
+  transportOptions?: Omit<TransportOptions, 'horizonUrl' | 'rpcUrl'>;
+}
+
+// Accepted wherever a network is configured: a registry id alone is enough, explicit
+// fields override the registry entry, and the legacy isTestnet flag maps to testnet/mainnet
+export type NetworkConfigInput = Partial<NetworkConfig> & {
+  isTestnet?: boolean;
+};
+
+export interface NetworkDefinition {
+  id: string;
+  label: string;
+  horizonUrl: string;
+  rpcUrl: string;
+  networkPassphrase: string;
+  friendbotUrl?: string;
+  builtIn?: boolean;
+}
+
+export interface TransportOptions {
+  horizonUrl: string;
+  rpcUrl: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+  fallbackRpcUrls?: string[];
+  fetch?: typeof fetch;
+}
+
+export interface Transport {
+  horizonUrl: string;
+  rpcUrl: string;
+  fallbackRpcUrls: string[];
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+  horizon<T = any>(path: string): Promise<T>;
+  rpc<T = any>(method: string, params?: any, rpcUrl?: string): Promise<T>;
 }
 
 export interface SorobanOperation {
@@ -90,14 +711,19 @@ export interface SorobanOperation {
   contractId: string;
   functionName: string;
   args: any[];
+  // Args and result with their ScVal types preserved (see decodeScVal's typed mode)
+  typedArgs?: TypedScVal[];
   auth: any[];
   result?: any;
+  typedResult?: TypedScVal | null;
   error?: string;
   events?: ContractEvent[];
   stateChanges?: StateChange[];
   ttlExtensions?: TtlExtension[];
   resourceUsage?: ResourceUsage;
   crossContractCalls?: CrossContractCall[];
+  // WASM the contract ran with, read from the meta or footprint; absent when they do not tell
+  wasmHash?: string;
 }
 
 export interface CrossContractCall {
@@ -125,6 +751,10 @@ export interface StateChange {
   before?: any;
   after?: any;
   value?: any;
+  typedKey?: TypedScVal | null;
+  typedBefore?: TypedScVal | null;
+  typedAfter?: TypedScVal | null;
+  typedValue?: TypedScVal | null;
 }
 
 export interface TtlExtension {
@@ -138,6 +768,8 @@ export interface ContractEvent {
   type: string;
   topics?: string[];
   data: any;
+  typedTopics?: TypedScVal[];
+  typedData?: TypedScVal | null;
 }
 
 export interface TransactionDebugInfo {
@@ -148,6 +780,8 @@ export interface TransactionDebugInfo {
   decodedResult?: any;
   decodedEnvelope?: any;
   decodedMeta?: any;
+  // XDR that analyzeTransactionXdr could not decode, with the reason
+  decodeErrors?: string[];
   feeBumpInfo?: {
     feeSource: string;
     fee: string;
@@ -162,6 +796,7 @@ export interface TransactionDebugInfo {
       description?: string;
       operationType?: string;
       details?: any;
+      contractErrors?: ContractErrorInfo[];
     }>;
     layers?: Array<{
       level: string;
@@ -170,6 +805,7 @@ export interface TransactionDebugInfo {
       operationType?: string;
       envelopeType?: string;
       explanation?: string;
+      contractError?: ContractErrorInfo;
     }>;
   };
 }